@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { MockExchange, normalizeSymbol, toProductType } from './exchange';
+
+const account = {
+  apiKey: 'mock-key',
+  apiSecret: 'mock-secret',
+  passphrase: 'mock-passphrase',
+  name: 'Mock Account',
+};
+
+describe('MockExchange', () => {
+  it('only accepts suffixed symbols on v1 endpoints', () => {
+    expect(normalizeSymbol('BTCUSDT_UMCBL')).toBe('BTCUSDT');
+    expect(() => normalizeSymbol('BTCUSDT')).toThrow(
+      'Symbol BTCUSDT does not exist',
+    );
+  });
+
+  it('only accepts the product suffix a symbol is listed under', () => {
+    expect(normalizeSymbol('BTCUSD_DMCBL')).toBe('BTCUSD');
+    expect(normalizeSymbol('BTCPERP_CMCBL')).toBe('BTCPERP');
+    expect(() => normalizeSymbol('BTCUSD_UMCBL')).toThrow(
+      'Symbol BTCUSD_UMCBL does not exist',
+    );
+    expect(toProductType('dmcbl')).toBe('COIN-FUTURES');
+    expect(() => toProductType('spot')).toThrow('Parameter productType error');
+  });
+
+  it('keeps balances and positions per product line', () => {
+    const exchange = new MockExchange([account]);
+
+    exchange.placeOrder(account.apiKey, {
+      symbol: 'BTCUSD_DMCBL',
+      marginCoin: 'BTC',
+      size: '0.01',
+      side: 'open_long',
+      orderType: 'market',
+    });
+    exchange.placeOrder(account.apiKey, {
+      symbol: 'BTCPERP_CMCBL',
+      marginCoin: 'USDC',
+      size: '0.01',
+      side: 'open_short',
+      orderType: 'market',
+    });
+
+    expect(exchange.getPositions(account.apiKey)).toEqual([]);
+    expect(exchange.getPositions(account.apiKey, 'COIN-FUTURES')).toMatchObject(
+      [{ symbol: 'BTCUSD', marginCoin: 'BTC', holdSide: 'long' }],
+    );
+    expect(exchange.getPositions(account.apiKey, 'USDC-FUTURES')).toMatchObject(
+      [{ symbol: 'BTCPERP', marginCoin: 'USDC', holdSide: 'short' }],
+    );
+
+    // Coin-M balances are kept in BTC, the others in their stablecoin
+    const [coinBalance] = exchange.getBalance(account.apiKey, 'COIN-FUTURES');
+    expect(coinBalance.marginCoin).toBe('BTC');
+    expect(parseFloat(coinBalance.equity)).toBeLessThan(1);
+    expect(parseFloat(coinBalance.usdtEquity)).toBeGreaterThan(10000);
+    expect(exchange.getBalance(account.apiKey)[0]).toMatchObject({
+      marginCoin: 'USDT',
+      equity: '10000.0000',
+    });
+  });
+
+  it('switches the position mode per product line', () => {
+    const exchange = new MockExchange([account]);
+    exchange.placeOrder(account.apiKey, {
+      symbol: 'BTCUSDT_UMCBL',
+      size: '0.01',
+      side: 'open_long',
+      orderType: 'market',
+    });
+
+    expect(() =>
+      exchange.setPositionMode(account.apiKey, { holdMode: 'single_hold' }),
+    ).toThrow('the position mode cannot be switched');
+    exchange.setPositionMode(account.apiKey, {
+      productType: 'dmcbl',
+      holdMode: 'single_hold',
+    });
+
+    expect(exchange.getSymbolAccount(account.apiKey, 'BTCUSD')).toMatchObject({
+      holdMode: 'single_hold',
+    });
+    expect(exchange.getSymbolAccount(account.apiKey, 'BTCUSDT')).toMatchObject({
+      holdMode: 'double_hold',
+    });
+  });
+
+  it('closes one-way positions with reduce-only single-side orders', () => {
+    const exchange = new MockExchange([account]);
+    exchange.setPositionMode(account.apiKey, { holdMode: 'single_hold' });
+    const order = {
+      symbol: 'BTCUSDT_UMCBL',
+      size: '0.01',
+      orderType: 'market',
+    };
+
+    expect(() =>
+      exchange.placeOrder(account.apiKey, { ...order, side: 'open_long' }),
+    ).toThrow('unilateral position');
+    exchange.placeOrder(account.apiKey, { ...order, side: 'buy_single' });
+    expect(exchange.getPositions(account.apiKey)).toMatchObject([
+      { holdSide: 'long', holdMode: 'single_hold' },
+    ]);
+
+    exchange.placeOrder(account.apiKey, {
+      ...order,
+      side: 'sell_single',
+      reduceOnly: true,
+    });
+    expect(exchange.getPositions(account.apiKey)).toEqual([]);
+  });
+
+  it('rejects v1 orders for plain symbols', () => {
+    const exchange = new MockExchange([account]);
+    const order = {
+      size: '0.01',
+      side: 'open_long',
+      orderType: 'market',
+    };
+
+    expect(() =>
+      exchange.placeOrder(account.apiKey, { ...order, symbol: 'BTCUSDT' }),
+    ).toThrow('Symbol BTCUSDT does not exist');
+
+    exchange.placeOrder(account.apiKey, { ...order, symbol: 'BTCUSDT_UMCBL' });
+    expect(exchange.getPositions(account.apiKey)).toMatchObject([
+      { symbol: 'BTCUSDT', holdSide: 'long', total: '0.01' },
+    ]);
+  });
+
+  it('rejects plain symbols on the v1 plan and account endpoints', () => {
+    const exchange = new MockExchange([account]);
+
+    expect(() =>
+      exchange.placePlan(account.apiKey, {
+        symbol: 'ETHUSDT',
+        side: 'open_long',
+        orderType: 'market',
+        size: '1',
+        triggerPrice: '3000',
+      }),
+    ).toThrow('Symbol ETHUSDT does not exist');
+    expect(() =>
+      exchange.setLeverage(account.apiKey, {
+        symbol: 'ETHUSDT',
+        leverage: '5',
+      }),
+    ).toThrow('Symbol ETHUSDT does not exist');
+    expect(
+      exchange.setLeverage(account.apiKey, {
+        symbol: 'ETHUSDT_UMCBL',
+        leverage: '5',
+      }),
+    ).toMatchObject({ symbol: 'ETHUSDT', crossMarginLeverage: 5 });
+  });
+});
@@ -0,0 +1,1505 @@
+// Simulated Bitget futures exchange state for the mock server, with a
+// USDT-M, a USDC-M and a coin-margined product line
+
+export interface MockAccount {
+  apiKey: string;
+  apiSecret: string;
+  passphrase: string;
+  name: string;
+  userId?: string;
+}
+
+interface MockPosition {
+  symbol: string;
+  holdSide: 'long' | 'short';
+  total: number;
+  averageOpenPrice: number;
+  leverage: number;
+  marginMode: MarginMode;
+  extraMargin: number; // Isolated margin added on top of the initial margin
+  achievedProfits: number;
+  cTime: number;
+}
+
+type MarginMode = 'crossed' | 'fixed';
+type HoldMode = 'double_hold' | 'single_hold';
+
+export type MockProductType = 'USDT-FUTURES' | 'USDC-FUTURES' | 'COIN-FUTURES';
+
+// Per-symbol margin mode and leverage, as set through the account endpoints
+interface SymbolSettings {
+  marginMode: MarginMode;
+  crossLeverage: number;
+  longLeverage: number;
+  shortLeverage: number;
+}
+
+interface MockOrder {
+  orderId: string;
+  clientOid: string;
+  symbol: string;
+  side: string;
+  orderType: 'limit' | 'market';
+  price: number;
+  size: number;
+  reduceOnly: boolean;
+  cTime: number;
+}
+
+interface MockPlanOrder {
+  orderId: string;
+  clientOid: string;
+  symbol: string;
+  planType: string;
+  side: string;
+  orderType: 'limit' | 'market';
+  size: number;
+  triggerPrice: number;
+  executePrice: number;
+  triggerType: string;
+  rangeRate: number;
+  triggerAbove: boolean; // Fires when the price rises to the trigger
+  extreme?: number; // Best price since a trailing stop activated
+  cTime: number;
+}
+
+// Filled order, kept for the order history and fills endpoints
+interface MockFill {
+  tradeId: string;
+  orderId: string;
+  clientOid: string;
+  orderType: string;
+  symbol: string;
+  side: string;
+  size: number;
+  price: number;
+  profit: number;
+  fee: number; // Negative, as Bitget reports fees paid
+  cTime: number;
+}
+
+interface AccountState {
+  account: MockAccount;
+  // Realized balance of each product line, in its margin coin
+  balances: { [productType in MockProductType]: number };
+  positions: MockPosition[];
+  orders: MockOrder[];
+  planOrders: MockPlanOrder[];
+  fills: MockFill[];
+  // Bitget switches the position mode per product line
+  holdModes: { [productType in MockProductType]: HoldMode };
+  symbolSettings: { [symbol: string]: SymbolSettings };
+}
+
+// Thrown for requests the exchange rejects, mirroring Bitget error codes
+export class MockExchangeError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// v1 names and symbol suffixes of the product lines and the coin they
+// settle in. The only coin-margined contract, BTCUSD, settles in BTC.
+const PRODUCT_LINES: {
+  [productType in MockProductType]: {
+    v1: string;
+    suffix: string;
+    marginCoin: string;
+    initialBalance: number;
+  };
+} = {
+  'USDT-FUTURES': {
+    v1: 'umcbl',
+    suffix: '_UMCBL',
+    marginCoin: 'USDT',
+    initialBalance: 10000,
+  },
+  'USDC-FUTURES': {
+    v1: 'cmcbl',
+    suffix: '_CMCBL',
+    marginCoin: 'USDC',
+    initialBalance: 10000,
+  },
+  'COIN-FUTURES': {
+    v1: 'dmcbl',
+    suffix: '_DMCBL',
+    marginCoin: 'BTC',
+    initialBalance: 0.2,
+  },
+};
+const PRODUCT_TYPES = Object.keys(PRODUCT_LINES) as MockProductType[];
+
+const TAKER_FEE_RATE = 0.0006;
+const DEFAULT_LEVERAGE = 10;
+
+// Scripted price feed: each symbol oscillates around its base price
+const PRICE_SCRIPT: {
+  [symbol: string]: { base: number; amplitude: number; period: number };
+} = {
+  BTCUSDT: { base: 65000, amplitude: 0.01, period: 120 },
+  ETHUSDT: { base: 3200, amplitude: 0.015, period: 90 },
+  BNBUSDT: { base: 580, amplitude: 0.02, period: 60 },
+  BTCPERP: { base: 65020, amplitude: 0.01, period: 120 },
+  BTCUSD: { base: 64980, amplitude: 0.01, period: 120 },
+};
+
+export const MOCK_SYMBOLS = Object.keys(PRICE_SCRIPT);
+
+// Fixed funding rates, settled every 8 hours on the UTC clock
+const FUNDING_RATES: { [symbol: string]: number } = {
+  BTCUSDT: 0.0001,
+  ETHUSDT: 0.00015,
+  BNBUSDT: -0.00005,
+  BTCPERP: 0.00008,
+  BTCUSD: 0.00012,
+};
+const FUNDING_PERIOD = 8 * 60 * 60 * 1000;
+
+const CANDLE_SECONDS: { [granularity: string]: number } = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '1H': 3600,
+  '4H': 14400,
+  '1D': 86400,
+};
+export const CANDLE_GRANULARITIES = Object.keys(CANDLE_SECONDS);
+
+// Contract metadata served by the public contracts endpoint
+const CONTRACT_SCRIPT: {
+  [symbol: string]: {
+    productType: MockProductType;
+    baseCoin: string;
+    quoteCoin: string;
+    pricePlace: number;
+    volumePlace: number;
+    minTradeNum: string;
+    maxLever: string;
+  };
+} = {
+  BTCUSDT: {
+    productType: 'USDT-FUTURES',
+    baseCoin: 'BTC',
+    quoteCoin: 'USDT',
+    pricePlace: 1,
+    volumePlace: 3,
+    minTradeNum: '0.001',
+    maxLever: '125',
+  },
+  ETHUSDT: {
+    productType: 'USDT-FUTURES',
+    baseCoin: 'ETH',
+    quoteCoin: 'USDT',
+    pricePlace: 2,
+    volumePlace: 2,
+    minTradeNum: '0.01',
+    maxLever: '100',
+  },
+  BNBUSDT: {
+    productType: 'USDT-FUTURES',
+    baseCoin: 'BNB',
+    quoteCoin: 'USDT',
+    pricePlace: 2,
+    volumePlace: 1,
+    minTradeNum: '0.1',
+    maxLever: '75',
+  },
+  BTCPERP: {
+    productType: 'USDC-FUTURES',
+    baseCoin: 'BTC',
+    quoteCoin: 'USDC',
+    pricePlace: 1,
+    volumePlace: 4,
+    minTradeNum: '0.0001',
+    maxLever: '125',
+  },
+  BTCUSD: {
+    productType: 'COIN-FUTURES',
+    baseCoin: 'BTC',
+    quoteCoin: 'USD',
+    pricePlace: 1,
+    volumePlace: 3,
+    minTradeNum: '0.001',
+    maxLever: '125',
+  },
+};
+
+// Product line a listed symbol belongs to
+const getProductType = (symbol: string): MockProductType =>
+  CONTRACT_SCRIPT[symbol].productType;
+
+const isInProduct =
+  (productType: MockProductType) =>
+  (item: { symbol: string }): boolean =>
+    getProductType(item.symbol) === productType;
+
+// Amounts in BTC need more decimals than stablecoin amounts
+const formatAmount = (amount: number, coin: string): string =>
+  amount.toFixed(coin === 'BTC' ? 8 : 4);
+
+export class MockExchange {
+  private accounts = new Map<string, AccountState>();
+  private prices: { [symbol: string]: number } = {};
+  private openPrices: { [symbol: string]: number } = {};
+  private tick = 0;
+  private nextOrderId = 1;
+
+  // Receives v2 orders-channel payloads whenever an order changes state
+  onOrderUpdate?: (
+    apiKey: string,
+    productType: MockProductType,
+    order: Record<string, string>,
+  ) => void;
+
+  constructor(accounts: MockAccount[]) {
+    accounts.forEach((account) => {
+      this.accounts.set(account.apiKey, {
+        account,
+        balances: {
+          'USDT-FUTURES': PRODUCT_LINES['USDT-FUTURES'].initialBalance,
+          'USDC-FUTURES': PRODUCT_LINES['USDC-FUTURES'].initialBalance,
+          'COIN-FUTURES': PRODUCT_LINES['COIN-FUTURES'].initialBalance,
+        },
+        positions: [],
+        orders: [],
+        planOrders: [],
+        fills: [],
+        holdModes: {
+          'USDT-FUTURES': 'double_hold',
+          'USDC-FUTURES': 'double_hold',
+          'COIN-FUTURES': 'double_hold',
+        },
+        symbolSettings: {},
+      });
+    });
+
+    MOCK_SYMBOLS.forEach((symbol) => {
+      this.prices[symbol] = PRICE_SCRIPT[symbol].base;
+      this.openPrices[symbol] = PRICE_SCRIPT[symbol].base;
+    });
+  }
+
+  getAccount(apiKey: string): MockAccount | undefined {
+    return this.accounts.get(apiKey)?.account;
+  }
+
+  getPrice(symbol: string): number {
+    const price = this.prices[symbol];
+    if (price === undefined) {
+      throw new MockExchangeError('40034', `Symbol ${symbol} does not exist`);
+    }
+    return price;
+  }
+
+  // Reject a symbol that is not listed under the product type, like the v2
+  // endpoints do
+  checkProductType(symbol: string, productType: MockProductType): void {
+    this.getPrice(symbol);
+    if (getProductType(symbol) !== productType) {
+      throw new MockExchangeError('40034', `Symbol ${symbol} does not exist`);
+    }
+  }
+
+  // Advance the scripted feed by one step and fill any crossed limit orders
+  advance(): void {
+    this.tick++;
+    MOCK_SYMBOLS.forEach((symbol) => {
+      this.prices[symbol] = this.priceAt(symbol, this.tick);
+    });
+
+    this.accounts.forEach((state) => {
+      state.orders = state.orders.filter((order) => {
+        const price = this.prices[order.symbol];
+        const isBuy =
+          order.side === 'open_long' || order.side === 'close_short';
+        const crossed = isBuy ? price <= order.price : price >= order.price;
+        if (!crossed) return true;
+
+        try {
+          this.fill(
+            state,
+            order,
+            order.symbol,
+            order.side,
+            order.size,
+            order.price,
+          );
+          this.emitOrderUpdate(state, order, 'filled');
+        } catch (error) {
+          console.error(`Mock fill failed for ${order.orderId}:`, error);
+        }
+        return false;
+      });
+
+      state.planOrders = state.planOrders.filter(
+        (order) => !this.triggerPlanOrder(state, order),
+      );
+    });
+  }
+
+  // Public contract list of a product line in Bitget v2 format
+  getContracts(
+    productType: MockProductType = 'USDT-FUTURES',
+  ): Record<string, string>[] {
+    return MOCK_SYMBOLS.filter(
+      (symbol) => getProductType(symbol) === productType,
+    ).map((symbol) => {
+      const contract = CONTRACT_SCRIPT[symbol];
+      return {
+        symbol,
+        baseCoin: contract.baseCoin,
+        quoteCoin: contract.quoteCoin,
+        pricePlace: contract.pricePlace.toString(),
+        priceEndStep: '1',
+        volumePlace: contract.volumePlace.toString(),
+        sizeMultiplier: Math.pow(10, -contract.volumePlace).toString(),
+        minTradeNum: contract.minTradeNum,
+        maxLever: contract.maxLever,
+        symbolType: 'perpetual',
+        symbolStatus: 'normal',
+      };
+    });
+  }
+
+  // Public candles in Bitget v2 format, replayed from the price script with
+  // one tick per second. Candles start on the granularity boundary and the
+  // last one is still open.
+  getCandles(symbol: string, granularity: string, limit: number): string[][] {
+    this.getPrice(symbol);
+    const seconds = CANDLE_SECONDS[granularity];
+    if (!seconds) {
+      throw new MockExchangeError('40020', `Parameter granularity error`);
+    }
+
+    const now = Date.now();
+    const lastStart = Math.floor(now / (seconds * 1000)) * seconds * 1000;
+    const candles: string[][] = [];
+    for (let i = limit - 1; i >= 0; i--) {
+      const start = lastStart - i * seconds * 1000;
+      const startTick = this.tick - Math.round((now - start) / 1000);
+      const endTick = Math.min(this.tick, startTick + seconds);
+      const samples = Array.from({ length: 60 }, (_, j) =>
+        this.priceAt(
+          symbol,
+          startTick + ((j + 1) * (endTick - startTick)) / 60,
+        ),
+      );
+      const open = this.priceAt(symbol, startTick);
+      const close = samples[samples.length - 1];
+      candles.push([
+        start.toString(),
+        open.toFixed(2),
+        Math.max(open, ...samples).toFixed(2),
+        Math.min(open, ...samples).toFixed(2),
+        close.toFixed(2),
+        '100',
+        (100 * close).toFixed(2),
+      ]);
+    }
+    return candles;
+  }
+
+  // Public ticker snapshot in Bitget v2 format
+  getTicker(symbol: string): Record<string, string> {
+    const price = this.getPrice(symbol);
+    const open = this.openPrices[symbol];
+    return {
+      instId: symbol,
+      lastPr: price.toFixed(2),
+      open24h: open.toFixed(2),
+      change24h: ((price - open) / open).toFixed(6),
+      changeUtc24h: (((price - open) / open) * 100).toFixed(4),
+      baseVolume: '1000',
+      quoteVolume: (1000 * price).toFixed(2),
+      markPrice: price.toFixed(2),
+      ...this.getFunding(symbol),
+      ts: Date.now().toString(),
+    };
+  }
+
+  // Funding rate and next settlement time, as in the v2 ticker
+  getFunding(symbol: string): { fundingRate: string; nextFundingTime: string } {
+    this.getPrice(symbol);
+    const nextFundingTime =
+      Math.floor(Date.now() / FUNDING_PERIOD + 1) * FUNDING_PERIOD;
+    return {
+      fundingRate: FUNDING_RATES[symbol].toString(),
+      nextFundingTime: nextFundingTime.toString(),
+    };
+  }
+
+  // Balance of a product line, in its margin coin
+  getBalance(
+    apiKey: string,
+    productType: MockProductType = 'USDT-FUTURES',
+  ): Record<string, string>[] {
+    const state = this.getState(apiKey);
+    const positions = state.positions.filter(isInProduct(productType));
+    const unrealizedPL = positions.reduce(
+      (sum, position) => sum + this.getUnrealizedPL(position),
+      0,
+    );
+    const locked = positions.reduce(
+      (sum, position) => sum + this.getMargin(position),
+      0,
+    );
+    const equity = state.balances[productType] + unrealizedPL;
+    const available = equity - locked;
+    const { marginCoin } = PRODUCT_LINES[productType];
+    const usdtEquity =
+      marginCoin === 'BTC' ? equity * this.getPrice('BTCUSDT') : equity;
+
+    return [
+      {
+        marginCoin,
+        locked: formatAmount(locked, marginCoin),
+        available: formatAmount(available, marginCoin),
+        crossMaxAvailable: formatAmount(available, marginCoin),
+        fixedMaxAvailable: formatAmount(available, marginCoin),
+        maxTransferOut: formatAmount(Math.max(available, 0), marginCoin),
+        equity: formatAmount(equity, marginCoin),
+        usdtEquity: usdtEquity.toFixed(4),
+        btcEquity: (usdtEquity / this.getPrice('BTCUSDT')).toFixed(8),
+        crossRiskRate: equity > 0 ? (locked / equity / 10).toFixed(4) : '1',
+        crossMarginLeverage: DEFAULT_LEVERAGE.toString(),
+        accountId: apiKey,
+        unrealizedPL: formatAmount(unrealizedPL, marginCoin),
+        bonus: '0',
+      },
+    ];
+  }
+
+  getPositions(
+    apiKey: string,
+    productType: MockProductType = 'USDT-FUTURES',
+  ): Record<string, string>[] {
+    const state = this.getState(apiKey);
+    const { marginCoin } = PRODUCT_LINES[productType];
+    return state.positions.filter(isInProduct(productType)).map((position) => {
+      const price = this.getPrice(position.symbol);
+      const margin = this.getMargin(position);
+      // Added isolated margin moves the liquidation price further away
+      const buffer =
+        (productType === 'COIN-FUTURES'
+          ? position.extraMargin * price
+          : position.extraMargin) / position.total;
+      const liquidationPrice =
+        position.holdSide === 'long'
+          ? position.averageOpenPrice * (1 - 1 / position.leverage) - buffer
+          : position.averageOpenPrice * (1 + 1 / position.leverage) + buffer;
+
+      return {
+        marginCoin,
+        symbol: position.symbol,
+        holdSide: position.holdSide,
+        openDelegateCount: '0',
+        margin: formatAmount(margin, marginCoin),
+        available: position.total.toString(),
+        locked: '0',
+        total: position.total.toString(),
+        leverage: position.leverage.toString(),
+        achievedProfits: formatAmount(position.achievedProfits, marginCoin),
+        averageOpenPrice: position.averageOpenPrice.toFixed(2),
+        marginMode: position.marginMode,
+        holdMode: state.holdModes[productType],
+        unrealizedPL: formatAmount(this.getUnrealizedPL(position), marginCoin),
+        liquidationPrice: liquidationPrice.toFixed(2),
+        keepMarginRate: '0.004',
+        marketPrice: price.toFixed(2),
+        cTime: position.cTime.toString(),
+      };
+    });
+  }
+
+  getOrders(
+    apiKey: string,
+    productType: MockProductType = 'USDT-FUTURES',
+  ): Record<string, string>[] {
+    const state = this.getState(apiKey);
+    return state.orders.filter(isInProduct(productType)).map((order) => ({
+      userId: apiKey,
+      symbol: order.symbol,
+      orderId: order.orderId,
+      clientOid: order.clientOid,
+      price: order.price.toString(),
+      size: order.size.toString(),
+      orderType: order.orderType,
+      side: order.side,
+      status: 'new',
+      priceAvg: '0',
+      baseVolume: '0',
+      quoteVolume: '0',
+      enterPointSource: 'API',
+      feeDetail: '',
+      orderSource: 'normal',
+      cTime: order.cTime.toString(),
+      uTime: order.cTime.toString(),
+    }));
+  }
+
+  placeOrder(
+    apiKey: string,
+    body: Record<string, unknown>,
+  ): { orderId: string; clientOid: string } {
+    const state = this.getState(apiKey);
+    const symbol = normalizeSymbol(String(body.symbol ?? ''));
+    const oneWay = state.holdModes[getProductType(symbol)] === 'single_hold';
+    const side = toHedgeSide(String(body.side ?? ''), oneWay, body.reduceOnly);
+    const orderType = body.orderType === 'limit' ? 'limit' : 'market';
+    const size = parseFloat(String(body.size ?? ''));
+    const price = parseFloat(String(body.price ?? ''));
+
+    this.getPrice(symbol);
+    if (!(size > 0)) {
+      throw new MockExchangeError('40020', 'Parameter size error');
+    }
+    if (orderType === 'limit' && !(price > 0)) {
+      throw new MockExchangeError('40020', 'Parameter price error');
+    }
+
+    const order: MockOrder = {
+      orderId: (this.nextOrderId++).toString(),
+      clientOid: String(body.clientOid ?? `mock-${Date.now()}`),
+      symbol,
+      side,
+      orderType,
+      price: orderType === 'limit' ? price : this.getPrice(symbol),
+      size,
+      reduceOnly: body.reduceOnly === true,
+      cTime: Date.now(),
+    };
+
+    if (orderType === 'market') {
+      this.fill(state, order, symbol, side, size, this.getPrice(symbol));
+      this.emitOrderUpdate(state, order, 'filled');
+    } else {
+      state.orders.push(order);
+      this.emitOrderUpdate(state, order, 'live');
+    }
+
+    return { orderId: order.orderId, clientOid: order.clientOid };
+  }
+
+  cancelOrder(
+    apiKey: string,
+    body: Record<string, unknown>,
+  ): { orderId: string; clientOid: string } {
+    const state = this.getState(apiKey);
+    const order = state.orders.find(
+      (o) => o.orderId === body.orderId && o.symbol === body.symbol,
+    );
+    if (!order) {
+      throw new MockExchangeError('40768', 'Order does not exist');
+    }
+    state.orders = state.orders.filter((o) => o !== order);
+    this.emitOrderUpdate(state, order, 'canceled');
+    return { orderId: order.orderId, clientOid: order.clientOid };
+  }
+
+  // Open plan orders in v1 format; isPlan 'plan' lists trigger orders and
+  // 'profit_loss' lists TP/SL and trailing stops
+  getPlanOrders(
+    apiKey: string,
+    isPlan: string,
+    productType: MockProductType = 'USDT-FUTURES',
+  ): Record<string, unknown>[] {
+    const state = this.getState(apiKey);
+    return state.planOrders
+      .filter(isInProduct(productType))
+      .filter(
+        (order) => (order.planType === 'normal_plan') === (isPlan === 'plan'),
+      )
+      .map((order) => ({
+        orderId: order.orderId,
+        clientOid: order.clientOid,
+        symbol: order.symbol,
+        marginCoin: PRODUCT_LINES[productType].marginCoin,
+        size: order.size.toString(),
+        executePrice: order.executePrice.toString(),
+        triggerPrice: order.triggerPrice.toString(),
+        status: 'not_trigger',
+        orderType: order.orderType,
+        planType: order.planType,
+        side: order.side,
+        triggerType: order.triggerType,
+        rangeRate: order.planType === 'moving_plan' ? order.rangeRate : null,
+        cTime: order.cTime.toString(),
+        uTime: order.cTime.toString(),
+      }));
+  }
+
+  placeTpsl(
+    apiKey: string,
+    body: Record<string, unknown>,
+  ): { orderId: string; clientOid: string } {
+    const state = this.getState(apiKey);
+    const symbol = normalizeSymbol(String(body.symbol ?? ''));
+    const planType = String(body.planType ?? '');
+    const holdSide = body.holdSide === 'short' ? 'short' : 'long';
+    if (!['profit_plan', 'loss_plan', 'moving_plan'].includes(planType)) {
+      throw new MockExchangeError('40020', `Parameter planType error`);
+    }
+    if (
+      !state.positions.some(
+        (p) => p.symbol === symbol && p.holdSide === holdSide,
+      )
+    ) {
+      throw new MockExchangeError('40774', 'No position to set TP/SL on');
+    }
+    const rangeRate = parseFloat(String(body.rangeRate ?? ''));
+    if (planType === 'moving_plan' && !(rangeRate > 0)) {
+      throw new MockExchangeError('40020', 'Parameter rangeRate error');
+    }
+
+    return this.addPlanOrder(state, symbol, body, {
+      planType,
+      side: `close_${holdSide}`,
+      orderType: 'market',
+      executePrice: 0,
+      rangeRate: planType === 'moving_plan' ? rangeRate : 0,
+    });
+  }
+
+  placePlan(
+    apiKey: string,
+    body: Record<string, unknown>,
+  ): { orderId: string; clientOid: string } {
+    const state = this.getState(apiKey);
+    const symbol = normalizeSymbol(String(body.symbol ?? ''));
+    const side = String(body.side ?? '');
+    const orderType = body.orderType === 'limit' ? 'limit' : 'market';
+    const executePrice = parseFloat(String(body.executePrice ?? '0'));
+    if (
+      !['open_long', 'open_short', 'close_long', 'close_short'].includes(side)
+    ) {
+      throw new MockExchangeError('40020', `Parameter side error: ${side}`);
+    }
+    if (orderType === 'limit' && !(executePrice > 0)) {
+      throw new MockExchangeError('40020', 'Parameter executePrice error');
+    }
+
+    return this.addPlanOrder(state, symbol, body, {
+      planType: 'normal_plan',
+      side,
+      orderType,
+      executePrice,
+      rangeRate: 0,
+    });
+  }
+
+  // Handles both modifyPlan and modifyTPSLPlan
+  modifyPlan(
+    apiKey: string,
+    body: Record<string, unknown>,
+  ): { orderId: string; clientOid: string } {
+    const order = this.getPlanOrder(apiKey, body);
+    const triggerPrice = parseFloat(String(body.triggerPrice ?? ''));
+    if (!(triggerPrice > 0)) {
+      throw new MockExchangeError('40020', 'Parameter triggerPrice error');
+    }
+    order.triggerPrice = triggerPrice;
+    order.triggerAbove = triggerPrice > this.getPrice(order.symbol);
+    order.extreme = undefined;
+    if (order.orderType === 'limit' && body.executePrice) {
+      order.executePrice = parseFloat(String(body.executePrice));
+    }
+    return { orderId: order.orderId, clientOid: order.clientOid };
+  }
+
+  cancelPlan(
+    apiKey: string,
+    body: Record<string, unknown>,
+  ): { orderId: string; clientOid: string } {
+    const state = this.getState(apiKey);
+    const order = this.getPlanOrder(apiKey, body);
+    state.planOrders = state.planOrders.filter((o) => o !== order);
+    return { orderId: order.orderId, clientOid: order.clientOid };
+  }
+
+  // Filled orders in the v1 historyProductType format, newest first. Each mock
+  // order fills in one go, so every fill is also a history order.
+  getOrderHistory(
+    apiKey: string,
+    query: Record<string, unknown>,
+  ): { nextFlag: boolean; endId: string; orderList: Record<string, string>[] } {
+    const { items, nextFlag } = this.pageFills(apiKey, query, 'pageSize');
+    return {
+      nextFlag,
+      endId: items.length > 0 ? items[items.length - 1].tradeId : '',
+      orderList: items.map((fill) => this.toHistoryOrder(fill)),
+    };
+  }
+
+  // A filled or open order by orderId or clientOid, in the v1 order detail
+  // format
+  getOrderDetail(
+    apiKey: string,
+    query: Record<string, unknown>,
+  ): Record<string, string> {
+    const state = this.getState(apiKey);
+    const symbol = normalizeSymbol(String(query.symbol ?? ''));
+    const matches = (order: { orderId: string; clientOid: string }) =>
+      query.orderId
+        ? order.orderId === query.orderId
+        : order.clientOid === query.clientOid;
+
+    const fill = state.fills.find((f) => f.symbol === symbol && matches(f));
+    if (fill) {
+      return this.toHistoryOrder(fill);
+    }
+    const order = state.orders.find((o) => o.symbol === symbol && matches(o));
+    if (!order) {
+      throw new MockExchangeError('40768', 'Order does not exist');
+    }
+    return {
+      ...this.toHistoryOrder({ ...order, profit: 0, fee: 0 }),
+      filledQty: '0',
+      priceAvg: '0',
+      state: 'new',
+    };
+  }
+
+  // Fills in the v1 allFills format, newest first
+  getFills(
+    apiKey: string,
+    query: Record<string, unknown>,
+  ): Record<string, string>[] {
+    return this.pageFills(apiKey, query, 'limit').items.map((fill) => ({
+      tradeId: fill.tradeId,
+      symbol: toV1Symbol(fill.symbol),
+      orderId: fill.orderId,
+      price: fill.price.toString(),
+      sizeQty: fill.size.toString(),
+      fee: fill.fee.toFixed(8),
+      side: fill.side,
+      fillAmount: (fill.size * fill.price).toFixed(8),
+      profit: fill.profit.toFixed(8),
+      cTime: fill.cTime.toString(),
+    }));
+  }
+
+  // Add margin to an isolated position; cross positions are rejected like
+  // Bitget does
+  setMargin(apiKey: string, body: Record<string, unknown>): null {
+    const state = this.getState(apiKey);
+    const symbol = normalizeSymbol(String(body.symbol ?? ''));
+    const amount = parseFloat(String(body.amount ?? ''));
+    this.getPrice(symbol);
+    if (!(amount > 0)) {
+      throw new MockExchangeError('40020', 'Parameter amount error');
+    }
+    const position = state.positions.find(
+      (p) => p.symbol === symbol && p.holdSide === body.holdSide,
+    );
+    if (!position) {
+      throw new MockExchangeError('40774', 'No position to adjust margin');
+    }
+    if (position.marginMode !== 'fixed') {
+      throw new MockExchangeError(
+        '45117',
+        'Margin can only be adjusted in isolated margin mode',
+      );
+    }
+    const available = parseFloat(
+      this.getBalance(apiKey, getProductType(symbol))[0].available,
+    );
+    if (amount > available) {
+      throw new MockExchangeError('43012', 'Insufficient balance');
+    }
+    position.extraMargin += amount;
+    return null;
+  }
+
+  // Margin mode, position mode and leverage of a symbol, with the balance
+  getSymbolAccount(apiKey: string, symbol: string): Record<string, unknown> {
+    const state = this.getState(apiKey);
+    const settings = this.getSymbolSettings(state, symbol);
+    const productType = getProductType(symbol);
+    const balance = this.getBalance(apiKey, productType)[0];
+    return {
+      marginCoin: balance.marginCoin,
+      locked: balance.locked,
+      available: balance.available,
+      crossMaxAvailable: balance.crossMaxAvailable,
+      fixedMaxAvailable: balance.fixedMaxAvailable,
+      maxTransferOut: balance.maxTransferOut,
+      equity: balance.equity,
+      usdtEquity: balance.usdtEquity,
+      marginMode: settings.marginMode,
+      holdMode: state.holdModes[productType],
+      crossMarginLeverage: settings.crossLeverage,
+      fixedLongLeverage: settings.longLeverage,
+      fixedShortLeverage: settings.shortLeverage,
+    };
+  }
+
+  // Set the leverage of the symbol's current margin mode. Open positions
+  // in that mode take the new leverage right away.
+  setLeverage(
+    apiKey: string,
+    body: Record<string, unknown>,
+  ): Record<string, unknown> {
+    const state = this.getState(apiKey);
+    const symbol = normalizeSymbol(String(body.symbol ?? ''));
+    const settings = this.getSymbolSettings(state, symbol);
+    const leverage = parseInt(String(body.leverage ?? ''), 10);
+    const maxLever = parseInt(CONTRACT_SCRIPT[symbol].maxLever, 10);
+    if (!(leverage >= 1 && leverage <= maxLever)) {
+      throw new MockExchangeError(
+        '40020',
+        `Leverage must be between 1 and ${maxLever}`,
+      );
+    }
+
+    const sides: ('long' | 'short')[] = [];
+    if (settings.marginMode === 'crossed') {
+      settings.crossLeverage = leverage;
+      sides.push('long', 'short');
+    } else if (state.holdModes[getProductType(symbol)] === 'single_hold') {
+      settings.longLeverage = leverage;
+      settings.shortLeverage = leverage;
+      sides.push('long', 'short');
+    } else if (body.holdSide === 'long' || body.holdSide === 'short') {
+      if (body.holdSide === 'long') settings.longLeverage = leverage;
+      else settings.shortLeverage = leverage;
+      sides.push(body.holdSide);
+    } else {
+      throw new MockExchangeError('40020', 'Parameter holdSide error');
+    }
+
+    state.positions
+      .filter((p) => p.symbol === symbol && sides.includes(p.holdSide))
+      .forEach((p) => (p.leverage = leverage));
+
+    return {
+      symbol,
+      marginCoin: PRODUCT_LINES[getProductType(symbol)].marginCoin,
+      longLeverage: settings.longLeverage,
+      shortLeverage: settings.shortLeverage,
+      crossMarginLeverage: settings.crossLeverage,
+      marginMode: settings.marginMode,
+    };
+  }
+
+  setMarginMode(
+    apiKey: string,
+    body: Record<string, unknown>,
+  ): Record<string, unknown> {
+    const state = this.getState(apiKey);
+    const symbol = normalizeSymbol(String(body.symbol ?? ''));
+    const settings = this.getSymbolSettings(state, symbol);
+    if (body.marginMode !== 'crossed' && body.marginMode !== 'fixed') {
+      throw new MockExchangeError('40020', 'Parameter marginMode error');
+    }
+    if (
+      [...state.positions, ...state.orders, ...state.planOrders].some(
+        (item) => item.symbol === symbol,
+      )
+    ) {
+      throw new MockExchangeError(
+        '45116',
+        'Position or order exists, the margin mode cannot be changed',
+      );
+    }
+
+    settings.marginMode = body.marginMode;
+    return {
+      symbol,
+      marginCoin: PRODUCT_LINES[getProductType(symbol)].marginCoin,
+      longLeverage: settings.longLeverage,
+      shortLeverage: settings.shortLeverage,
+      marginMode: settings.marginMode,
+    };
+  }
+
+  setPositionMode(
+    apiKey: string,
+    body: Record<string, unknown>,
+  ): Record<string, unknown> {
+    const state = this.getState(apiKey);
+    const productType = toProductType(body.productType);
+    if (body.holdMode !== 'double_hold' && body.holdMode !== 'single_hold') {
+      throw new MockExchangeError('40020', 'Parameter holdMode error');
+    }
+    if (
+      [...state.positions, ...state.orders, ...state.planOrders].some(
+        isInProduct(productType),
+      )
+    ) {
+      throw new MockExchangeError(
+        '40920',
+        'Position or order exists, the position mode cannot be switched',
+      );
+    }
+
+    state.holdModes[productType] = body.holdMode;
+    return {
+      marginCoin: PRODUCT_LINES[productType].marginCoin,
+      dualSidePosition: body.holdMode === 'double_hold',
+    };
+  }
+
+  // Move USDT between the USDT-M accounts of two users
+  transfer(body: Record<string, unknown>): { transferId: string } {
+    const from = this.findByUserId(String(body.fromUserId ?? ''));
+    const to = this.findByUserId(String(body.toUserId ?? ''));
+    const amount = parseFloat(String(body.amount ?? ''));
+    if (!(amount > 0)) {
+      throw new MockExchangeError('40020', 'Parameter amount error');
+    }
+    const maxTransferOut = parseFloat(
+      this.getBalance(from.account.apiKey)[0].maxTransferOut,
+    );
+    if (amount > maxTransferOut) {
+      throw new MockExchangeError('43012', 'Insufficient balance');
+    }
+
+    from.balances['USDT-FUTURES'] -= amount;
+    to.balances['USDT-FUTURES'] += amount;
+    return { transferId: `transfer-${this.nextOrderId++}` };
+  }
+
+  // Account balances in the Bitget v2 REST format
+  getBalanceV2(
+    apiKey: string,
+    productType?: MockProductType,
+  ): Record<string, string>[] {
+    return this.getBalance(apiKey, productType).map((balance) => ({
+      marginCoin: balance.marginCoin,
+      locked: balance.locked,
+      available: balance.available,
+      crossedMaxAvailable: balance.crossMaxAvailable,
+      isolatedMaxAvailable: balance.fixedMaxAvailable,
+      maxTransferOut: balance.maxTransferOut,
+      accountEquity: balance.equity,
+      usdtEquity: balance.usdtEquity,
+      btcEquity: balance.btcEquity,
+      crossedRiskRate: balance.crossRiskRate,
+      unrealizedPL: balance.unrealizedPL,
+      coupon: balance.bonus,
+    }));
+  }
+
+  // Positions in the Bitget v2 REST format
+  getPositionsV2(
+    apiKey: string,
+    productType?: MockProductType,
+  ): Record<string, string>[] {
+    return this.getPositions(apiKey, productType).map((position) => ({
+      marginCoin: position.marginCoin,
+      symbol: position.symbol,
+      holdSide: position.holdSide,
+      openDelegateSize: position.openDelegateCount,
+      marginSize: position.margin,
+      available: position.available,
+      locked: position.locked,
+      total: position.total,
+      leverage: position.leverage,
+      achievedProfits: position.achievedProfits,
+      openPriceAvg: position.averageOpenPrice,
+      marginMode: position.marginMode === 'fixed' ? 'isolated' : 'crossed',
+      posMode:
+        position.holdMode === 'double_hold' ? 'hedge_mode' : 'one_way_mode',
+      unrealizedPL: position.unrealizedPL,
+      liquidationPrice: position.liquidationPrice,
+      keepMarginRate: position.keepMarginRate,
+      markPrice: position.marketPrice,
+      cTime: position.cTime,
+      uTime: Date.now().toString(),
+    }));
+  }
+
+  // Open orders in the Bitget v2 REST format, where the v1 side is split
+  // into buy/sell, open/close and the position side
+  getOrdersV2(
+    apiKey: string,
+    productType: MockProductType = 'USDT-FUTURES',
+  ): {
+    entrustedList: Record<string, string>[] | null;
+    endId: string | null;
+  } {
+    const orders = this.getOrders(apiKey, productType).map((order) => {
+      const [tradeSide, posSide] = order.side.split('_');
+      return {
+        symbol: order.symbol,
+        orderId: order.orderId,
+        clientOid: order.clientOid,
+        price: order.price,
+        size: order.size,
+        orderType: order.orderType,
+        side: posSide === 'long' ? 'buy' : 'sell',
+        tradeSide,
+        posSide,
+        status: 'live',
+        priceAvg: order.priceAvg,
+        baseVolume: order.baseVolume,
+        quoteVolume: order.quoteVolume,
+        marginCoin: PRODUCT_LINES[productType].marginCoin,
+        marginMode: 'crossed',
+        reduceOnly: tradeSide === 'close' ? 'YES' : 'NO',
+        cTime: order.cTime,
+        uTime: order.uTime,
+      };
+    });
+    // Bitget returns null rather than an empty list
+    return {
+      entrustedList: orders.length > 0 ? orders : null,
+      endId: orders.at(-1)?.orderId ?? null,
+    };
+  }
+
+  // Private positions channel snapshot in Bitget v2 format
+  getPrivatePositions(
+    apiKey: string,
+    productType?: MockProductType,
+  ): Record<string, string>[] {
+    return this.getPositions(apiKey, productType).map((position) => ({
+      instId: position.symbol,
+      marginCoin: position.marginCoin,
+      marginSize: position.margin,
+      marginMode: position.marginMode === 'fixed' ? 'isolated' : 'crossed',
+      holdSide: position.holdSide,
+      posMode:
+        position.holdMode === 'double_hold' ? 'hedge_mode' : 'one_way_mode',
+      total: position.total,
+      available: position.available,
+      frozen: position.locked,
+      openPriceAvg: position.averageOpenPrice,
+      leverage: position.leverage,
+      achievedProfits: position.achievedProfits,
+      unrealizedPL: position.unrealizedPL,
+      liquidationPrice: position.liquidationPrice,
+      keepMarginRate: position.keepMarginRate,
+      markPrice: position.marketPrice,
+      cTime: position.cTime,
+      uTime: Date.now().toString(),
+    }));
+  }
+
+  // Private account channel snapshot in Bitget v2 format
+  getPrivateAccount(
+    apiKey: string,
+    productType?: MockProductType,
+  ): Record<string, string>[] {
+    return this.getBalance(apiKey, productType).map((balance) => ({
+      marginCoin: balance.marginCoin,
+      frozen: balance.locked,
+      available: balance.available,
+      maxOpenPosAvailable: balance.crossMaxAvailable,
+      maxTransferOut: balance.maxTransferOut,
+      equity: balance.equity,
+      usdtEquity: balance.usdtEquity,
+      crossedRiskRate: balance.crossRiskRate,
+      unrealizedPL: balance.unrealizedPL,
+    }));
+  }
+
+  private emitOrderUpdate(
+    state: AccountState,
+    order: MockOrder,
+    status: 'live' | 'filled' | 'canceled',
+  ): void {
+    const [tradeSide, posSide] = order.side.split('_');
+    const isBuy = order.side === 'open_long' || order.side === 'close_short';
+    const filledSize = status === 'filled' ? order.size.toString() : '0';
+    const productType = getProductType(order.symbol);
+    this.onOrderUpdate?.(state.account.apiKey, productType, {
+      instId: order.symbol,
+      orderId: order.orderId,
+      clientOid: order.clientOid,
+      price: order.price.toString(),
+      size: order.size.toString(),
+      orderType: order.orderType,
+      force: 'gtc',
+      side: isBuy ? 'buy' : 'sell',
+      posSide,
+      tradeSide,
+      marginMode: 'crossed',
+      marginCoin: PRODUCT_LINES[productType].marginCoin,
+      accBaseVolume: filledSize,
+      priceAvg: status === 'filled' ? order.price.toString() : '0',
+      status,
+      reduceOnly: order.reduceOnly ? 'yes' : 'no',
+      leverage: DEFAULT_LEVERAGE.toString(),
+      cTime: order.cTime.toString(),
+      uTime: Date.now().toString(),
+    });
+  }
+
+  private toHistoryOrder(
+    fill: Omit<MockFill, 'tradeId'>,
+  ): Record<string, string> {
+    const { marginCoin } = PRODUCT_LINES[getProductType(fill.symbol)];
+    return {
+      symbol: toV1Symbol(fill.symbol),
+      size: fill.size.toString(),
+      orderId: fill.orderId,
+      clientOid: fill.clientOid,
+      filledQty: fill.size.toString(),
+      fee: fill.fee.toFixed(8),
+      feeDetail: JSON.stringify({
+        [marginCoin]: {
+          feeCoinCode: marginCoin,
+          totalFee: fill.fee.toFixed(8),
+        },
+      }),
+      price: fill.price.toString(),
+      priceAvg: fill.price.toString(),
+      state: 'filled',
+      side: fill.side,
+      totalProfits: fill.profit.toFixed(8),
+      marginCoin,
+      orderType: fill.orderType,
+      cTime: fill.cTime.toString(),
+      uTime: fill.cTime.toString(),
+    };
+  }
+
+  private getState(apiKey: string): AccountState {
+    const state = this.accounts.get(apiKey);
+    if (!state) {
+      throw new MockExchangeError('40006', 'Invalid ACCESS_KEY');
+    }
+    return state;
+  }
+
+  private addPlanOrder(
+    state: AccountState,
+    symbol: string,
+    body: Record<string, unknown>,
+    fields: Pick<
+      MockPlanOrder,
+      'planType' | 'side' | 'orderType' | 'executePrice' | 'rangeRate'
+    >,
+  ): { orderId: string; clientOid: string } {
+    const size = parseFloat(String(body.size ?? ''));
+    const triggerPrice = parseFloat(String(body.triggerPrice ?? ''));
+    const price = this.getPrice(symbol);
+    if (!(size > 0)) {
+      throw new MockExchangeError('40020', 'Parameter size error');
+    }
+    if (!(triggerPrice > 0)) {
+      throw new MockExchangeError('40020', 'Parameter triggerPrice error');
+    }
+
+    const order: MockPlanOrder = {
+      ...fields,
+      orderId: (this.nextOrderId++).toString(),
+      clientOid: String(body.clientOid ?? `mock-${Date.now()}`),
+      symbol,
+      size,
+      triggerPrice,
+      triggerType: String(body.triggerType ?? 'market_price'),
+      triggerAbove: triggerPrice > price,
+      cTime: Date.now(),
+    };
+    state.planOrders.push(order);
+    return { orderId: order.orderId, clientOid: order.clientOid };
+  }
+
+  private getPlanOrder(
+    apiKey: string,
+    body: Record<string, unknown>,
+  ): MockPlanOrder {
+    const order = this.getState(apiKey).planOrders.find(
+      (o) => o.orderId === body.orderId,
+    );
+    if (!order) {
+      throw new MockExchangeError('40768', 'Order does not exist');
+    }
+    return order;
+  }
+
+  // Returns true once the plan order has fired and should be removed
+  private triggerPlanOrder(state: AccountState, order: MockPlanOrder): boolean {
+    const price = this.prices[order.symbol];
+
+    if (order.planType === 'moving_plan') {
+      const isLong = order.side === 'close_long';
+      if (order.extreme === undefined) {
+        const activated = order.triggerAbove
+          ? price >= order.triggerPrice
+          : price <= order.triggerPrice;
+        if (!activated) return false;
+        order.extreme = price;
+      }
+      order.extreme = isLong
+        ? Math.max(order.extreme, price)
+        : Math.min(order.extreme, price);
+      const callback = order.rangeRate / 100;
+      const fired = isLong
+        ? price <= order.extreme * (1 - callback)
+        : price >= order.extreme * (1 + callback);
+      if (!fired) return false;
+    } else {
+      const crossed = order.triggerAbove
+        ? price >= order.triggerPrice
+        : price <= order.triggerPrice;
+      if (!crossed) return false;
+    }
+
+    try {
+      if (order.planType === 'normal_plan') {
+        this.placeOrder(state.account.apiKey, {
+          symbol: toV1Symbol(order.symbol),
+          side: order.side,
+          orderType: order.orderType,
+          size: order.size,
+          price: order.executePrice,
+          clientOid: order.clientOid,
+        });
+      } else {
+        // TP/SL closes what is left of the position
+        const holdSide = order.side === 'close_long' ? 'long' : 'short';
+        const position = state.positions.find(
+          (p) => p.symbol === order.symbol && p.holdSide === holdSide,
+        );
+        if (position) {
+          this.fill(
+            state,
+            order,
+            order.symbol,
+            order.side,
+            Math.min(order.size, position.total),
+            price,
+          );
+        }
+      }
+    } catch (error) {
+      console.error(`Mock plan order ${order.orderId} failed:`, error);
+    }
+    return true;
+  }
+
+  // Fills within [startTime, endTime], newest first, after lastEndId
+  private pageFills(
+    apiKey: string,
+    query: Record<string, unknown>,
+    sizeParam: string,
+  ): { items: MockFill[]; nextFlag: boolean } {
+    const startTime = parseInt(String(query.startTime ?? '0'), 10) || 0;
+    const endTime =
+      parseInt(String(query.endTime ?? ''), 10) || Number.MAX_SAFE_INTEGER;
+    const pageSize = Math.min(
+      parseInt(String(query[sizeParam] ?? '100'), 10) || 100,
+      100,
+    );
+    const lastEndId = query.lastEndId ? String(query.lastEndId) : null;
+
+    let fills = this.getState(apiKey)
+      .fills.filter(isInProduct(toProductType(query.productType)))
+      .filter((fill) => fill.cTime >= startTime && fill.cTime <= endTime)
+      .reverse();
+    if (lastEndId) {
+      const index = fills.findIndex((fill) => fill.tradeId === lastEndId);
+      fills = index >= 0 ? fills.slice(index + 1) : [];
+    }
+    return {
+      items: fills.slice(0, pageSize),
+      nextFlag: fills.length > pageSize,
+    };
+  }
+
+  private findByUserId(userId: string): AccountState {
+    for (const state of this.accounts.values()) {
+      if ((state.account.userId ?? state.account.apiKey) === userId) {
+        return state;
+      }
+    }
+    throw new MockExchangeError('40014', `User ${userId} does not exist`);
+  }
+
+  private priceAt(symbol: string, tick: number): number {
+    const { base, amplitude, period } = PRICE_SCRIPT[symbol];
+    const price =
+      base * (1 + amplitude * Math.sin((2 * Math.PI * tick) / period));
+    return parseFloat(price.toFixed(2));
+  }
+
+  private getMargin(position: MockPosition): number {
+    return (
+      this.toMarginCoin(
+        position.symbol,
+        (position.total * position.averageOpenPrice) / position.leverage,
+      ) + position.extraMargin
+    );
+  }
+
+  // Amount in the symbol's margin coin of a value in the quote currency;
+  // coin-margined contracts settle in the base coin at the current price
+  private toMarginCoin(symbol: string, value: number): number {
+    return getProductType(symbol) === 'COIN-FUTURES'
+      ? value / this.getPrice(symbol)
+      : value;
+  }
+
+  private getSymbolSettings(
+    state: AccountState,
+    symbol: string,
+  ): SymbolSettings {
+    this.getPrice(symbol);
+    return (state.symbolSettings[symbol] ??= {
+      marginMode: 'crossed',
+      crossLeverage: DEFAULT_LEVERAGE,
+      longLeverage: DEFAULT_LEVERAGE,
+      shortLeverage: DEFAULT_LEVERAGE,
+    });
+  }
+
+  private getUnrealizedPL(position: MockPosition): number {
+    const diff = this.getPrice(position.symbol) - position.averageOpenPrice;
+    return this.toMarginCoin(
+      position.symbol,
+      (position.holdSide === 'long' ? diff : -diff) * position.total,
+    );
+  }
+
+  // Apply a fill to the account's positions and realized balance
+  private fill(
+    state: AccountState,
+    order: { orderId: string; clientOid: string; orderType: string },
+    symbol: string,
+    side: string,
+    size: number,
+    price: number,
+  ): void {
+    const profit = this.applyFill(state, symbol, side, size, price);
+    const fee = this.toMarginCoin(symbol, -size * price * TAKER_FEE_RATE);
+    state.balances[getProductType(symbol)] += fee;
+    state.fills.push({
+      tradeId: (this.nextOrderId++).toString(),
+      orderId: order.orderId,
+      clientOid: order.clientOid,
+      orderType: order.orderType,
+      symbol,
+      side,
+      size,
+      price,
+      profit,
+      fee,
+      cTime: Date.now(),
+    });
+  }
+
+  // Update the position for a fill and return the realized profit
+  private applyFill(
+    state: AccountState,
+    symbol: string,
+    side: string,
+    size: number,
+    price: number,
+  ): number {
+    const [action, holdSide] = side.split('_') as [string, 'long' | 'short'];
+    let position = state.positions.find(
+      (p) => p.symbol === symbol && p.holdSide === holdSide,
+    );
+
+    if (action === 'open') {
+      if (!position) {
+        const settings = this.getSymbolSettings(state, symbol);
+        position = {
+          symbol,
+          holdSide,
+          total: 0,
+          averageOpenPrice: 0,
+          leverage:
+            settings.marginMode === 'crossed'
+              ? settings.crossLeverage
+              : holdSide === 'long'
+                ? settings.longLeverage
+                : settings.shortLeverage,
+          marginMode: settings.marginMode,
+          extraMargin: 0,
+          achievedProfits: 0,
+          cTime: Date.now(),
+        };
+        state.positions.push(position);
+      }
+      const total = position.total + size;
+      position.averageOpenPrice =
+        (position.averageOpenPrice * position.total + price * size) / total;
+      position.total = total;
+      return 0;
+    }
+
+    if (!position || position.total < size) {
+      throw new MockExchangeError('40757', 'Not enough position is available');
+    }
+
+    const diff = price - position.averageOpenPrice;
+    const realized = this.toMarginCoin(
+      symbol,
+      (holdSide === 'long' ? diff : -diff) * size,
+    );
+    state.balances[getProductType(symbol)] += realized;
+    position.achievedProfits += realized;
+    position.total = parseFloat((position.total - size).toFixed(8));
+    if (position.total === 0) {
+      state.positions = state.positions.filter((p) => p !== position);
+    }
+    return realized;
+  }
+}
+
+// Product type from a v1 (umcbl) or v2 (USDT-FUTURES) productType
+// parameter, USDT-M when it is left out
+export const toProductType = (value: unknown): MockProductType => {
+  if (value === undefined) {
+    return 'USDT-FUTURES';
+  }
+  const productType = PRODUCT_TYPES.find(
+    (candidate) => candidate === value || PRODUCT_LINES[candidate].v1 === value,
+  );
+  if (!productType) {
+    throw new MockExchangeError('40020', 'Parameter productType error');
+  }
+  return productType;
+};
+
+// Side an order acts on in the hedge-mode position model. One-way mode only
+// takes buy_single/sell_single; the mock treats reduce-only ones as closing
+// the opposite position and the others as opening.
+const toHedgeSide = (
+  side: string,
+  oneWay: boolean,
+  reduceOnly: unknown,
+): string => {
+  const hedgeSides = ['open_long', 'open_short', 'close_long', 'close_short'];
+  if (!oneWay && hedgeSides.includes(side)) {
+    return side;
+  }
+  if (oneWay && hedgeSides.includes(side)) {
+    throw new MockExchangeError(
+      '40774',
+      'The order type for unilateral position must also be the unilateral position type',
+    );
+  }
+  if (!oneWay || (side !== 'buy_single' && side !== 'sell_single')) {
+    throw new MockExchangeError('40020', `Parameter side error: ${side}`);
+  }
+  if (reduceOnly === true) {
+    return side === 'buy_single' ? 'close_short' : 'close_long';
+  }
+  return side === 'buy_single' ? 'open_long' : 'open_short';
+};
+
+// v1 form of a listed symbol, e.g. BTCUSD_DMCBL
+const toV1Symbol = (symbol: string): string =>
+  `${symbol}${PRODUCT_LINES[getProductType(symbol)].suffix}`;
+
+// v1 endpoints only accept the suffixed form with the symbol's own product
+// suffix, like Bitget. Responses use the plain form, which is what the app
+// filters positions and orders by.
+export const normalizeSymbol = (symbol: string): string => {
+  const plain = symbol.replace(/_(UMCBL|CMCBL|DMCBL)$/, '');
+  if (
+    plain === symbol ||
+    (CONTRACT_SCRIPT[plain] && toV1Symbol(plain) !== symbol)
+  ) {
+    throw new MockExchangeError('40034', `Symbol ${symbol} does not exist`);
+  }
+  return plain;
+};
@@ -0,0 +1,574 @@
+// Local mock Bitget server for offline development.
+//
+// Usage: npm run mock [-- path/to/config.json]
+// Then set settings.apiBaseUrl to http://localhost:8787 in config.json.
+// Set MOCK_CLOCK_SKEW (ms) to run the exchange clock ahead of or behind the
+// local one.
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { WebSocketServer, type WebSocket } from 'ws';
+import {
+  MockExchange,
+  MockExchangeError,
+  MOCK_SYMBOLS,
+  CANDLE_GRANULARITIES,
+  normalizeSymbol,
+  toProductType,
+  type MockAccount,
+} from './exchange';
+
+const PORT = parseInt(process.env.MOCK_PORT || '8787', 10);
+const TICK_INTERVAL = 1000;
+const MAX_TIMESTAMP_DRIFT = 30000;
+const CLOCK_SKEW = parseInt(process.env.MOCK_CLOCK_SKEW || '0', 10);
+
+// Exchange clock, used for server time and request timestamp checks
+const exchangeNow = () => Date.now() + CLOCK_SKEW;
+
+const configPath = process.argv[2] || 'public/config.json';
+const config: { accounts: MockAccount[] } = JSON.parse(
+  readFileSync(configPath, 'utf8'),
+);
+const exchange = new MockExchange(config.accounts);
+
+// Same HMAC scheme as Bitget: timestamp + method + path + query + body
+const sign = (message: string, secret: string): string =>
+  createHmac('sha256', secret).update(message).digest('base64');
+
+const sendJson = (
+  res: ServerResponse,
+  status: number,
+  payload: Record<string, unknown>,
+) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const sendError = (
+  res: ServerResponse,
+  status: number,
+  code: string,
+  msg: string,
+) => sendJson(res, status, { code, msg, requestTime: Date.now(), data: null });
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+// Verify ACCESS-* headers exactly like Bitget and return the api key
+const authenticate = (
+  req: IncomingMessage,
+  requestPath: string,
+  queryString: string,
+  body: string,
+): string => {
+  const apiKey = String(req.headers['access-key'] ?? '');
+  const signature = String(req.headers['access-sign'] ?? '');
+  const timestamp = String(req.headers['access-timestamp'] ?? '');
+  const passphrase = String(req.headers['access-passphrase'] ?? '');
+
+  const account = exchange.getAccount(apiKey);
+  if (!account) {
+    throw new MockExchangeError('40006', 'Invalid ACCESS_KEY');
+  }
+  // Bitget wants milliseconds as a plain integer
+  if (!/^\d+$/.test(timestamp)) {
+    throw new MockExchangeError('40005', 'Invalid ACCESS_TIMESTAMP');
+  }
+  if (Math.abs(exchangeNow() - parseInt(timestamp, 10)) > MAX_TIMESTAMP_DRIFT) {
+    throw new MockExchangeError('40008', 'Request timestamp expired');
+  }
+  if (passphrase !== account.passphrase) {
+    throw new MockExchangeError('40012', 'apikey/password is incorrect');
+  }
+
+  const expected = sign(
+    timestamp + req.method + requestPath + queryString + body,
+    account.apiSecret,
+  );
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+  if (
+    expectedBuffer.length !== signatureBuffer.length ||
+    !timingSafeEqual(expectedBuffer, signatureBuffer)
+  ) {
+    throw new MockExchangeError('40009', 'sign signature error');
+  }
+
+  return apiKey;
+};
+
+const routes: {
+  [route: string]: (apiKey: string, body: Record<string, unknown>) => unknown;
+} = {
+  'GET /api/mix/v1/account/accounts': (apiKey, query) =>
+    exchange.getBalance(apiKey, toProductType(query.productType)),
+  'GET /api/mix/v1/account/account': (apiKey, query) =>
+    exchange.getSymbolAccount(
+      apiKey,
+      normalizeSymbol(String(query.symbol ?? '')),
+    ),
+  'GET /api/mix/v1/position/allPosition': (apiKey, query) =>
+    exchange.getPositions(apiKey, toProductType(query.productType)),
+  'GET /api/mix/v1/order/marginCoinCurrent': (apiKey, query) =>
+    exchange.getOrders(apiKey, toProductType(query.productType)),
+  'POST /api/mix/v1/order/placeOrder': (apiKey, body) =>
+    exchange.placeOrder(apiKey, body),
+  'POST /api/mix/v1/order/cancel-order': (apiKey, body) =>
+    exchange.cancelOrder(apiKey, {
+      ...body,
+      symbol: normalizeSymbol(String(body.symbol ?? '')),
+    }),
+  'GET /api/mix/v1/order/detail': (apiKey, query) =>
+    exchange.getOrderDetail(apiKey, query),
+  'GET /api/mix/v1/order/historyProductType': (apiKey, query) =>
+    exchange.getOrderHistory(apiKey, query),
+  'GET /api/mix/v1/order/allFills': (apiKey, query) =>
+    exchange.getFills(apiKey, query),
+  // The mock charges no funding, so there are never any funding bills
+  'GET /api/mix/v1/account/accountBusinessBill': () => ({
+    result: [],
+    lastEndId: null,
+    nextFlag: false,
+  }),
+  'GET /api/mix/v1/plan/currentPlan': (apiKey, query) =>
+    exchange.getPlanOrders(
+      apiKey,
+      String(query.isPlan ?? 'plan'),
+      toProductType(query.productType),
+    ),
+  'POST /api/mix/v1/plan/placeTPSL': (apiKey, body) =>
+    exchange.placeTpsl(apiKey, body),
+  'POST /api/mix/v1/plan/placePlan': (apiKey, body) =>
+    exchange.placePlan(apiKey, body),
+  'POST /api/mix/v1/plan/modifyPlan': (apiKey, body) =>
+    exchange.modifyPlan(apiKey, body),
+  'POST /api/mix/v1/plan/modifyTPSLPlan': (apiKey, body) =>
+    exchange.modifyPlan(apiKey, body),
+  'POST /api/mix/v1/plan/cancelPlan': (apiKey, body) =>
+    exchange.cancelPlan(apiKey, body),
+  'POST /api/mix/v1/account/setMargin': (apiKey, body) =>
+    exchange.setMargin(apiKey, body),
+  'POST /api/mix/v1/account/setLeverage': (apiKey, body) =>
+    exchange.setLeverage(apiKey, body),
+  'POST /api/mix/v1/account/setMarginMode': (apiKey, body) =>
+    exchange.setMarginMode(apiKey, body),
+  'POST /api/mix/v1/account/setPositionMode': (apiKey, body) =>
+    exchange.setPositionMode(apiKey, body),
+  'GET /api/v2/mix/account/accounts': (apiKey, query) =>
+    exchange.getBalanceV2(apiKey, toProductType(query.productType)),
+  'GET /api/v2/mix/position/all-position': (apiKey, query) =>
+    exchange.getPositionsV2(apiKey, toProductType(query.productType)),
+  'GET /api/v2/mix/order/orders-pending': (apiKey, query) =>
+    exchange.getOrdersV2(apiKey, toProductType(query.productType)),
+  'POST /api/v2/mix/order/cancel-order': (apiKey, body) =>
+    exchange.cancelOrder(apiKey, body),
+  'POST /api/v2/spot/wallet/subaccount-transfer': (_apiKey, body) =>
+    exchange.transfer(body),
+};
+
+// Symbol of a market data request, which has to be listed under the
+// requested product type
+const getMarketSymbol = (query: URLSearchParams): string => {
+  const symbol = query.get('symbol') ?? '';
+  exchange.checkProductType(
+    symbol,
+    toProductType(query.get('productType') ?? undefined),
+  );
+  return symbol;
+};
+
+// Market data routes that need no signature
+const publicRoutes: { [route: string]: (query: URLSearchParams) => unknown } = {
+  'GET /api/v2/public/time': () => ({ serverTime: String(exchangeNow()) }),
+  'GET /api/v2/mix/market/contracts': (query) =>
+    exchange.getContracts(toProductType(query.get('productType') ?? undefined)),
+  'GET /api/v2/mix/market/current-fund-rate': (query) => {
+    const symbol = getMarketSymbol(query);
+    const { fundingRate } = exchange.getFunding(symbol);
+    return [{ symbol, fundingRate }];
+  },
+  'GET /api/v2/mix/market/funding-time': (query) => {
+    const symbol = getMarketSymbol(query);
+    const { nextFundingTime } = exchange.getFunding(symbol);
+    return [{ symbol, nextFundingTime, ratePeriod: '8' }];
+  },
+  'GET /api/v2/mix/market/candles': (query) =>
+    exchange.getCandles(
+      getMarketSymbol(query),
+      query.get('granularity') ?? '1m',
+      Math.min(parseInt(query.get('limit') ?? '100', 10) || 100, 1000),
+    ),
+};
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'Content-Type, ACCESS-KEY, ACCESS-SIGN, ACCESS-TIMESTAMP, ACCESS-PASSPHRASE, locale',
+  );
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const [requestPath, rawQuery] = (req.url ?? '').split('?');
+  const queryString = rawQuery ? `?${rawQuery}` : '';
+  const publicHandler = publicRoutes[`${req.method} ${requestPath}`];
+  if (publicHandler) {
+    try {
+      sendJson(res, 200, {
+        code: '00000',
+        msg: 'success',
+        requestTime: Date.now(),
+        data: publicHandler(new URLSearchParams(rawQuery ?? '')),
+      });
+    } catch (error) {
+      if (error instanceof MockExchangeError) {
+        sendError(res, 400, error.code, error.message);
+      } else {
+        console.error('Mock server error:', error);
+        sendError(res, 500, '50000', 'Internal server error');
+      }
+    }
+    return;
+  }
+
+  const handler = routes[`${req.method} ${requestPath}`];
+  if (!handler) {
+    sendError(res, 404, '40404', `Request URL NOT FOUND: ${requestPath}`);
+    return;
+  }
+
+  try {
+    const body = req.method === 'POST' ? await readBody(req) : '';
+    const apiKey = authenticate(req, requestPath, queryString, body);
+    // GET routes receive their query parameters in place of a body
+    const data = handler(
+      apiKey,
+      req.method === 'POST'
+        ? body
+          ? JSON.parse(body)
+          : {}
+        : Object.fromEntries(new URLSearchParams(rawQuery ?? '')),
+    );
+    sendJson(res, 200, {
+      code: '00000',
+      msg: 'success',
+      requestTime: Date.now(),
+      data,
+    });
+  } catch (error) {
+    if (error instanceof MockExchangeError) {
+      sendError(res, 400, error.code, error.message);
+    } else {
+      console.error('Mock server error:', error);
+      sendError(res, 500, '50000', 'Internal server error');
+    }
+  }
+});
+
+// Public ticker and candle channels in the Bitget v2 WebSocket format
+const wss = new WebSocketServer({ noServer: true });
+// Subscribed instType:channel:symbol keys per socket
+const subscriptions = new Map<WebSocket, Set<string>>();
+const CANDLE_SNAPSHOT_SIZE = 200;
+
+const isPublicChannel = (channel: string): boolean =>
+  channel === 'ticker' ||
+  CANDLE_GRANULARITIES.some(
+    (granularity) => channel === `candle${granularity}`,
+  );
+
+const isListedUnder = (symbol: string, instType: string): boolean => {
+  try {
+    exchange.checkProductType(symbol, toProductType(instType));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const publicData = (channel: string, symbol: string, limit: number) =>
+  channel === 'ticker'
+    ? [exchange.getTicker(symbol)]
+    : exchange.getCandles(symbol, channel.replace(/^candle/, ''), limit);
+
+wss.on('connection', (ws) => {
+  subscriptions.set(ws, new Set());
+
+  ws.on('message', (raw) => {
+    const message = raw.toString();
+    if (message === 'ping') {
+      ws.send('pong');
+      return;
+    }
+
+    try {
+      const { op, args } = JSON.parse(message) as {
+        op: string;
+        args: { instType: string; channel: string; instId: string }[];
+      };
+      args.forEach((arg) => {
+        const symbol = arg.instId;
+        if (
+          !isPublicChannel(arg.channel) ||
+          !MOCK_SYMBOLS.includes(symbol) ||
+          !isListedUnder(symbol, arg.instType)
+        ) {
+          ws.send(
+            JSON.stringify({
+              event: 'error',
+              arg,
+              code: 30001,
+              msg: `instType:${arg.instType},channel:${arg.channel},instId:${arg.instId} doesn't exist`,
+            }),
+          );
+          return;
+        }
+
+        const key = `${arg.instType}:${arg.channel}:${symbol}`;
+        if (op === 'subscribe') {
+          subscriptions.get(ws)?.add(key);
+        } else if (op === 'unsubscribe') {
+          subscriptions.get(ws)?.delete(key);
+        }
+        ws.send(JSON.stringify({ event: op, arg }));
+
+        // Candle channels start with a snapshot of recent candles
+        if (op === 'subscribe' && arg.channel !== 'ticker') {
+          ws.send(
+            JSON.stringify({
+              action: 'snapshot',
+              arg: {
+                instType: arg.instType,
+                channel: arg.channel,
+                instId: symbol,
+              },
+              data: publicData(arg.channel, symbol, CANDLE_SNAPSHOT_SIZE),
+              ts: Date.now(),
+            }),
+          );
+        }
+      });
+    } catch {
+      ws.send(
+        JSON.stringify({ event: 'error', code: 30002, msg: 'Illegal request' }),
+      );
+    }
+  });
+
+  ws.on('close', () => subscriptions.delete(ws));
+});
+
+// Private positions/orders/account channels, available after login
+const privateWss = new WebSocketServer({ noServer: true });
+const PRIVATE_CHANNELS = ['positions', 'orders', 'account'];
+// Subscribed channels are kept as instType:channel
+const privateSessions = new Map<
+  WebSocket,
+  { apiKey: string | null; channels: Set<string> }
+>();
+
+// Same login check as Bitget: sign(timestamp + 'GET' + '/user/verify'),
+// with the timestamp in seconds
+const verifyLogin = (args: Record<string, string>[]): string => {
+  const { apiKey, passphrase, timestamp, sign: signature } = args[0] ?? {};
+  const account = exchange.getAccount(apiKey);
+  if (!account || passphrase !== account.passphrase) {
+    throw new MockExchangeError('30011', 'Invalid ACCESS_KEY');
+  }
+  if (
+    !/^\d+$/.test(timestamp ?? '') ||
+    Math.abs(exchangeNow() - parseInt(timestamp, 10) * 1000) >
+      MAX_TIMESTAMP_DRIFT
+  ) {
+    throw new MockExchangeError('30008', 'Request timestamp expired');
+  }
+  if (sign(timestamp + 'GET/user/verify', account.apiSecret) !== signature) {
+    throw new MockExchangeError('30015', 'Invalid signature');
+  }
+  return apiKey;
+};
+
+const sendPrivateSnapshot = (
+  ws: WebSocket,
+  apiKey: string,
+  channel: string,
+  instType: string,
+) => {
+  const productType = toProductType(instType);
+  const data =
+    channel === 'positions'
+      ? exchange.getPrivatePositions(apiKey, productType)
+      : exchange.getPrivateAccount(apiKey, productType);
+  ws.send(
+    JSON.stringify({
+      action: 'snapshot',
+      arg: {
+        instType,
+        channel,
+        [channel === 'account' ? 'coin' : 'instId']: 'default',
+      },
+      data,
+      ts: Date.now(),
+    }),
+  );
+};
+
+privateWss.on('connection', (ws) => {
+  const session = {
+    apiKey: null as string | null,
+    channels: new Set<string>(),
+  };
+  privateSessions.set(ws, session);
+
+  ws.on('message', (raw) => {
+    const message = raw.toString();
+    if (message === 'ping') {
+      ws.send('pong');
+      return;
+    }
+
+    try {
+      const { op, args } = JSON.parse(message) as {
+        op: string;
+        args: Record<string, string>[];
+      };
+
+      if (op === 'login') {
+        try {
+          session.apiKey = verifyLogin(args);
+          ws.send(JSON.stringify({ event: 'login', code: 0, msg: '' }));
+        } catch (error) {
+          const { code, message: msg } = error as MockExchangeError;
+          ws.send(JSON.stringify({ event: 'error', code, msg }));
+        }
+        return;
+      }
+
+      const apiKey = session.apiKey;
+      if (!apiKey) {
+        ws.send(
+          JSON.stringify({
+            event: 'error',
+            code: 30004,
+            msg: 'User needs to log in',
+          }),
+        );
+        return;
+      }
+
+      args.forEach((arg) => {
+        if (!PRIVATE_CHANNELS.includes(arg.channel)) {
+          ws.send(
+            JSON.stringify({
+              event: 'error',
+              arg,
+              code: 30001,
+              msg: `channel:${arg.channel} doesn't exist`,
+            }),
+          );
+          return;
+        }
+
+        const key = `${toProductType(arg.instType)}:${arg.channel}`;
+        if (op === 'subscribe') {
+          session.channels.add(key);
+        } else if (op === 'unsubscribe') {
+          session.channels.delete(key);
+        }
+        ws.send(JSON.stringify({ event: op, arg }));
+        if (op === 'subscribe' && arg.channel !== 'orders') {
+          sendPrivateSnapshot(ws, apiKey, arg.channel, arg.instType);
+        }
+      });
+    } catch {
+      ws.send(
+        JSON.stringify({ event: 'error', code: 30002, msg: 'Illegal request' }),
+      );
+    }
+  });
+
+  ws.on('close', () => privateSessions.delete(ws));
+});
+
+exchange.onOrderUpdate = (apiKey, productType, order) => {
+  privateSessions.forEach((session, ws) => {
+    if (
+      session.apiKey !== apiKey ||
+      !session.channels.has(`${productType}:orders`)
+    ) {
+      return;
+    }
+    ws.send(
+      JSON.stringify({
+        action: 'snapshot',
+        arg: { instType: productType, channel: 'orders', instId: 'default' },
+        data: [order],
+        ts: Date.now(),
+      }),
+    );
+  });
+};
+
+server.on('upgrade', (req, socket, head) => {
+  const requestPath = (req.url ?? '').split('?')[0];
+  const target =
+    requestPath === '/v2/ws/public'
+      ? wss
+      : requestPath === '/v2/ws/private'
+        ? privateWss
+        : null;
+  if (!target) {
+    socket.destroy();
+    return;
+  }
+  target.handleUpgrade(req, socket, head, (ws) =>
+    target.emit('connection', ws, req),
+  );
+});
+
+setInterval(() => {
+  exchange.advance();
+  privateSessions.forEach((session, ws) => {
+    if (!session.apiKey) return;
+    const apiKey = session.apiKey;
+    session.channels.forEach((key) => {
+      const [instType, channel] = key.split(':');
+      if (channel !== 'orders') {
+        sendPrivateSnapshot(ws, apiKey, channel, instType);
+      }
+    });
+  });
+  subscriptions.forEach((keys, ws) => {
+    keys.forEach((key) => {
+      const [instType, channel, symbol] = key.split(':');
+      ws.send(
+        JSON.stringify({
+          action: channel === 'ticker' ? 'snapshot' : 'update',
+          arg: { instType, channel, instId: symbol },
+          data: publicData(channel, symbol, 1),
+          ts: Date.now(),
+        }),
+      );
+    });
+  });
+}, TICK_INTERVAL);
+
+server.listen(PORT, () => {
+  console.log(
+    `Mock Bitget server on http://localhost:${PORT} with ${config.accounts.length} account(s) from ${configPath}`,
+  );
+});
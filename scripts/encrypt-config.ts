@@ -0,0 +1,62 @@
+// Migrate a plaintext config.json into the encrypted vault format.
+//
+// Usage: npm run vault:encrypt -- [input=public/config.json] [output=input]
+// The password is taken from globalPassword in the config, VAULT_PASSWORD,
+// or prompted for.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createInterface } from 'node:readline/promises';
+import type { Config } from '../src/utils/config';
+import {
+  lockConfig,
+  unlockConfig,
+  isPlaintextConfig,
+} from '../src/utils/vault';
+
+const inputPath = process.argv[2] || 'public/config.json';
+const outputPath = process.argv[3] || inputPath;
+
+const promptPassword = async (): Promise<string> => {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const password = await rl.question('Vault password: ');
+  rl.close();
+  return password;
+};
+
+const config: Config = JSON.parse(readFileSync(inputPath, 'utf8'));
+
+if (!isPlaintextConfig(config)) {
+  console.error(`${inputPath} has no plaintext credentials to encrypt`);
+  process.exit(1);
+}
+
+const password =
+  config.globalPassword ||
+  process.env.VAULT_PASSWORD ||
+  (await promptPassword());
+if (!password) {
+  console.error('A password is required');
+  process.exit(1);
+}
+
+const lockedConfig = await lockConfig(config, password);
+
+// Round-trip before writing so a bad vault never replaces the original
+const unlocked = await unlockConfig(lockedConfig, password);
+const roundTripOk = config.accounts.every((account, index) => {
+  const restored = unlocked.accounts[index];
+  return (
+    restored.apiKey === account.apiKey &&
+    restored.apiSecret === account.apiSecret &&
+    restored.passphrase === account.passphrase
+  );
+});
+if (!roundTripOk) {
+  console.error('Vault verification failed, nothing written');
+  process.exit(1);
+}
+
+writeFileSync(outputPath, JSON.stringify(lockedConfig, null, 2) + '\n');
+console.log(
+  `Encrypted ${config.accounts.length} account(s) into ${outputPath}` +
+    (config.globalPassword ? ' (globalPassword removed)' : ''),
+);
@@ -0,0 +1,378 @@
+// Local signing backend. Holds the account credentials, signs and proxies
+// Bitget REST calls and private WebSocket logins, and only exposes account
+// ids/names to the browser.
+//
+// Usage: npm run build && npm run backend [-- path/to/config.json]
+// Set BACKEND_ALLOWED_HOSTS (comma-separated) when the app is opened under a
+// hostname other than localhost or BACKEND_HOST; other hosts and origins are
+// refused on the API proxy and the private WebSocket.
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import { createHmac } from 'node:crypto';
+import { readFileSync, existsSync, statSync } from 'node:fs';
+import { join, extname, normalize } from 'node:path';
+import { WebSocket, WebSocketServer } from 'ws';
+import { unlockConfig } from '../src/utils/vault';
+import { getPrivateWsUrl } from '../src/utils/bitgetApi';
+import {
+  getServerTime,
+  isClockDrifting,
+  recordServerTime,
+  TIME_SYNC_INTERVAL,
+} from '../src/utils/timeSync';
+import {
+  isAllowedOrigin,
+  isAllowedRequest,
+  LOOPBACK_HOSTNAMES,
+} from './origin';
+
+interface BackendAccount {
+  id: string;
+  name: string;
+  apiKey: string;
+  apiSecret: string;
+  passphrase: string;
+  equity: number;
+  enabled: boolean;
+  userId?: string;
+}
+
+interface BackendConfig {
+  accounts: BackendAccount[];
+  settings: { apiBaseUrl: string } & Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+const PORT = parseInt(process.env.BACKEND_PORT || '3000', 10);
+const HOST = process.env.BACKEND_HOST || '127.0.0.1';
+const STATIC_DIR = 'dist';
+const ALLOWED_HOSTNAMES = [
+  ...LOOPBACK_HOSTNAMES,
+  HOST.includes(':') ? `[${HOST}]` : HOST,
+  ...(process.env.BACKEND_ALLOWED_HOSTS?.split(',') ?? []),
+];
+
+// Bitget endpoints the app calls. Public ones are forwarded unsigned;
+// anything not listed is refused rather than signed.
+const PUBLIC_ENDPOINTS = new Set([
+  '/api/v2/mix/market/candles',
+  '/api/v2/mix/market/contracts',
+  '/api/v2/mix/market/current-fund-rate',
+  '/api/v2/mix/market/funding-time',
+  '/api/v2/public/time',
+]);
+const PRIVATE_ENDPOINTS = new Set([
+  '/api/mix/v1/account/account',
+  '/api/mix/v1/account/accountBusinessBill',
+  '/api/mix/v1/account/accounts',
+  '/api/mix/v1/account/setLeverage',
+  '/api/mix/v1/account/setMargin',
+  '/api/mix/v1/account/setMarginMode',
+  '/api/mix/v1/account/setPositionMode',
+  '/api/mix/v1/order/allFills',
+  '/api/mix/v1/order/cancel-order',
+  '/api/mix/v1/order/detail',
+  '/api/mix/v1/order/historyProductType',
+  '/api/mix/v1/order/marginCoinCurrent',
+  '/api/mix/v1/order/placeOrder',
+  '/api/mix/v1/plan/cancelPlan',
+  '/api/mix/v1/plan/currentPlan',
+  '/api/mix/v1/plan/modifyPlan',
+  '/api/mix/v1/plan/modifyTPSLPlan',
+  '/api/mix/v1/plan/placePlan',
+  '/api/mix/v1/plan/placeTPSL',
+  '/api/mix/v1/position/allPosition',
+  '/api/v2/mix/account/accounts',
+  '/api/v2/mix/order/cancel-order',
+  '/api/v2/mix/order/orders-pending',
+  '/api/v2/mix/position/all-position',
+  '/api/v2/spot/wallet/subaccount-transfer',
+]);
+
+const configPath = process.argv[2] || 'config.json';
+const rawConfig = JSON.parse(readFileSync(configPath, 'utf8'));
+
+// Encrypted configs are unlocked with VAULT_PASSWORD at startup
+if (rawConfig.vault && !process.env.VAULT_PASSWORD) {
+  console.error(`${configPath} is encrypted - set VAULT_PASSWORD to unlock it`);
+  process.exit(1);
+}
+const config: BackendConfig = rawConfig.vault
+  ? await unlockConfig(rawConfig, process.env.VAULT_PASSWORD ?? '')
+  : rawConfig;
+const apiBaseUrl = config.settings.apiBaseUrl.replace(/\/$/, '');
+
+const CONTENT_TYPES: { [ext: string]: string } = {
+  '.html': 'text/html',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.json': 'application/json',
+};
+
+// Bitget signature: base64(HMAC-SHA256(timestamp + method + path + query + body))
+const sign = (message: string, secret: string): string =>
+  createHmac('sha256', secret).update(message).digest('base64');
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+// Config with the global password and all account credentials removed
+const getPublicConfig = () => {
+  const publicConfig: Record<string, unknown> = {
+    ...config,
+    accounts: config.accounts.map(({ id, name, equity, enabled, userId }) => ({
+      id,
+      name,
+      equity,
+      enabled,
+      userId,
+    })),
+    backend: true,
+  };
+  delete publicConfig.globalPassword;
+  delete publicConfig.vault;
+  return publicConfig;
+};
+
+// Sign the request with the account's credentials and forward it to Bitget
+const proxyApiRequest = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  requestPath: string,
+  queryString: string,
+) => {
+  // Public market data and server time need no credentials
+  if (PUBLIC_ENDPOINTS.has(requestPath)) {
+    const response = await fetch(apiBaseUrl + requestPath + queryString);
+    res.writeHead(response.status, {
+      'Content-Type':
+        response.headers.get('content-type') || 'application/json',
+    });
+    res.end(await response.text());
+    return;
+  }
+
+  if (!PRIVATE_ENDPOINTS.has(requestPath)) {
+    sendJson(res, 404, {
+      code: '40404',
+      msg: `Endpoint ${requestPath} is not proxied`,
+    });
+    return;
+  }
+
+  const accountId = String(req.headers['x-account-id'] ?? '');
+  const account = config.accounts.find((acc) => acc.id === accountId);
+  if (!account) {
+    sendJson(res, 400, { code: '40006', msg: `Unknown account ${accountId}` });
+    return;
+  }
+
+  const method = (req.method ?? 'GET').toUpperCase();
+  const body = method === 'POST' ? await readBody(req) : '';
+  const timestamp = getServerTime().toString();
+
+  const response = await fetch(apiBaseUrl + requestPath + queryString, {
+    method,
+    headers: {
+      'ACCESS-KEY': account.apiKey,
+      'ACCESS-SIGN': sign(
+        timestamp + method + requestPath + queryString + body,
+        account.apiSecret,
+      ),
+      'ACCESS-TIMESTAMP': timestamp,
+      'ACCESS-PASSPHRASE': account.passphrase,
+      'Content-Type': 'application/json',
+      locale: 'en-US',
+    },
+    body: method === 'POST' ? body : undefined,
+  });
+
+  const responseText = await response.text();
+  if (!response.ok) {
+    console.error(
+      `❌ Bitget ${response.status} for ${account.name} ${method} ${requestPath}: ${responseText}`,
+    );
+  }
+  res.writeHead(response.status, {
+    'Content-Type': response.headers.get('content-type') || 'application/json',
+  });
+  res.end(responseText);
+};
+
+// Keep the signing timestamps on Bitget's clock
+const syncServerTime = async () => {
+  try {
+    const sentAt = Date.now();
+    const response = await fetch(apiBaseUrl + '/api/v2/public/time');
+    const result = await response.json();
+    const offset = recordServerTime(
+      parseInt(result.data.serverTime, 10),
+      sentAt,
+      Date.now(),
+    );
+    if (offset !== null && isClockDrifting(offset)) {
+      console.warn(
+        `⚠️ Local clock is ${(Math.abs(offset) / 1000).toFixed(1)}s ${offset > 0 ? 'behind' : 'ahead of'} Bitget - signing with the corrected time`,
+      );
+    }
+  } catch (error) {
+    console.error('❌ Server time sync failed:', error);
+  }
+};
+
+// Serve the built frontend, falling back to index.html
+const serveStatic = (res: ServerResponse, requestPath: string) => {
+  const safePath = normalize(requestPath).replace(/^(\.\.[/\\])+/, '');
+  let filePath = join(STATIC_DIR, safePath);
+  if (!existsSync(filePath) || statSync(filePath).isDirectory()) {
+    filePath = join(STATIC_DIR, 'index.html');
+  }
+  if (!existsSync(filePath)) {
+    res.writeHead(404);
+    res.end('Frontend not built - run npm run build');
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type':
+      CONTENT_TYPES[extname(filePath)] || 'application/octet-stream',
+  });
+  res.end(readFileSync(filePath));
+};
+
+const server = createServer(async (req, res) => {
+  const [requestPath, rawQuery] = (req.url ?? '/').split('?');
+  const queryString = rawQuery ? `?${rawQuery}` : '';
+
+  // Backend and API routes only answer the app's own pages, so neither a
+  // cross-site page nor a DNS-rebound name can have requests signed
+  if (
+    (requestPath.startsWith('/api/') || requestPath.startsWith('/backend/')) &&
+    !isAllowedRequest(req.headers.origin, req.headers.host, ALLOWED_HOSTNAMES)
+  ) {
+    console.warn(
+      `⚠️ Rejected ${req.method} ${requestPath} from origin ${req.headers.origin ?? '(none)'} for host ${req.headers.host}`,
+    );
+    sendJson(res, 403, { code: '40014', msg: 'Origin not allowed' });
+    return;
+  }
+
+  try {
+    if (requestPath === '/backend/config' && req.method === 'GET') {
+      sendJson(res, 200, getPublicConfig());
+    } else if (requestPath === '/backend/accounts' && req.method === 'GET') {
+      sendJson(res, 200, getPublicConfig().accounts);
+    } else if (requestPath.startsWith('/api/')) {
+      await proxyApiRequest(req, res, requestPath, queryString);
+    } else if (requestPath === '/config.json') {
+      // Never serve the raw config file with credentials
+      res.writeHead(404);
+      res.end();
+    } else {
+      serveStatic(res, requestPath);
+    }
+  } catch (error) {
+    console.error('❌ Backend error:', error);
+    sendJson(res, 502, { code: '50000', msg: 'Backend request failed' });
+  }
+});
+
+// Private WebSocket relay. The browser logs in with just an account id; the
+// login is replaced with a signed one and everything else is piped through.
+const privateWss = new WebSocketServer({
+  server,
+  path: '/backend/ws/private',
+  verifyClient: ({ origin, req }: { origin: string; req: IncomingMessage }) => {
+    if (isAllowedOrigin(origin, req.headers.host, ALLOWED_HOSTNAMES)) {
+      return true;
+    }
+    console.warn(
+      `⚠️ Rejected private WebSocket from origin ${origin || '(none)'} for host ${req.headers.host}`,
+    );
+    return false;
+  },
+});
+
+privateWss.on('connection', (client) => {
+  const upstream = new WebSocket(getPrivateWsUrl(apiBaseUrl));
+  const pending: string[] = [];
+
+  upstream.on('open', () => {
+    pending.splice(0).forEach((message) => upstream.send(message));
+  });
+  upstream.on('message', (data) => client.send(data.toString()));
+  upstream.on('close', () => client.close());
+  upstream.on('error', (error) => {
+    console.error('❌ Upstream private WebSocket error:', error);
+    client.close();
+  });
+  client.on('close', () => upstream.close());
+
+  client.on('message', (raw) => {
+    let message = raw.toString();
+    if (message !== 'ping') {
+      try {
+        const parsed = JSON.parse(message);
+        if (parsed.op === 'login') {
+          const accountId = String(parsed.args?.[0]?.accountId ?? '');
+          const account = config.accounts.find((acc) => acc.id === accountId);
+          if (!account) {
+            client.send(
+              JSON.stringify({
+                event: 'error',
+                code: 30011,
+                msg: `Unknown account ${accountId}`,
+              }),
+            );
+            return;
+          }
+
+          const timestamp = Math.floor(getServerTime() / 1000).toString();
+          message = JSON.stringify({
+            op: 'login',
+            args: [
+              {
+                apiKey: account.apiKey,
+                passphrase: account.passphrase,
+                timestamp,
+                sign: sign(timestamp + 'GET/user/verify', account.apiSecret),
+              },
+            ],
+          });
+        }
+      } catch {
+        // Not JSON - forward unchanged
+      }
+    }
+
+    if (upstream.readyState === WebSocket.OPEN) {
+      upstream.send(message);
+    } else {
+      pending.push(message);
+    }
+  });
+});
+
+syncServerTime();
+setInterval(syncServerTime, TIME_SYNC_INTERVAL);
+
+server.listen(PORT, HOST, () => {
+  console.log(
+    `Signing backend on http://${HOST}:${PORT} proxying ${apiBaseUrl} for ${config.accounts.length} account(s)`,
+  );
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isAllowedOrigin,
+  isAllowedRequest,
+  LOOPBACK_HOSTNAMES,
+} from './origin';
+
+describe('isAllowedOrigin', () => {
+  it('accepts the app served by the backend or the dev server', () => {
+    expect(
+      isAllowedOrigin(
+        'http://127.0.0.1:3000',
+        '127.0.0.1:3000',
+        LOOPBACK_HOSTNAMES,
+      ),
+    ).toBe(true);
+    expect(
+      isAllowedOrigin(
+        'http://localhost:5173',
+        'localhost:5173',
+        LOOPBACK_HOSTNAMES,
+      ),
+    ).toBe(true);
+    expect(
+      isAllowedOrigin('http://[::1]:3000', '[::1]:3000', LOOPBACK_HOSTNAMES),
+    ).toBe(true);
+  });
+
+  it('rejects cross-site pages and missing origins', () => {
+    expect(
+      isAllowedOrigin(
+        'https://evil.example',
+        '127.0.0.1:3000',
+        LOOPBACK_HOSTNAMES,
+      ),
+    ).toBe(false);
+    expect(
+      isAllowedOrigin(
+        'http://localhost:8080',
+        'localhost:3000',
+        LOOPBACK_HOSTNAMES,
+      ),
+    ).toBe(false);
+    expect(
+      isAllowedOrigin(undefined, '127.0.0.1:3000', LOOPBACK_HOSTNAMES),
+    ).toBe(false);
+    expect(isAllowedOrigin('null', '127.0.0.1:3000', LOOPBACK_HOSTNAMES)).toBe(
+      false,
+    );
+  });
+
+  it('rejects hosts the backend is not served on', () => {
+    // A DNS-rebound name resolving to 127.0.0.1 matches its own Host header
+    expect(
+      isAllowedOrigin(
+        'http://rebind.example:3000',
+        'rebind.example:3000',
+        LOOPBACK_HOSTNAMES,
+      ),
+    ).toBe(false);
+    expect(
+      isAllowedOrigin('http://hedger.lan:3000', 'hedger.lan:3000', [
+        ...LOOPBACK_HOSTNAMES,
+        'hedger.lan',
+      ]),
+    ).toBe(true);
+  });
+});
+
+describe('isAllowedRequest', () => {
+  it('accepts same-origin requests with or without an Origin header', () => {
+    expect(
+      isAllowedRequest(undefined, '127.0.0.1:3000', LOOPBACK_HOSTNAMES),
+    ).toBe(true);
+    expect(
+      isAllowedRequest(
+        'http://localhost:3000',
+        'localhost:3000',
+        LOOPBACK_HOSTNAMES,
+      ),
+    ).toBe(true);
+  });
+
+  it('rejects DNS-rebound hosts and cross-site origins', () => {
+    expect(
+      isAllowedRequest(undefined, 'rebind.example:3000', LOOPBACK_HOSTNAMES),
+    ).toBe(false);
+    expect(
+      isAllowedRequest(
+        'https://evil.example',
+        '127.0.0.1:3000',
+        LOOPBACK_HOSTNAMES,
+      ),
+    ).toBe(false);
+    expect(isAllowedRequest(undefined, undefined, LOOPBACK_HOSTNAMES)).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,48 @@
+// Hostnames the backend always answers to
+export const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+// Only the app's own pages may use the private WebSocket: the Origin has to
+// match the Host header, and the host has to be one the backend is served
+// on, so neither a cross-site page nor a DNS-rebound name can log in
+export const isAllowedOrigin = (
+  origin: string | undefined,
+  host: string | undefined,
+  allowedHostnames: string[],
+): boolean => {
+  if (!origin || !host) {
+    return false;
+  }
+
+  try {
+    const originUrl = new URL(origin);
+    const hostUrl = new URL(`http://${host}`);
+    return (
+      originUrl.host === hostUrl.host &&
+      allowedHostnames.includes(hostUrl.hostname)
+    );
+  } catch {
+    return false;
+  }
+};
+
+// REST calls to the backend. Same-origin GETs carry no Origin header, so
+// the Host header alone has to be one the backend is served on; an Origin,
+// when sent, has to pass the same check as the private WebSocket.
+export const isAllowedRequest = (
+  origin: string | undefined,
+  host: string | undefined,
+  allowedHostnames: string[],
+): boolean => {
+  if (origin !== undefined) {
+    return isAllowedOrigin(origin, host, allowedHostnames);
+  }
+  if (!host) {
+    return false;
+  }
+
+  try {
+    return allowedHostnames.includes(new URL(`http://${host}`).hostname);
+  } catch {
+    return false;
+  }
+};
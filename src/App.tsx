@@ -1,15 +1,85 @@
-import { useState, useEffect, useCallback } from 'react';
-import { loadConfig, type Config } from './utils/config';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
-  getAccountBalance,
-  getPositions,
-  getOrders,
-  cancelOrder,
+  loadConfig,
+  saveConfig,
+  clearStoredConfig,
+  exportConfig,
+  parseConfigFile,
+  type Config,
+} from './utils/config';
+import { lockConfig, unlockConfig, isPlaintextConfig } from './utils/vault';
+import { connectPrivateWs, mergeOrders } from './utils/privateWs';
+import { MarketDataManager } from './utils/marketData';
+import { assessPositionFunding, type FundingInfo } from './utils/funding';
+import {
+  getClockOffset,
+  isClockDrifting,
+  TIME_SYNC_INTERVAL,
+} from './utils/timeSync';
+import {
+  loadEquityHistory,
+  recordEquitySnapshot,
+  type EquityHistory,
+} from './utils/equityHistory';
+import {
+  setContractSpecs,
+  loadFavourites,
+  saveFavourites,
+  type ContractSpec,
+} from './utils/contracts';
+import {
+  getPlanOrders,
+  cancelPlanOrder,
+  modifyPlanOrder,
+  setApiBaseUrl,
+  setSigningBackend,
+  getPublicWsUrl,
+  getContracts,
+  getPrivateWsUrl,
+  getFundingInfo,
+  getApiErrorMessage,
+  syncServerTime,
   type BitgetAccount,
-  type BitgetAccountBalance,
-  type BitgetPosition,
-  type BitgetOrder,
+  type BitgetPlanOrder,
 } from './utils/bitgetApi';
+import {
+  getExchangeClient,
+  setApiVersion,
+  setProductTypes,
+  acrossProductTypes,
+  formatProductTypeErrors,
+  keepFailedProductTypes,
+  PRODUCT_TYPE_LABELS,
+  type Balance,
+  type Order,
+  type Position,
+  type ProductTypeErrors,
+} from './utils/exchangeClient';
+import {
+  getBalanceValue,
+  getCoinDecimals,
+  getConversionSymbols,
+  getPositionPL,
+  sumConverted,
+} from './utils/currency';
+import CloseAllDialog from './components/CloseAllDialog';
+import OrderTicket from './components/OrderTicket';
+import HedgePanel from './components/HedgePanel';
+import PairedHedgeTicket from './components/PairedHedgeTicket';
+import StopTicket from './components/StopTicket';
+import PlanOrderList from './components/PlanOrderList';
+import LedgerPanel from './components/LedgerPanel';
+import FundingPanel from './components/FundingPanel';
+import EquityPanel from './components/EquityPanel';
+import PriceChart from './components/PriceChart';
+import PortfolioMatrix from './components/PortfolioMatrix';
+import LeveragePanel from './components/LeveragePanel';
+import RiskMonitor from './components/RiskMonitor';
+import MarginPolicyPanel from './components/MarginPolicyPanel';
+import UnlockScreen from './components/UnlockScreen';
+import SettingsDialog from './components/SettingsDialog';
+import SymbolIcon from './components/SymbolIcon';
+import SymbolSelector from './components/SymbolSelector';
 import {
   AppBar,
   Toolbar,
@@ -21,10 +91,8 @@ import {
   Paper,
   IconButton,
   Container,
-  FormControl,
-  Select,
-  MenuItem,
   Chip,
+  Alert,
 } from '@mui/material';
 import {
   TrendingUp,
@@ -36,45 +104,22 @@ import {
   Close,
   Clear,
   Dashboard,
+  Lock,
 } from '@mui/icons-material';
 
 // Helper interfaces for UI components
 
-// Symbol icons (using simple colored circles for crypto symbols)
-const SymbolIcon = ({ symbol }: { symbol: string }) => {
-  const getColor = () => {
-    switch (symbol) {
-      case 'BTCUSD.P':
-        return '#f7931a';
-      case 'ETHUSD.P':
-        return '#627eea';
-      case 'BNBUSDT.P':
-        return '#f3ba2f';
-      default:
-        return '#757575';
-    }
-  };
-
-  return (
-    <Box
-      sx={{
-        width: 24,
-        height: 24,
-        borderRadius: '50%',
-        bgcolor: getColor(),
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'center',
-        color: 'white',
-        fontSize: '10px',
-        fontWeight: 'bold',
-        mr: 1,
-      }}
-    >
-      {symbol.slice(0, 3)}
-    </Box>
-  );
-};
+interface AccountData {
+  account: BitgetAccount;
+  balances: Balance[];
+  positions: Position[];
+  orders: Order[];
+  planOrders: BitgetPlanOrder[];
+  loading: boolean;
+  error?: string;
+  productTypeErrors: ProductTypeErrors; // Product types that failed to load
+  live?: boolean; // private WebSocket logged in and subscribed
+}
 
 interface PriceData {
   symbol: string;
@@ -82,201 +127,342 @@ interface PriceData {
   change24h: number;
   volume24h: number;
   lastUpdate: number;
+  stale: boolean; // no ticker update within the staleness window
 }
 
 // Helper function to convert display symbols to API symbols
 const getApiSymbol = (displaySymbol: string): string => {
+  // Legacy display names from older configs
   const symbolMap: { [key: string]: string } = {
     'BTCUSD.P': 'BTCUSDT',
     'ETHUSD.P': 'ETHUSDT',
     'BNBUSDT.P': 'BNBUSDT',
   };
-  return symbolMap[displaySymbol] || displaySymbol;
+  return symbolMap[displaySymbol] || displaySymbol.replace(/\.P$/, '');
 };
 
+// Perpetual display name for an API symbol
+const getDisplaySymbol = (apiSymbol: string): string => `${apiSymbol}.P`;
+
+// REST reconciliation interval while the private WebSocket is live
+const RECONCILE_INTERVAL = 60000;
+
+// Funding rates change slowly; the ticker keeps them current in between
+const FUNDING_REFRESH_INTERVAL = 5 * 60000;
+
 // Helper function to format numbers with space thousand separators
 const formatNumber = (num: number, decimals: number = 2): string => {
   return num.toFixed(decimals).replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
 };
 
+// Balances worth listing: the USDT-M account plus any other margin coin
+// holding funds
+const getFundedBalances = (balances: Balance[]): Balance[] =>
+  balances.filter(
+    (balance) =>
+      balance.equity !== 0 ||
+      (balance.productType === 'USDT-FUTURES' && balance.marginCoin === 'USDT'),
+  );
+
 function App() {
-  const [selectedSymbol, setSelectedSymbol] = useState('BTCUSD.P');
+  const [selectedSymbol, setSelectedSymbol] = useState('BTCUSDT.P');
   const [currentPrice, setCurrentPrice] = useState(0);
   const [priceData, setPriceData] = useState<{ [key: string]: PriceData }>({});
+  const [equityHistory, setEquityHistory] =
+    useState<EquityHistory>(loadEquityHistory);
+  const [fundingRates, setFundingRates] = useState<{
+    [symbol: string]: FundingInfo;
+  }>({});
+  const [clockOffset, setClockOffset] = useState<number | null>(getClockOffset);
   const [wsConnected, setWsConnected] = useState(false);
+  const [marketData, setMarketData] = useState<MarketDataManager | null>(null);
 
   // Configuration
   const [config, setConfig] = useState<Config | null>(null);
 
+  // Encrypted configuration waiting for the vault password
+  const [lockedConfig, setLockedConfig] = useState<Config | null>(null);
+
+  // Vault password, kept in memory only while unlocked to re-encrypt on save
+  const vaultPasswordRef = useRef<string | null>(null);
+
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  // Tradable contracts and the user's favourite API symbols
+  const [contracts, setContracts] = useState<ContractSpec[]>([]);
+  const [favourites, setFavourites] = useState<string[]>(loadFavourites);
+
   // Bitget account data for all accounts
   const [accountsData, setAccountsData] = useState<{
-    [accountId: string]: {
-      account: BitgetAccount;
-      balance: BitgetAccountBalance | null;
-      positions: BitgetPosition[];
-      orders: BitgetOrder[];
-      loading: boolean;
-      error?: string;
-    };
+    [accountId: string]: AccountData;
   }>({});
 
-  // Real-time price data using WebSocket
-  useEffect(() => {
-    const symbols = [
-      { api: 'BTCUSDT', display: 'BTCUSD.P' },
-      { api: 'ETHUSDT', display: 'ETHUSD.P' },
-      { api: 'BNBUSDT', display: 'BNBUSDT.P' },
-    ];
+  // Enabled accounts with their positions, used by the hedge engine
+  const enabledAccountsData = useMemo(
+    () => Object.values(accountsData).filter((data) => data.account.enabled),
+    [accountsData],
+  );
 
-    let ws: WebSocket | null = null;
-    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
-    let pingTimer: ReturnType<typeof setInterval> | null = null;
+  // Automated actions wait until every account has loaded every product
+  // type; a missing leg would look like a hedge imbalance
+  const accountsUnsettled = enabledAccountsData.some(
+    (data) =>
+      data.loading ||
+      !!data.error ||
+      Object.keys(data.productTypeErrors).length > 0,
+  );
 
-    const connectWebSocket = () => {
-      try {
-        // Bitget WebSocket endpoint for futures market data
-        ws = new WebSocket('wss://ws.bitget.com/v2/ws/public');
-
-        ws.onopen = () => {
-          setWsConnected(true);
-
-          // Subscribe to ticker channels using Bitget v2 format
-          symbols.forEach((symbol) => {
-            const subscription = {
-              op: 'subscribe',
-              args: [
-                {
-                  instType: 'USDT-FUTURES',
-                  channel: 'ticker',
-                  instId: symbol.api,
-                },
-              ],
-            };
+  // Enabled accounts from the config, stable across renders for the ledger
+  const enabledConfigAccounts = useMemo(
+    () => (config ? config.accounts.filter((acc) => acc.enabled) : []),
+    [config],
+  );
 
-            ws?.send(JSON.stringify(subscription));
-          });
+  // Live prices by API symbol for the risk monitor
+  const livePrices = useMemo(() => {
+    const prices: { [symbol: string]: number } = {};
+    Object.values(priceData).forEach((data) => {
+      if (!data.stale && data.price > 0) {
+        prices[getApiSymbol(data.symbol)] = data.price;
+      }
+    });
+    return prices;
+  }, [priceData]);
+
+  // USDT-M symbols with an open position or a hedge target, whose funding
+  // is tracked. Joined into a string so effects only rerun when it changes.
+  const hedgeTargets = config?.hedge?.targets;
+  const fundingSymbolsKey = useMemo(
+    () =>
+      [
+        ...enabledAccountsData.flatMap((data) =>
+          data.positions
+            .filter((position) => position.productType === 'USDT-FUTURES')
+            .map((position) => position.symbol),
+        ),
+        ...(hedgeTargets ?? []).map((target) => target.symbol),
+      ]
+        .filter((symbol, index, all) => all.indexOf(symbol) === index)
+        .sort()
+        .join(','),
+    [enabledAccountsData, hedgeTargets],
+  );
 
-          // Setup ping to keep connection alive
-          pingTimer = setInterval(() => {
-            if (ws?.readyState === WebSocket.OPEN) {
-              ws.send('ping');
-            }
-          }, 30000);
-        };
+  const reportingCurrency = config?.settings.reportingCurrency ?? 'USDT';
+
+  // Symbols whose prices convert the margin coins and the reporting
+  // currency, joined like fundingSymbolsKey
+  const conversionSymbolsKey = useMemo(
+    () =>
+      getConversionSymbols([
+        ...enabledAccountsData.flatMap((data) =>
+          data.balances.map((balance) => balance.marginCoin),
+        ),
+        reportingCurrency,
+      ]).join(','),
+    [enabledAccountsData, reportingCurrency],
+  );
 
-        ws.onmessage = (event) => {
-          try {
-            if (event.data === 'pong') return; // Handle pong response
-
-            const data = JSON.parse(event.data);
-
-            // Handle different Bitget response types
-            if (data.event === 'error') {
-              console.error('❌ WebSocket subscription error:', data);
-              return;
-            }
-
-            if (data.event === 'subscribe') {
-              return;
-            }
-
-            // Handle ticker data - Bitget v2 API format
-            if (
-              data.arg &&
-              data.arg.channel === 'ticker' &&
-              data.data &&
-              Array.isArray(data.data)
-            ) {
-              const instId = data.arg.instId;
-              const tickerData = data.data[0];
-
-              // Find matching symbol
-              const symbolInfo = symbols.find((s) => s.api === instId);
-              if (!symbolInfo) {
-                return;
-              }
+  const positionFunding = useMemo(
+    () => assessPositionFunding(enabledAccountsData, fundingRates),
+    [enabledAccountsData, fundingRates],
+  );
 
-              const price = parseFloat(
-                tickerData.lastPr || tickerData.last || tickerData.close || '0',
-              );
-              const change24h = parseFloat(
-                tickerData.changeUtc24h ||
-                  tickerData.chgUTC ||
-                  tickerData.change24h ||
-                  '0',
-              );
-              const volume24h = parseFloat(
-                tickerData.volCcy24h ||
-                  tickerData.baseVolume ||
-                  tickerData.vol ||
-                  '0',
-              );
-
-              setPriceData((prev) => ({
-                ...prev,
-                [symbolInfo.display]: {
-                  symbol: symbolInfo.display,
-                  price,
-                  change24h,
-                  volume24h,
-                  lastUpdate: Date.now(),
-                },
-              }));
-
-              // Update current price if this is the selected symbol
-              if (symbolInfo.display === selectedSymbol) {
-                setCurrentPrice(price);
-              }
-            }
-          } catch (error) {
-            console.error(
-              '❌ Error parsing WebSocket message:',
-              error,
-              event.data,
-            );
-          }
-        };
+  // Close all dialog state (null when closed)
+  const [closeAllMode, setCloseAllMode] = useState<
+    'positions' | 'positionsAndOrders' | null
+  >(null);
 
-        ws.onclose = () => {
-          setWsConnected(false);
+  const apiBaseUrl = config?.settings.apiBaseUrl;
 
-          if (pingTimer) {
-            clearInterval(pingTimer);
-            pingTimer = null;
-          }
+  // Load the contract list for symbol search and order validation
+  useEffect(() => {
+    if (apiBaseUrl === undefined) return;
+
+    let cancelled = false;
+    getContracts()
+      .then((specs) => {
+        if (cancelled) return;
+        setContractSpecs(specs);
+        setContracts(specs);
+      })
+      .catch((error) => {
+        console.error('❌ Error loading contracts:', error);
+      });
 
-          // Attempt to reconnect after 5 seconds
-          reconnectTimer = setTimeout(() => {
-            connectWebSocket();
-          }, 3000);
-        };
+    return () => {
+      cancelled = true;
+    };
+  }, [apiBaseUrl]);
 
-        ws.onerror = (error) => {
-          console.error('❌ WebSocket error:', error);
-          setWsConnected(false);
-        };
+  // Keep signing timestamps on the server clock of the configured endpoint
+  useEffect(() => {
+    if (apiBaseUrl === undefined) return;
+
+    let cancelled = false;
+    const sync = async () => {
+      try {
+        const offset = await syncServerTime();
+        if (!cancelled && offset !== null) {
+          setClockOffset(offset);
+        }
       } catch (error) {
-        console.error('❌ Error creating WebSocket:', error);
-        setWsConnected(false);
+        console.error('❌ Error syncing server time:', error);
       }
     };
 
-    // Initial connection
-    connectWebSocket();
+    sync();
+    const interval = setInterval(sync, TIME_SYNC_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [apiBaseUrl]);
+
+  const toggleFavourite = (symbol: string) => {
+    setFavourites((prev) => {
+      const next = prev.includes(symbol)
+        ? prev.filter((favourite) => favourite !== symbol)
+        : [...prev, symbol];
+      saveFavourites(next);
+      return next;
+    });
+  };
+
+  // Shared market data connection for the configured endpoint
+  useEffect(() => {
+    if (apiBaseUrl === undefined) return;
+
+    const manager = new MarketDataManager(getPublicWsUrl(apiBaseUrl));
+    const unsubscribeStatus = manager.onStatusChange(setWsConnected);
+    const unsubscribeStale = manager.onStaleChange((channel, symbol, stale) => {
+      if (channel !== 'ticker') return;
+      const display = getDisplaySymbol(symbol);
+      setPriceData((prev) =>
+        prev[display]
+          ? { ...prev, [display]: { ...prev[display], stale } }
+          : prev,
+      );
+    });
+    setMarketData(manager);
 
-    // Cleanup function
     return () => {
-      if (reconnectTimer) {
-        clearTimeout(reconnectTimer);
-      }
-      if (pingTimer) {
-        clearInterval(pingTimer);
-      }
-      if (ws) {
-        ws.close();
-      }
+      unsubscribeStatus();
+      unsubscribeStale();
+      manager.close();
+      setMarketData(null);
+      setWsConnected(false);
+    };
+  }, [apiBaseUrl]);
+
+  // Ticker prices for the favourites, the selected symbol, the symbols
+  // whose funding is tracked and the currency conversions
+  useEffect(() => {
+    if (!marketData) return;
+
+    const symbols = [
+      ...favourites,
+      getApiSymbol(selectedSymbol),
+      ...(fundingSymbolsKey ? fundingSymbolsKey.split(',') : []),
+      ...(conversionSymbolsKey ? conversionSymbolsKey.split(',') : []),
+    ].filter((api, index, all) => all.indexOf(api) === index);
+
+    const unsubscribes = symbols.map((api) =>
+      marketData.subscribe('ticker', api, (data) => {
+        const tickerData = data[0] as Record<string, string> | undefined;
+        if (!tickerData) return;
+
+        const display = getDisplaySymbol(api);
+        const price = parseFloat(
+          tickerData.lastPr || tickerData.last || tickerData.close || '0',
+        );
+        const change24h = parseFloat(
+          tickerData.changeUtc24h ||
+            tickerData.chgUTC ||
+            tickerData.change24h ||
+            '0',
+        );
+        const volume24h = parseFloat(
+          tickerData.volCcy24h ||
+            tickerData.baseVolume ||
+            tickerData.vol ||
+            '0',
+        );
+
+        setPriceData((prev) => ({
+          ...prev,
+          [display]: {
+            symbol: display,
+            price,
+            change24h,
+            volume24h,
+            lastUpdate: Date.now(),
+            stale: false,
+          },
+        }));
+
+        // The v2 ticker also carries the current funding rate
+        if (tickerData.fundingRate && tickerData.nextFundingTime) {
+          setFundingRates((prev) => ({
+            ...prev,
+            [api]: {
+              symbol: api,
+              fundingRate: parseFloat(tickerData.fundingRate),
+              nextFundingTime: parseInt(tickerData.nextFundingTime, 10),
+            },
+          }));
+        }
+      }),
+    );
+
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [
+    marketData,
+    selectedSymbol,
+    favourites,
+    fundingSymbolsKey,
+    conversionSymbolsKey,
+  ]);
+
+  // Funding rates over REST, for symbols whose ticker has not sent one yet
+  useEffect(() => {
+    if (apiBaseUrl === undefined || !fundingSymbolsKey) return;
+
+    let cancelled = false;
+    const symbols = fundingSymbolsKey.split(',');
+    const fetchFunding = async () => {
+      const results = await Promise.allSettled(
+        symbols.map((symbol) => getFundingInfo(symbol, 'USDT-FUTURES')),
+      );
+      if (cancelled) return;
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          console.error(
+            `❌ Error loading funding rate for ${symbols[index]}:`,
+            result.reason,
+          );
+        }
+      });
+      setFundingRates((prev) => {
+        const next = { ...prev };
+        results.forEach((result) => {
+          if (result.status === 'fulfilled') {
+            next[result.value.symbol] = result.value;
+          }
+        });
+        return next;
+      });
+    };
+
+    fetchFunding();
+    const interval = setInterval(fetchFunding, FUNDING_REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
     };
-  }, [selectedSymbol]);
+  }, [apiBaseUrl, fundingSymbolsKey]);
 
   // Update current price when symbol changes
   useEffect(() => {
@@ -286,17 +472,19 @@ function App() {
     }
   }, [selectedSymbol, priceData]);
 
-  // Fetch account data from Bitget API for all accounts
+  // Fetch account data from Bitget API for all accounts. Accounts that
+  // already have data keep showing it while the refresh is in flight.
   const fetchAccountData = useCallback(async () => {
     if (!config || config.accounts.length === 0) return;
 
     const enabledAccounts = config.accounts.filter((acc) => acc.enabled);
     if (enabledAccounts.length === 0) return;
 
-    // Set loading state for all accounts
+    // Set loading state for accounts without data yet
     setAccountsData((prev) => {
       const newData = { ...prev };
       enabledAccounts.forEach((account) => {
+        if (prev[account.id]?.balances.length) return;
         newData[account.id] = {
           ...newData[account.id],
           account: {
@@ -306,77 +494,208 @@ function App() {
             apiSecret: account.apiSecret,
             passphrase: account.passphrase,
             enabled: account.enabled,
+            userId: account.userId,
           },
           loading: true,
-          balance: null,
+          error: undefined,
+          balances: [],
           positions: [],
           orders: [],
+          planOrders: [],
+          productTypeErrors: {},
         };
       });
       return newData;
     });
 
-    // Fetch data for each account
-    for (const account of enabledAccounts) {
-      try {
-        const bitgetAccount: BitgetAccount = {
-          id: account.id,
-          name: account.name,
-          apiKey: account.apiKey,
-          apiSecret: account.apiSecret,
-          passphrase: account.passphrase,
-          enabled: account.enabled,
-        };
-
-        // Fetch account balance
-        const balanceArray = await getAccountBalance(bitgetAccount);
-        const balance = balanceArray.length > 0 ? balanceArray[0] : null;
+    // Fetch data for all accounts in parallel
+    await Promise.all(
+      enabledAccounts.map(async (account) => {
+        try {
+          const bitgetAccount: BitgetAccount = {
+            id: account.id,
+            name: account.name,
+            apiKey: account.apiKey,
+            apiSecret: account.apiSecret,
+            passphrase: account.passphrase,
+            enabled: account.enabled,
+            userId: account.userId,
+          };
+
+          const client = getExchangeClient();
+          const [balances, positionsData, ordersData, planOrdersData] =
+            await Promise.all([
+              client.getBalances(bitgetAccount),
+              client.getPositions(bitgetAccount),
+              client.getOrders(bitgetAccount),
+              acrossProductTypes((productType) =>
+                getPlanOrders(bitgetAccount, productType),
+              ),
+            ]);
+          // Equity history is kept in USDT at Bitget's valuation. A total
+          // missing a product type would show up as a drop, so skip it.
+          if (
+            balances.items.length > 0 &&
+            Object.keys(balances.errors).length === 0
+          ) {
+            setEquityHistory(
+              recordEquitySnapshot(
+                account.id,
+                balances.items.reduce(
+                  (sum, balance) => sum + balance.usdtEquity,
+                  0,
+                ),
+              ),
+            );
+          }
 
-        // Fetch positions
-        const positionsData = await getPositions(bitgetAccount);
+          // Update account data
+          setAccountsData((prev) => ({
+            ...prev,
+            [account.id]: {
+              ...prev[account.id],
+              balances: keepFailedProductTypes(
+                prev[account.id]?.balances ?? [],
+                balances,
+              ),
+              positions: keepFailedProductTypes(
+                prev[account.id]?.positions ?? [],
+                positionsData,
+              ),
+              orders: keepFailedProductTypes(
+                prev[account.id]?.orders ?? [],
+                ordersData,
+              ),
+              planOrders: keepFailedProductTypes(
+                prev[account.id]?.planOrders ?? [],
+                planOrdersData,
+              ),
+              loading: false,
+              error: undefined,
+              productTypeErrors: {
+                ...balances.errors,
+                ...positionsData.errors,
+                ...ordersData.errors,
+                ...planOrdersData.errors,
+              },
+            },
+          }));
+        } catch (error) {
+          const errorMsg = getApiErrorMessage(error);
+
+          // Set error state for this account
+          setAccountsData((prev) => ({
+            ...prev,
+            [account.id]: {
+              ...prev[account.id],
+              loading: false,
+              error: errorMsg,
+            },
+          }));
+
+          console.error(
+            `❌ Error fetching data for account ${account.name}:`,
+            errorMsg,
+          );
+        }
+      }),
+    );
+  }, [config]);
 
-        // Fetch orders
-        const ordersData = await getOrders(bitgetAccount);
+  // Apply an update pushed on an account's private WebSocket
+  const updateAccountData = useCallback(
+    (
+      accountId: string,
+      update: (data: AccountData) => Partial<AccountData>,
+    ) => {
+      setAccountsData((prev) => {
+        const data = prev[accountId];
+        if (!data) return prev;
+        return { ...prev, [accountId]: { ...data, ...update(data) } };
+      });
+    },
+    [],
+  );
 
-        // Update account data
-        setAccountsData((prev) => ({
-          ...prev,
-          [account.id]: {
-            ...prev[account.id],
-            balance,
-            positions: positionsData,
-            orders: ordersData,
-            loading: false,
-          },
-        }));
-      } catch (error) {
-        const errorMsg =
-          error instanceof Error ? error.message : 'Unknown error';
+  // Live positions, orders and balance over the private WebSocket
+  useEffect(() => {
+    if (!config || apiBaseUrl === undefined) return;
+
+    const wsUrl = getPrivateWsUrl(apiBaseUrl);
+    const disconnects = config.accounts
+      .filter((account) => account.enabled)
+      .map((account) =>
+        connectPrivateWs(account, wsUrl, {
+          // Snapshots cover one product type and replace only its entries
+          onPositions: (productType, positions) =>
+            updateAccountData(account.id, (data) => ({
+              positions: [
+                ...data.positions.filter(
+                  (position) => position.productType !== productType,
+                ),
+                ...positions,
+              ],
+              loading: false,
+              error: undefined,
+            })),
+          onOrders: (orders) =>
+            updateAccountData(account.id, (data) => ({
+              orders: mergeOrders(data.orders, orders),
+            })),
+          onBalances: (productType, balances) =>
+            updateAccountData(account.id, (data) => ({
+              balances: [
+                ...data.balances.filter(
+                  (balance) => balance.productType !== productType,
+                ),
+                ...balances,
+              ],
+              loading: false,
+              error: undefined,
+            })),
+          onStatusChange: (live) =>
+            updateAccountData(account.id, () => ({ live })),
+        }),
+      );
 
-        // Set error state for this account
-        setAccountsData((prev) => ({
-          ...prev,
-          [account.id]: {
-            ...prev[account.id],
-            loading: false,
-            error: errorMsg,
-          },
-        }));
+    return () => {
+      disconnects.forEach((disconnect) => disconnect());
+    };
+  }, [config, apiBaseUrl, updateAccountData]);
+
+  // Apply a loaded and unlocked configuration
+  const applyConfig = (loadedConfig: Config) => {
+    if (loadedConfig.backend) {
+      setSigningBackend(true);
+    } else {
+      setApiBaseUrl(loadedConfig.settings.apiBaseUrl);
+    }
+    setApiVersion(loadedConfig.settings.apiVersion);
+    setProductTypes(loadedConfig.settings.productTypes);
+    setAccountsData({});
+    setConfig(loadedConfig);
+    setSelectedSymbol(
+      getDisplaySymbol(getApiSymbol(loadedConfig.settings.defaultSymbol)),
+    );
+  };
 
-        console.error(
-          `❌ Error fetching data for account ${account.name}:`,
-          errorMsg,
-        );
-      }
+  // Apply a plaintext config or wait for the password of an encrypted one
+  const handleLoadedConfig = (loadedConfig: Config) => {
+    if (loadedConfig.vault && !loadedConfig.backend) {
+      setLockedConfig(loadedConfig);
+      setConfig(null);
+      setAccountsData({});
+      return;
     }
-  }, [config]);
 
-  // Refresh account data when symbol changes
-  useEffect(() => {
-    if (config) {
-      fetchAccountData();
+    if (!loadedConfig.backend && isPlaintextConfig(loadedConfig)) {
+      console.warn(
+        '⚠️ config.json holds plaintext credentials - encrypt it with npm run vault:encrypt',
+      );
     }
-  }, [selectedSymbol, config, fetchAccountData]);
+    setLockedConfig(null);
+    applyConfig(loadedConfig);
+  };
 
   // Load configuration on component mount
   useEffect(() => {
@@ -384,8 +703,7 @@ function App() {
       try {
         const loadedConfig = await loadConfig();
         if (loadedConfig) {
-          setConfig(loadedConfig);
-          setSelectedSymbol(loadedConfig.settings.defaultSymbol);
+          handleLoadedConfig(loadedConfig);
         }
       } catch (error) {
         console.error('Failed to load configuration:', error);
@@ -393,32 +711,127 @@ function App() {
     };
 
     initConfig();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Load account data when config changes and set up auto-refresh
-  useEffect(() => {
+  // Decrypt the vault with the entered password
+  const handleUnlock = async (password: string) => {
+    if (!lockedConfig) return;
+    applyConfig(await unlockConfig(lockedConfig, password));
+    vaultPasswordRef.current = password;
+  };
+
+  // Drop decrypted credentials from memory until unlocked again
+  const handleLock = useCallback(() => {
+    vaultPasswordRef.current = null;
+    setSettingsOpen(false);
+    setConfig(null);
+    setAccountsData({});
+  }, []);
+
+  // Config in its stored form, re-encrypted when a vault is in use
+  const toStoredConfig = async (plainConfig: Config): Promise<Config> => {
+    const password = vaultPasswordRef.current;
+    return password ? lockConfig(plainConfig, password) : plainConfig;
+  };
+
+  const handleSaveSettings = async (newConfig: Config) => {
+    const storedConfig = await toStoredConfig(newConfig);
+    if (!(await saveConfig(storedConfig))) {
+      throw new Error('Failed to save configuration');
+    }
+    if (storedConfig.vault) {
+      setLockedConfig(storedConfig);
+    }
+    applyConfig(newConfig);
+  };
+
+  const handleExportConfig = async () => {
     if (config) {
-      fetchAccountData();
+      exportConfig(await toStoredConfig(config));
+    }
+  };
+
+  const handleImportConfig = async (file: File) => {
+    const importedConfig = await parseConfigFile(file);
+    if (!(await saveConfig(importedConfig))) {
+      throw new Error('Failed to save configuration');
+    }
+    vaultPasswordRef.current = null;
+    handleLoadedConfig(importedConfig);
+  };
+
+  // Forget in-app changes and reload from config.json
+  const handleResetConfig = () => {
+    clearStoredConfig();
+    window.location.reload();
+  };
+
+  // Auto-lock the vault after a period of inactivity
+  useEffect(() => {
+    if (!config || !lockedConfig) return;
+
+    const timeoutMs = (config.settings.autoLockMinutes ?? 15) * 60000;
+    let lastActivity = Date.now();
+    const onActivity = () => {
+      lastActivity = Date.now();
+    };
+    const activityEvents = ['mousemove', 'mousedown', 'keydown', 'touchstart'];
+
+    activityEvents.forEach((event) =>
+      window.addEventListener(event, onActivity),
+    );
+    const lockTimer = setInterval(() => {
+      if (Date.now() - lastActivity >= timeoutMs) {
+        handleLock();
+      }
+    }, 10000);
 
-      // Set up auto-refresh for account data every 30 seconds
-      const accountInterval = setInterval(() => {
-        fetchAccountData();
-      }, 30000);
+    return () => {
+      activityEvents.forEach((event) =>
+        window.removeEventListener(event, onActivity),
+      );
+      clearInterval(lockTimer);
+    };
+  }, [config, lockedConfig, handleLock]);
 
-      return () => {
-        clearInterval(accountInterval);
-      };
+  // Load account data when config changes
+  useEffect(() => {
+    if (config) {
+      fetchAccountData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [config]);
 
+  // Poll at settings.refreshInterval until every account is live on the
+  // private WebSocket, then only reconcile occasionally
+  const allAccountsLive =
+    enabledAccountsData.length > 0 &&
+    enabledAccountsData.every((data) => data.live);
+  const refreshInterval = config?.settings.refreshInterval;
+
+  useEffect(() => {
+    if (!refreshInterval) return;
+
+    const interval = allAccountsLive
+      ? Math.max(refreshInterval, RECONCILE_INTERVAL)
+      : refreshInterval;
+    const accountInterval = setInterval(() => {
+      fetchAccountData();
+    }, interval);
+
+    return () => {
+      clearInterval(accountInterval);
+    };
+  }, [refreshInterval, allAccountsLive, fetchAccountData]);
+
   // Cancel order function
-  const handleCancelOrder = async (order: BitgetOrder, accountId: string) => {
+  const handleCancelOrder = async (order: Order, accountId: string) => {
     const accountData = accountsData[accountId];
     if (!accountData) return;
 
     try {
-      await cancelOrder(accountData.account, order.orderId, order.symbol);
+      await getExchangeClient().cancelOrder(accountData.account, order);
       // Remove order from local state
       setAccountsData((prev) => ({
         ...prev,
@@ -435,6 +848,55 @@ function App() {
     }
   };
 
+  // Cancel a plan or TP/SL order
+  const handleCancelPlanOrder = async (
+    order: BitgetPlanOrder,
+    accountId: string,
+  ) => {
+    const accountData = accountsData[accountId];
+    if (!accountData) return;
+
+    try {
+      await cancelPlanOrder(accountData.account, order);
+      setAccountsData((prev) => ({
+        ...prev,
+        [accountId]: {
+          ...prev[accountId],
+          planOrders: prev[accountId].planOrders.filter(
+            (o) => o.orderId !== order.orderId,
+          ),
+        },
+      }));
+    } catch (error) {
+      console.error('❌ Error cancelling plan order:', error);
+    }
+  };
+
+  // Move the trigger price of a plan or TP/SL order
+  const handleModifyPlanOrder = async (
+    order: BitgetPlanOrder,
+    accountId: string,
+    triggerPrice: string,
+  ) => {
+    const accountData = accountsData[accountId];
+    if (!accountData) return;
+
+    try {
+      await modifyPlanOrder(accountData.account, order, triggerPrice);
+      setAccountsData((prev) => ({
+        ...prev,
+        [accountId]: {
+          ...prev[accountId],
+          planOrders: prev[accountId].planOrders.map((o) =>
+            o.orderId === order.orderId ? { ...o, triggerPrice } : o,
+          ),
+        },
+      }));
+    } catch (error) {
+      console.error('❌ Error modifying plan order:', error);
+    }
+  };
+
   // Batch cancel all orders for all accounts
   const handleCancelAllOrders = async () => {
     const enabledAccounts = Object.values(accountsData).filter(
@@ -444,11 +906,21 @@ function App() {
     for (const accountData of enabledAccounts) {
       for (const order of accountData.orders) {
         try {
-          await cancelOrder(accountData.account, order.orderId, order.symbol);
+          await getExchangeClient().cancelOrder(accountData.account, order);
         } catch (error) {
           console.error(`❌ Failed to cancel order ${order.orderId}:`, error);
         }
       }
+      for (const order of accountData.planOrders) {
+        try {
+          await cancelPlanOrder(accountData.account, order);
+        } catch (error) {
+          console.error(
+            `❌ Failed to cancel plan order ${order.orderId}:`,
+            error,
+          );
+        }
+      }
     }
 
     // Refresh data after batch cancel
@@ -461,23 +933,27 @@ function App() {
       (data) => data.account.enabled,
     );
 
-    let totalBalance = 0;
-    let totalPnL = 0;
+    const balanceValues: (number | null)[] = [];
+    const positionPLs: (number | null)[] = [];
     let totalPositions = 0;
     let totalOrders = 0;
     let totalLongPositions = 0;
     let totalShortPositions = 0;
 
     enabledAccounts.forEach((accountData) => {
-      // Balance
-      if (accountData.balance) {
-        totalBalance += parseFloat(accountData.balance.usdtEquity || '0');
-      }
+      // Balances of every product type, in the reporting currency
+      accountData.balances.forEach((balance) => {
+        balanceValues.push(
+          getBalanceValue(balance, reportingCurrency, livePrices),
+        );
+      });
 
       // Positions
       accountData.positions.forEach((position) => {
         totalPositions++;
-        totalPnL += parseFloat(position.unrealizedPL || '0');
+        positionPLs.push(
+          getPositionPL(position, reportingCurrency, livePrices),
+        );
 
         if (position.holdSide === 'long') {
           totalLongPositions++;
@@ -487,12 +963,20 @@ function App() {
       });
 
       // Orders
-      totalOrders += accountData.orders.length;
+      totalOrders += accountData.orders.length + accountData.planOrders.length;
     });
 
+    // Projected net of the next funding settlement across all positions
+    const nextFunding = positionFunding.reduce(
+      (sum, funding) => sum + funding.payment,
+      0,
+    );
+
+    // Null when an amount has no conversion price yet
     return {
-      totalBalance,
-      totalPnL,
+      totalBalance: sumConverted(balanceValues),
+      totalPnL: sumConverted(positionPLs),
+      nextFunding,
       totalPositions,
       totalOrders,
       totalLongPositions,
@@ -501,6 +985,10 @@ function App() {
     };
   };
 
+  if (lockedConfig && !config) {
+    return <UnlockScreen onUnlock={handleUnlock} />;
+  }
+
   return (
     <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
       <AppBar position="static">
@@ -512,7 +1000,17 @@ function App() {
               {config &&
                 `(${config.accounts.filter((acc) => acc.enabled).length})`}
             </Typography>
-            <IconButton color="inherit">
+            {lockedConfig && (
+              <IconButton color="inherit" onClick={handleLock} title="Lock">
+                <Lock />
+              </IconButton>
+            )}
+            <IconButton
+              color="inherit"
+              onClick={() => setSettingsOpen(true)}
+              disabled={!config}
+              title="Settings"
+            >
               <Settings />
             </IconButton>
           </Toolbar>
@@ -520,46 +1018,37 @@ function App() {
       </AppBar>
 
       <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+        {clockOffset !== null && isClockDrifting(clockOffset) && (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            Your clock is {(Math.abs(clockOffset) / 1000).toFixed(1)}s{' '}
+            {clockOffset > 0 ? 'behind' : 'ahead of'} Bitget. Requests are
+            signed with the corrected time, but syncing the system clock is
+            recommended.
+          </Alert>
+        )}
         <Grid container spacing={3}>
           {/* Symbol Selection */}
-          <Grid size={{ xs: 12, md: 6 }}>
+          <Grid size={{ xs: 12, md: 4 }}>
             <Card>
               <CardContent>
                 <Typography variant="h6" sx={{ mb: 2 }}>
                   Symbol Selection
                 </Typography>
-                <FormControl fullWidth>
-                  <Select
-                    value={selectedSymbol}
-                    onChange={(e) => setSelectedSymbol(e.target.value)}
-                    sx={{ mb: 2 }}
-                  >
-                    <MenuItem value="BTCUSD.P">
-                      <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                        <SymbolIcon symbol="BTCUSD.P" />
-                        BTCUSD.P
-                      </Box>
-                    </MenuItem>
-                    <MenuItem value="ETHUSD.P">
-                      <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                        <SymbolIcon symbol="ETHUSD.P" />
-                        ETHUSD.P
-                      </Box>
-                    </MenuItem>
-                    <MenuItem value="BNBUSDT.P">
-                      <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                        <SymbolIcon symbol="BNBUSDT.P" />
-                        BNBUSDT.P
-                      </Box>
-                    </MenuItem>
-                  </Select>
-                </FormControl>
+                <SymbolSelector
+                  contracts={contracts}
+                  favourites={favourites}
+                  value={getApiSymbol(selectedSymbol)}
+                  onChange={(symbol) =>
+                    setSelectedSymbol(getDisplaySymbol(symbol))
+                  }
+                  onToggleFavourite={toggleFavourite}
+                />
               </CardContent>
             </Card>
           </Grid>
 
           {/* Current Price */}
-          <Grid size={{ xs: 12, md: 6 }}>
+          <Grid size={{ xs: 12, md: 4 }}>
             <Card>
               <CardContent>
                 <Box
@@ -572,8 +1061,20 @@ function App() {
                 >
                   <Typography variant="h6">Current Price</Typography>
                   <Chip
-                    label={wsConnected ? 'LIVE' : 'OFFLINE'}
-                    color={wsConnected ? 'success' : 'error'}
+                    label={
+                      !wsConnected
+                        ? 'OFFLINE'
+                        : priceData[selectedSymbol]?.stale
+                          ? 'STALE'
+                          : 'LIVE'
+                    }
+                    color={
+                      !wsConnected
+                        ? 'error'
+                        : priceData[selectedSymbol]?.stale
+                          ? 'warning'
+                          : 'success'
+                    }
                     size="small"
                   />
                 </Box>
@@ -619,6 +1120,29 @@ function App() {
             </Card>
           </Grid>
 
+          {/* Order Ticket */}
+          <Grid size={{ xs: 12, md: 4 }}>
+            <OrderTicket
+              accounts={
+                config ? config.accounts.filter((acc) => acc.enabled) : []
+              }
+              symbol={getApiSymbol(selectedSymbol)}
+              displaySymbol={selectedSymbol}
+              currentPrice={currentPrice}
+              onOrderPlaced={fetchAccountData}
+            />
+          </Grid>
+
+          {/* Price Chart */}
+          <Grid size={{ xs: 12 }}>
+            <PriceChart
+              symbol={getApiSymbol(selectedSymbol)}
+              displaySymbol={selectedSymbol}
+              marketData={marketData}
+              accounts={enabledAccountsData}
+            />
+          </Grid>
+
           {/* Overall Summary Block */}
           <Grid size={{ xs: 12 }}>
             <Card>
@@ -648,7 +1172,12 @@ function App() {
                               variant="h5"
                               sx={{ fontWeight: 'bold' }}
                             >
-                              ${formatNumber(summary.totalBalance)}
+                              {summary.totalBalance === null
+                                ? 'N/A'
+                                : `${formatNumber(
+                                    summary.totalBalance,
+                                    getCoinDecimals(reportingCurrency),
+                                  )} ${reportingCurrency}`}
                             </Typography>
                             <Typography variant="body2">
                               Total Balance
@@ -660,17 +1189,32 @@ function App() {
                           <Box
                             sx={{ textAlign: 'center', position: 'relative' }}
                           >
-                            <Typography
-                              variant="h5"
-                              sx={{
-                                fontWeight: 'bold',
-                                color:
-                                  summary.totalPnL >= 0 ? '#4caf50' : '#f44336',
-                              }}
-                            >
-                              {summary.totalPnL >= 0 ? '+' : ''}$
-                              {formatNumber(Math.abs(summary.totalPnL))}
-                            </Typography>
+                            {summary.totalPnL === null ? (
+                              <Typography
+                                variant="h5"
+                                sx={{ fontWeight: 'bold' }}
+                              >
+                                N/A
+                              </Typography>
+                            ) : (
+                              <Typography
+                                variant="h5"
+                                sx={{
+                                  fontWeight: 'bold',
+                                  color:
+                                    summary.totalPnL >= 0
+                                      ? '#4caf50'
+                                      : '#f44336',
+                                }}
+                              >
+                                {summary.totalPnL >= 0 ? '+' : ''}
+                                {formatNumber(
+                                  Math.abs(summary.totalPnL),
+                                  getCoinDecimals(reportingCurrency),
+                                )}{' '}
+                                {reportingCurrency}
+                              </Typography>
+                            )}
                             <Box
                               sx={{
                                 display: 'flex',
@@ -687,6 +1231,9 @@ function App() {
                                   summary.totalPositions === 0 &&
                                   summary.totalOrders === 0
                                 }
+                                onClick={() =>
+                                  setCloseAllMode('positionsAndOrders')
+                                }
                                 title="Close All Positions & Cancel All Orders"
                                 sx={{ p: 0.25 }}
                               >
@@ -719,6 +1266,7 @@ function App() {
                               <IconButton
                                 size="small"
                                 color="error"
+                                onClick={() => setCloseAllMode('positions')}
                                 disabled={summary.totalPositions === 0}
                                 title="Close All Positions"
                                 sx={{ p: 0.25 }}
@@ -762,6 +1310,39 @@ function App() {
                           </Box>
                         </Grid>
                       </Grid>
+                      {summary.totalPositions > 0 && (
+                        <Typography
+                          variant="body2"
+                          color="text.secondary"
+                          sx={{ textAlign: 'center', mt: 2 }}
+                        >
+                          Next funding:{' '}
+                          <Box
+                            component="span"
+                            sx={{
+                              fontWeight: 'bold',
+                              color:
+                                summary.nextFunding >= 0
+                                  ? '#4caf50'
+                                  : '#f44336',
+                            }}
+                          >
+                            {summary.nextFunding >= 0 ? '+' : '-'}$
+                            {formatNumber(Math.abs(summary.nextFunding))}
+                          </Box>
+                        </Typography>
+                      )}
+                      {(summary.totalBalance === null ||
+                        summary.totalPnL === null) && (
+                        <Typography
+                          variant="body2"
+                          color="warning.main"
+                          sx={{ textAlign: 'center', mt: 2 }}
+                        >
+                          N/A: waiting for a price to convert every margin coin
+                          into {reportingCurrency}
+                        </Typography>
+                      )}
                     </>
                   );
                 })()}
@@ -769,6 +1350,110 @@ function App() {
             </Card>
           </Grid>
 
+          {/* Portfolio Matrix */}
+          <Grid size={{ xs: 12 }}>
+            <PortfolioMatrix
+              accounts={enabledAccountsData}
+              targets={hedgeTargets ?? []}
+              prices={livePrices}
+              selectedSymbol={getApiSymbol(selectedSymbol)}
+              onSelectSymbol={(symbol) =>
+                setSelectedSymbol(getDisplaySymbol(symbol))
+              }
+            />
+          </Grid>
+
+          {/* Performance */}
+          <Grid size={{ xs: 12 }}>
+            <EquityPanel
+              accounts={enabledConfigAccounts}
+              history={equityHistory}
+            />
+          </Grid>
+
+          {/* Hedge Engine */}
+          <Grid size={{ xs: 12, md: 8 }}>
+            <HedgePanel
+              targets={config?.hedge?.targets ?? []}
+              defaultAutoExecute={config?.hedge?.autoExecute ?? false}
+              accounts={enabledAccountsData}
+              loading={accountsUnsettled}
+              onExecuted={fetchAccountData}
+            />
+          </Grid>
+
+          {/* Paired Hedge */}
+          <Grid size={{ xs: 12, md: 4 }}>
+            <PairedHedgeTicket
+              accounts={
+                config ? config.accounts.filter((acc) => acc.enabled) : []
+              }
+              symbol={getApiSymbol(selectedSymbol)}
+              displaySymbol={selectedSymbol}
+              currentPrice={currentPrice}
+              onHedgeOpened={fetchAccountData}
+            />
+          </Grid>
+
+          {/* Liquidation Risk */}
+          <Grid size={{ xs: 12 }}>
+            <RiskMonitor
+              accounts={enabledAccountsData}
+              prices={livePrices}
+              settings={config?.risk}
+            />
+          </Grid>
+
+          {/* Funding */}
+          <Grid size={{ xs: 12 }}>
+            <FundingPanel
+              accounts={enabledConfigAccounts}
+              positionFunding={positionFunding}
+              targets={hedgeTargets ?? []}
+            />
+          </Grid>
+
+          {/* Margin Policy */}
+          <Grid size={{ xs: 12, md: 8 }}>
+            <MarginPolicyPanel
+              accounts={enabledAccountsData}
+              allAccounts={config ? config.accounts : []}
+              prices={livePrices}
+              settings={config?.margin}
+              riskSettings={config?.risk}
+              loading={accountsUnsettled}
+              onExecuted={fetchAccountData}
+            />
+          </Grid>
+
+          {/* TP/SL */}
+          <Grid size={{ xs: 12, md: 4 }}>
+            <StopTicket
+              accounts={enabledAccountsData}
+              targets={config?.hedge?.targets ?? []}
+              symbol={getApiSymbol(selectedSymbol)}
+              displaySymbol={selectedSymbol}
+              currentPrice={currentPrice}
+              onOrderPlaced={fetchAccountData}
+            />
+          </Grid>
+
+          {/* Leverage & Margin Mode */}
+          <Grid size={{ xs: 12 }}>
+            <LeveragePanel
+              accounts={enabledConfigAccounts}
+              symbol={getApiSymbol(selectedSymbol)}
+              // The symbol selector lists the USDT-M contracts
+              productType="USDT-FUTURES"
+              onApplied={fetchAccountData}
+            />
+          </Grid>
+
+          {/* Ledger */}
+          <Grid size={{ xs: 12 }}>
+            <LedgerPanel accounts={enabledConfigAccounts} />
+          </Grid>
+
           {/* Account Sections - one for each enabled account */}
           {Object.values(accountsData).map((accountData) => (
             <Grid key={accountData.account.id} size={{ xs: 12 }}>
@@ -785,8 +1470,20 @@ function App() {
                     <Typography variant="h6">
                       {accountData.account.name} - Account Overview
                     </Typography>
+                    <Chip
+                      label={accountData.live ? 'LIVE' : 'POLLING'}
+                      color={accountData.live ? 'success' : 'default'}
+                      size="small"
+                    />
                   </Box>
 
+                  {Object.keys(accountData.productTypeErrors).length > 0 && (
+                    <Alert severity="warning" sx={{ mb: 2 }}>
+                      Not loaded -{' '}
+                      {formatProductTypeErrors(accountData.productTypeErrors)}
+                    </Alert>
+                  )}
+
                   <Grid container spacing={3}>
                     {/* Account Balance */}
                     <Grid size={{ xs: 12, md: 4 }}>
@@ -806,70 +1503,95 @@ function App() {
                           <Typography variant="body2" color="error.main">
                             Error: {accountData.error}
                           </Typography>
-                        ) : accountData.balance ? (
+                        ) : accountData.balances.length > 0 ? (
                           <>
-                            <Typography
-                              variant="body2"
-                              color="text.secondary"
-                              sx={{ mb: 0.5 }}
-                            >
-                              Equity:{' '}
-                              <strong>
-                                $
-                                {parseFloat(
-                                  accountData.balance.equity,
-                                ).toLocaleString('en-US', {
-                                  minimumFractionDigits: 2,
-                                })}
-                              </strong>
-                            </Typography>
-                            <Typography
-                              variant="body2"
-                              color="text.secondary"
-                              sx={{ mb: 0.5 }}
-                            >
-                              Available:{' '}
-                              <strong>
-                                $
-                                {parseFloat(
-                                  accountData.balance.available,
-                                ).toLocaleString('en-US', {
-                                  minimumFractionDigits: 2,
-                                })}
-                              </strong>
-                            </Typography>
-                            <Typography
-                              variant="body2"
-                              color="text.secondary"
-                              sx={{ mb: 0.5 }}
-                            >
-                              Locked:{' '}
-                              <strong>
-                                $
-                                {parseFloat(
-                                  accountData.balance.locked,
-                                ).toLocaleString('en-US', {
-                                  minimumFractionDigits: 2,
-                                })}
-                              </strong>
+                            <Typography variant="body2" sx={{ mb: 1 }}>
+                              Total:{' '}
+                              {(() => {
+                                const total = sumConverted(
+                                  accountData.balances.map((balance) =>
+                                    getBalanceValue(
+                                      balance,
+                                      reportingCurrency,
+                                      livePrices,
+                                    ),
+                                  ),
+                                );
+                                return total === null ? (
+                                  <Box component="span" color="warning.main">
+                                    N/A - no price to convert into{' '}
+                                    {reportingCurrency}
+                                  </Box>
+                                ) : (
+                                  <strong>
+                                    {formatNumber(
+                                      total,
+                                      getCoinDecimals(reportingCurrency),
+                                    )}{' '}
+                                    {reportingCurrency}
+                                  </strong>
+                                );
+                              })()}
                             </Typography>
-                            {accountData.balance.unrealizedPL && (
-                              <Typography
-                                variant="body2"
-                                color={
-                                  parseFloat(
-                                    accountData.balance.unrealizedPL,
-                                  ) >= 0
-                                    ? 'success.main'
-                                    : 'error.main'
-                                }
-                                sx={{ fontWeight: 'bold' }}
-                              >
-                                Unrealized P&L: $
-                                {parseFloat(
-                                  accountData.balance.unrealizedPL,
-                                ).toFixed(2)}
-                              </Typography>
+                            {getFundedBalances(accountData.balances).map(
+                              (balance) => {
+                                const decimals = getCoinDecimals(
+                                  balance.marginCoin,
+                                );
+                                return (
+                                  <Box
+                                    key={`${balance.productType}:${balance.marginCoin}`}
+                                    sx={{ mb: 1 }}
+                                  >
+                                    <Typography
+                                      variant="caption"
+                                      display="block"
+                                      color="text.secondary"
+                                    >
+                                      {PRODUCT_TYPE_LABELS[balance.productType]}{' '}
+                                      - {balance.marginCoin}
+                                    </Typography>
+                                    <Typography
+                                      variant="body2"
+                                      color="text.secondary"
+                                    >
+                                      Equity:{' '}
+                                      <strong>
+                                        {formatNumber(balance.equity, decimals)}
+                                      </strong>{' '}
+                                      Available:{' '}
+                                      <strong>
+                                        {formatNumber(
+                                          balance.available,
+                                          decimals,
+                                        )}
+                                      </strong>{' '}
+                                      Locked:{' '}
+                                      <strong>
+                                        {formatNumber(balance.locked, decimals)}
+                                      </strong>
+                                    </Typography>
+                                    {balance.unrealizedPL !== 0 && (
+                                      <Typography
+                                        variant="body2"
+                                        color={
+                                          balance.unrealizedPL >= 0
+                                            ? 'success.main'
+                                            : 'error.main'
+                                        }
+                                        sx={{ fontWeight: 'bold' }}
+                                      >
+                                        Unrealized P&L:{' '}
+                                        {formatNumber(
+                                          balance.unrealizedPL,
+                                          decimals,
+                                        )}{' '}
+                                        {balance.marginCoin}
+                                      </Typography>
+                                    )}
+                                  </Box>
+                                );
+                              },
                             )}
                           </>
                         ) : (
@@ -904,8 +1626,7 @@ function App() {
                             accountData.positions.filter(
                               (position) =>
                                 position.symbol === selectedApiSymbol &&
-                                position.total &&
-                                parseFloat(position.total) !== 0,
+                                position.size !== 0,
                             );
 
                           return filteredPositions.length > 0 ? (
@@ -937,33 +1658,27 @@ function App() {
                                       display="block"
                                       color="text.secondary"
                                     >
-                                      Size: {position.total}
+                                      Size: {position.size}
                                     </Typography>
                                     <Typography
                                       variant="caption"
                                       display="block"
                                       color="text.secondary"
                                     >
-                                      Avg: $
-                                      {parseFloat(
-                                        position.averageOpenPrice,
-                                      ).toFixed(2)}
+                                      Avg: ${position.entryPrice.toFixed(2)}
                                     </Typography>
                                   </Box>
                                   <Box sx={{ textAlign: 'right' }}>
                                     <Typography
                                       variant="body2"
                                       color={
-                                        parseFloat(position.unrealizedPL) >= 0
+                                        position.unrealizedPL >= 0
                                           ? 'success.main'
                                           : 'error.main'
                                       }
                                       sx={{ fontWeight: 'bold' }}
                                     >
-                                      $
-                                      {parseFloat(
-                                        position.unrealizedPL,
-                                      ).toFixed(2)}
+                                      ${position.unrealizedPL.toFixed(2)}
                                     </Typography>
                                     <Typography
                                       variant="caption"
@@ -1011,54 +1726,24 @@ function App() {
                           const filteredOrders = accountData.orders.filter(
                             (order) => order.symbol === selectedApiSymbol,
                           );
+                          const filteredPlanOrders =
+                            accountData.planOrders.filter(
+                              (order) => order.symbol === selectedApiSymbol,
+                            );
 
-                          return filteredOrders.length > 0 ? (
-                            filteredOrders.map((order, index) => (
-                              <Paper
-                                key={index}
-                                sx={{ p: 1.5, mb: 1, bgcolor: 'grey.50' }}
-                              >
-                                <Box
-                                  sx={{
-                                    display: 'flex',
-                                    justifyContent: 'space-between',
-                                    alignItems: 'center',
-                                  }}
+                          return filteredOrders.length > 0 ||
+                            filteredPlanOrders.length > 0 ? (
+                            <>
+                              {filteredOrders.map((order, index) => (
+                                <Paper
+                                  key={index}
+                                  sx={{ p: 1.5, mb: 1, bgcolor: 'grey.50' }}
                                 >
-                                  <Box>
-                                    <Typography
-                                      variant="body2"
-                                      sx={{ fontWeight: 'bold' }}
-                                    >
-                                      {order.orderType.toUpperCase()}
-                                    </Typography>
-                                    <Chip
-                                      label={order.side
-                                        .replace('_', ' ')
-                                        .toUpperCase()}
-                                      color={
-                                        order.side.includes('long')
-                                          ? 'success'
-                                          : 'error'
-                                      }
-                                      size="small"
-                                      sx={{ mb: 0.5 }}
-                                    />
-                                    <Typography
-                                      variant="caption"
-                                      display="block"
-                                      color="text.secondary"
-                                    >
-                                      Size: {order.size} @ $
-                                      {parseFloat(order.price).toFixed(2)}
-                                    </Typography>
-                                  </Box>
                                   <Box
                                     sx={{
-                                      textAlign: 'right',
                                       display: 'flex',
+                                      justifyContent: 'space-between',
                                       alignItems: 'center',
-                                      gap: 1,
                                     }}
                                   >
                                     <Box>
@@ -1066,29 +1751,81 @@ function App() {
                                         variant="body2"
                                         sx={{ fontWeight: 'bold' }}
                                       >
-                                        $
-                                        {(
-                                          parseFloat(order.size) *
-                                          parseFloat(order.price)
-                                        ).toFixed(2)}
+                                        {order.orderType.toUpperCase()}
+                                      </Typography>
+                                      <Chip
+                                        label={order.side
+                                          .replace('_', ' ')
+                                          .toUpperCase()}
+                                        color={
+                                          order.side.includes('long')
+                                            ? 'success'
+                                            : 'error'
+                                        }
+                                        size="small"
+                                        sx={{ mb: 0.5 }}
+                                      />
+                                      <Typography
+                                        variant="caption"
+                                        display="block"
+                                        color="text.secondary"
+                                      >
+                                        Size: {order.size} @ $
+                                        {order.price.toFixed(2)}
                                       </Typography>
                                     </Box>
-                                    <IconButton
-                                      size="small"
-                                      color="error"
-                                      onClick={() =>
-                                        handleCancelOrder(
-                                          order,
-                                          accountData.account.id,
-                                        )
-                                      }
+                                    <Box
+                                      sx={{
+                                        textAlign: 'right',
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        gap: 1,
+                                      }}
                                     >
-                                      <Cancel fontSize="small" />
-                                    </IconButton>
+                                      <Box>
+                                        <Typography
+                                          variant="body2"
+                                          sx={{ fontWeight: 'bold' }}
+                                        >
+                                          $
+                                          {(order.size * order.price).toFixed(
+                                            2,
+                                          )}
+                                        </Typography>
+                                      </Box>
+                                      <IconButton
+                                        size="small"
+                                        color="error"
+                                        onClick={() =>
+                                          handleCancelOrder(
+                                            order,
+                                            accountData.account.id,
+                                          )
+                                        }
+                                      >
+                                        <Cancel fontSize="small" />
+                                      </IconButton>
+                                    </Box>
                                   </Box>
-                                </Box>
-                              </Paper>
-                            ))
+                                </Paper>
+                              ))}
+                              <PlanOrderList
+                                orders={filteredPlanOrders}
+                                onCancel={(order) =>
+                                  handleCancelPlanOrder(
+                                    order,
+                                    accountData.account.id,
+                                  )
+                                }
+                                onModify={(order, triggerPrice) =>
+                                  handleModifyPlanOrder(
+                                    order,
+                                    accountData.account.id,
+                                    triggerPrice,
+                                  )
+                                }
+                              />
+                            </>
                           ) : (
                             <Typography variant="body2" color="text.secondary">
                               No orders for {selectedSymbol}
@@ -1104,6 +1841,25 @@ function App() {
           ))}
         </Grid>
       </Container>
+
+      {settingsOpen && config && (
+        <SettingsDialog
+          config={config}
+          onClose={() => setSettingsOpen(false)}
+          onSave={handleSaveSettings}
+          onExport={handleExportConfig}
+          onImport={handleImportConfig}
+          onReset={handleResetConfig}
+        />
+      )}
+
+      <CloseAllDialog
+        open={closeAllMode !== null}
+        accounts={enabledAccountsData}
+        cancelOrders={closeAllMode === 'positionsAndOrders'}
+        onClose={() => setCloseAllMode(null)}
+        onCompleted={fetchAccountData}
+      />
     </Box>
   );
 }
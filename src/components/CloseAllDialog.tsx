@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import type { BitgetAccount } from '../utils/bitgetApi';
+import {
+  closeAllPositions,
+  getExchangeClient,
+  type ClosePositionResult,
+  type Order,
+  type Position,
+} from '../utils/exchangeClient';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Chip,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+
+interface CloseAllAccount {
+  account: BitgetAccount;
+  positions: Position[];
+  orders: Order[];
+}
+
+interface AccountCloseResult {
+  account: BitgetAccount;
+  positions: ClosePositionResult[];
+  cancelledOrders: number;
+  failedOrders: number;
+}
+
+interface CloseAllDialogProps {
+  open: boolean;
+  accounts: CloseAllAccount[];
+  cancelOrders: boolean;
+  onClose: () => void;
+  onCompleted: () => void;
+}
+
+// Only positions with a non-zero size can be closed
+const getOpenPositions = (positions: Position[]) =>
+  positions.filter((position) => position.size !== 0);
+
+// Confirm dialog that flash-closes every position across all given accounts
+const CloseAllDialog = ({
+  open,
+  accounts,
+  cancelOrders,
+  onClose,
+  onCompleted,
+}: CloseAllDialogProps) => {
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<AccountCloseResult[] | null>(null);
+
+  const handleConfirm = async () => {
+    setRunning(true);
+
+    // Run closes for all accounts in parallel
+    const accountResults = await Promise.all(
+      accounts.map(async ({ account, positions, orders }) => {
+        let cancelledOrders = 0;
+        let failedOrders = 0;
+
+        if (cancelOrders) {
+          const cancelResults = await Promise.allSettled(
+            orders.map((order) =>
+              getExchangeClient().cancelOrder(account, order),
+            ),
+          );
+          cancelResults.forEach((result) => {
+            if (result.status === 'fulfilled') {
+              cancelledOrders++;
+            } else {
+              failedOrders++;
+              console.error(
+                `❌ Failed to cancel order for ${account.name}:`,
+                result.reason,
+              );
+            }
+          });
+        }
+
+        const positionResults = await closeAllPositions(
+          account,
+          getOpenPositions(positions),
+        );
+
+        return {
+          account,
+          positions: positionResults,
+          cancelledOrders,
+          failedOrders,
+        };
+      }),
+    );
+
+    setResults(accountResults);
+    setRunning(false);
+    onCompleted();
+  };
+
+  const handleClose = () => {
+    if (running) return;
+    setResults(null);
+    onClose();
+  };
+
+  const totalPositions = accounts.reduce(
+    (sum, { positions }) => sum + getOpenPositions(positions).length,
+    0,
+  );
+  const totalOrders = accounts.reduce(
+    (sum, { orders }) => sum + orders.length,
+    0,
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {cancelOrders
+          ? 'Close All Positions & Cancel All Orders'
+          : 'Close All Positions'}
+      </DialogTitle>
+      <DialogContent dividers>
+        {!results ? (
+          <>
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {totalPositions} position(s)
+              {cancelOrders && ` and ${totalOrders} order(s)`} will be closed at
+              market price across {accounts.length} account(s).
+            </Alert>
+            {accounts.map(({ account, positions, orders }) => (
+              <Box key={account.id} sx={{ mb: 2 }}>
+                <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                  {account.name}
+                </Typography>
+                {getOpenPositions(positions).length > 0 ? (
+                  getOpenPositions(positions).map((position) => (
+                    <Box
+                      key={`${position.symbol}-${position.holdSide}`}
+                      sx={{ display: 'flex', alignItems: 'center', gap: 1 }}
+                    >
+                      <Chip
+                        label={position.holdSide.toUpperCase()}
+                        color={
+                          position.holdSide === 'long' ? 'success' : 'error'
+                        }
+                        size="small"
+                      />
+                      <Typography variant="body2">
+                        {position.symbol} - Size: {position.size}
+                      </Typography>
+                    </Box>
+                  ))
+                ) : (
+                  <Typography variant="body2" color="text.secondary">
+                    No open positions
+                  </Typography>
+                )}
+                {cancelOrders && orders.length > 0 && (
+                  <Typography variant="body2" color="text.secondary">
+                    {orders.length} open order(s) to cancel
+                  </Typography>
+                )}
+              </Box>
+            ))}
+          </>
+        ) : (
+          results.map((result) => (
+            <Box key={result.account.id} sx={{ mb: 2 }}>
+              <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                {result.account.name}
+              </Typography>
+              {result.positions.map((positionResult) => (
+                <Box
+                  key={`${positionResult.position.symbol}-${positionResult.position.holdSide}`}
+                  sx={{ display: 'flex', alignItems: 'center', gap: 1 }}
+                >
+                  <Chip
+                    label={positionResult.success ? 'CLOSED' : 'FAILED'}
+                    color={positionResult.success ? 'success' : 'error'}
+                    size="small"
+                  />
+                  <Typography variant="body2">
+                    {positionResult.position.symbol}{' '}
+                    {positionResult.position.holdSide.toUpperCase()}
+                    {positionResult.error && ` - ${positionResult.error}`}
+                  </Typography>
+                </Box>
+              ))}
+              {cancelOrders && (
+                <Typography variant="body2" color="text.secondary">
+                  Orders cancelled: {result.cancelledOrders}
+                  {result.failedOrders > 0 &&
+                    `, failed: ${result.failedOrders}`}
+                </Typography>
+              )}
+            </Box>
+          ))
+        )}
+      </DialogContent>
+      <DialogActions>
+        {!results ? (
+          <>
+            <Button onClick={handleClose} disabled={running}>
+              Cancel
+            </Button>
+            <Button
+              color="error"
+              variant="contained"
+              onClick={handleConfirm}
+              disabled={running}
+              startIcon={running ? <CircularProgress size={16} /> : undefined}
+            >
+              {running ? 'Closing...' : 'Confirm'}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={handleClose}>Done</Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CloseAllDialog;
@@ -0,0 +1,380 @@
+import { useState, useMemo } from 'react';
+import {
+  getPortfolioSeries,
+  getReturn,
+  getDrawdownSeries,
+  getDailyPnl,
+  type EquityHistory,
+} from '../utils/equityHistory';
+import type { ConfigAccount } from '../utils/config';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { ShowChart } from '@mui/icons-material';
+
+interface EquityPanelProps {
+  accounts: ConfigAccount[];
+  history: EquityHistory;
+}
+
+type ChartType = 'equity' | 'drawdown' | 'daily' | 'split';
+type ChartRange = '7d' | '30d' | 'all';
+
+const DAY = 24 * 60 * 60 * 1000;
+const RANGES: { [range in ChartRange]: number } = {
+  '7d': 7 * DAY,
+  '30d': 30 * DAY,
+  all: Infinity,
+};
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 200;
+const SPLIT_COLORS = ['#2196f3', '#ff9800', '#9c27b0', '#4caf50', '#f44336'];
+
+const formatAmount = (value: number): string =>
+  value.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const formatPct = (value: number): string =>
+  `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+interface LineChartProps {
+  points: { x: number; y: number }[];
+  color: string;
+  fill?: boolean;
+}
+
+// Line over the full width of the chart, scaled to the value range
+const LineChart = ({ points, color, fill }: LineChartProps) => {
+  const minX = points[0].x;
+  const maxX = points[points.length - 1].x;
+  const minY = Math.min(...points.map((p) => p.y));
+  const maxY = Math.max(...points.map((p) => p.y));
+  const scaleX = (x: number) =>
+    maxX > minX ? ((x - minX) / (maxX - minX)) * CHART_WIDTH : CHART_WIDTH / 2;
+  const scaleY = (y: number) =>
+    maxY > minY
+      ? CHART_HEIGHT - ((y - minY) / (maxY - minY)) * CHART_HEIGHT
+      : CHART_HEIGHT / 2;
+  const line = points.map((p) => `${scaleX(p.x)},${scaleY(p.y)}`).join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      width="100%"
+      height={CHART_HEIGHT}
+    >
+      {fill && (
+        <polygon
+          points={`${scaleX(minX)},0 ${line} ${scaleX(maxX)},0`}
+          fill={color}
+          fillOpacity={0.2}
+        />
+      )}
+      <polyline
+        points={line}
+        fill="none"
+        stroke={color}
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+};
+
+interface BarChartProps {
+  bars: { key: string; value: number }[];
+  positiveColor: string;
+  negativeColor: string;
+}
+
+// Bars around a zero line, green above and red below
+const BarChart = ({ bars, positiveColor, negativeColor }: BarChartProps) => {
+  const maxAbs = Math.max(...bars.map((bar) => Math.abs(bar.value)), 1e-9);
+  const barWidth = CHART_WIDTH / bars.length;
+  const zero = CHART_HEIGHT / 2;
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      width="100%"
+      height={CHART_HEIGHT}
+    >
+      {bars.map((bar, i) => {
+        const height = (Math.abs(bar.value) / maxAbs) * zero;
+        return (
+          <rect
+            key={bar.key}
+            x={i * barWidth + barWidth * 0.1}
+            y={bar.value >= 0 ? zero - height : zero}
+            width={barWidth * 0.8}
+            height={height}
+            fill={bar.value >= 0 ? positiveColor : negativeColor}
+          >
+            <title>{`${bar.key}: ${formatAmount(bar.value)}`}</title>
+          </rect>
+        );
+      })}
+      <line
+        x1={0}
+        x2={CHART_WIDTH}
+        y1={zero}
+        y2={zero}
+        stroke="currentColor"
+        strokeOpacity={0.3}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+};
+
+// Equity curve, drawdown, daily P&L and equity split from the recorded
+// snapshots. Returns are measured against the configured starting equity.
+const EquityPanel = ({ accounts, history }: EquityPanelProps) => {
+  const theme = useTheme();
+  const [chartType, setChartType] = useState<ChartType>('equity');
+  const [range, setRange] = useState<ChartRange>('30d');
+  const [accountId, setAccountId] = useState('all');
+
+  const selectedAccounts = useMemo(
+    () =>
+      accountId === 'all'
+        ? accounts
+        : accounts.filter((account) => account.id === accountId),
+    [accounts, accountId],
+  );
+  const baseline = selectedAccounts.reduce(
+    (sum, account) => sum + (account.equity || 0),
+    0,
+  );
+
+  const series = useMemo(() => {
+    const full = getPortfolioSeries(
+      history,
+      selectedAccounts.map((account) => account.id),
+    );
+    const last = full[full.length - 1];
+    return last
+      ? full.filter((point) => last.time - point.time <= RANGES[range])
+      : full;
+  }, [history, selectedAccounts, range]);
+
+  const drawdown = useMemo(
+    () => getDrawdownSeries(series, baseline),
+    [series, baseline],
+  );
+  const daily = useMemo(() => getDailyPnl(series), [series]);
+
+  const currentEquity = series[series.length - 1]?.equity ?? 0;
+  const totalReturn = getReturn(series, baseline);
+  const maxDrawdown = Math.min(0, ...drawdown.map((point) => point.drawdown));
+
+  // Latest snapshot of every account, for the split
+  const split = accounts
+    .map((account) => {
+      const points = history[account.id] ?? [];
+      return {
+        account,
+        equity: points[points.length - 1]?.equity ?? 0,
+      };
+    })
+    .filter((entry) => entry.equity > 0);
+  const splitTotal = split.reduce((sum, entry) => sum + entry.equity, 0);
+
+  const renderChart = () => {
+    if (chartType === 'split') {
+      if (split.length === 0) return null;
+      return (
+        <Box>
+          <Box
+            sx={{
+              display: 'flex',
+              height: 24,
+              borderRadius: 1,
+              overflow: 'hidden',
+              mb: 1,
+            }}
+          >
+            {split.map((entry, i) => (
+              <Box
+                key={entry.account.id}
+                title={entry.account.name}
+                sx={{
+                  width: `${(entry.equity / splitTotal) * 100}%`,
+                  bgcolor: SPLIT_COLORS[i % SPLIT_COLORS.length],
+                }}
+              />
+            ))}
+          </Box>
+          {split.map((entry, i) => (
+            <Box
+              key={entry.account.id}
+              sx={{ display: 'flex', alignItems: 'center', gap: 1 }}
+            >
+              <Box
+                sx={{
+                  width: 12,
+                  height: 12,
+                  borderRadius: '2px',
+                  bgcolor: SPLIT_COLORS[i % SPLIT_COLORS.length],
+                }}
+              />
+              <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                {entry.account.name}
+              </Typography>
+              <Typography variant="body2">
+                ${formatAmount(entry.equity)} (
+                {((entry.equity / splitTotal) * 100).toFixed(1)}%)
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+      );
+    }
+
+    if (series.length < 2) return null;
+
+    if (chartType === 'daily') {
+      return (
+        <BarChart
+          bars={daily.map((day) => ({ key: day.day, value: day.pnl }))}
+          positiveColor={theme.palette.success.main}
+          negativeColor={theme.palette.error.main}
+        />
+      );
+    }
+
+    if (chartType === 'drawdown') {
+      return (
+        <LineChart
+          points={drawdown.map((point) => ({
+            x: point.time,
+            y: point.drawdown,
+          }))}
+          color={theme.palette.error.main}
+          fill
+        />
+      );
+    }
+
+    return (
+      <LineChart
+        points={series.map((point) => ({ x: point.time, y: point.equity }))}
+        color={theme.palette.primary.main}
+      />
+    );
+  };
+
+  const chart = renderChart();
+
+  return (
+    <Card>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            flexWrap: 'wrap',
+            gap: 1,
+            mb: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <ShowChart sx={{ mr: 1 }} />
+            <Typography variant="h6">Performance</Typography>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FormControl size="small" sx={{ minWidth: 140 }}>
+              <InputLabel>Account</InputLabel>
+              <Select
+                label="Account"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+              >
+                <MenuItem value="all">Portfolio</MenuItem>
+                {accounts.map((account) => (
+                  <MenuItem key={account.id} value={account.id}>
+                    {account.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <ToggleButtonGroup
+              value={chartType}
+              exclusive
+              size="small"
+              onChange={(_, value) => value && setChartType(value)}
+            >
+              <ToggleButton value="equity">Equity</ToggleButton>
+              <ToggleButton value="drawdown">Drawdown</ToggleButton>
+              <ToggleButton value="daily">Daily P&L</ToggleButton>
+              <ToggleButton value="split">Split</ToggleButton>
+            </ToggleButtonGroup>
+            <ToggleButtonGroup
+              value={range}
+              exclusive
+              size="small"
+              onChange={(_, value) => value && setRange(value)}
+            >
+              <ToggleButton value="7d">7D</ToggleButton>
+              <ToggleButton value="30d">30D</ToggleButton>
+              <ToggleButton value="all">All</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 4, mb: 2, flexWrap: 'wrap' }}>
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              Equity
+            </Typography>
+            <Typography variant="h6">${formatAmount(currentEquity)}</Typography>
+          </Box>
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              Return{baseline > 0 ? ` on $${formatAmount(baseline)}` : ''}
+            </Typography>
+            <Typography
+              variant="h6"
+              sx={{
+                color: totalReturn >= 0 ? 'success.main' : 'error.main',
+              }}
+            >
+              {formatPct(totalReturn)}
+            </Typography>
+          </Box>
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              Max drawdown
+            </Typography>
+            <Typography variant="h6" sx={{ color: 'error.main' }}>
+              {formatPct(maxDrawdown)}
+            </Typography>
+          </Box>
+        </Box>
+
+        {chart ?? (
+          <Typography variant="body2" color="text.secondary">
+            Not enough equity history yet
+          </Typography>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EquityPanel;
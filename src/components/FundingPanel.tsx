@@ -0,0 +1,294 @@
+import { useState, useEffect, useMemo } from 'react';
+import { assessHedgeFunding, type PositionFunding } from '../utils/funding';
+import type { LedgerFunding } from '../utils/ledger';
+import { loadLedgerData } from '../utils/ledgerStore';
+import type { BitgetAccount } from '../utils/bitgetApi';
+import type { HedgeTarget } from '../utils/config';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { Percent } from '@mui/icons-material';
+
+interface FundingPanelProps {
+  accounts: BitgetAccount[];
+  positionFunding: PositionFunding[];
+  targets: HedgeTarget[];
+}
+
+// Settled funding comes from the ledger, which syncs it in the background
+const HISTORY_REFRESH_INTERVAL = 5 * 60000;
+const MAX_HISTORY_ROWS = 20;
+
+const formatAmount = (value: number): string =>
+  `${value >= 0 ? '+' : ''}${value.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 4,
+  })}`;
+
+const formatRate = (rate: number | null): string =>
+  rate === null ? '-' : `${(rate * 100).toFixed(4)}%`;
+
+const formatCountdown = (time: number | null, now: number): string => {
+  if (time === null) return '-';
+  const seconds = Math.max(0, Math.floor((time - now) / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}h ${minutes.toString().padStart(2, '0')}m ${(seconds % 60)
+    .toString()
+    .padStart(2, '0')}s`;
+};
+
+const amountColor = (value: number) =>
+  value > 0 ? 'success.main' : value < 0 ? 'error.main' : undefined;
+
+// Current funding rates of the open positions, the projected next payment
+// per position and hedge, and what has been received and paid so far
+const FundingPanel = ({
+  accounts,
+  positionFunding,
+  targets,
+}: FundingPanelProps) => {
+  const [history, setHistory] = useState<LedgerFunding[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const load = () =>
+      loadLedgerData()
+        .then((data) => setHistory(data.funding))
+        .catch((error) => console.error('❌ Error loading funding:', error));
+    load();
+    const interval = setInterval(load, HISTORY_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const accountNames = useMemo(
+    () =>
+      Object.fromEntries(accounts.map((account) => [account.id, account.name])),
+    [accounts],
+  );
+
+  const hedges = useMemo(
+    () => assessHedgeFunding(targets, positionFunding, history),
+    [targets, positionFunding, history],
+  );
+
+  const accountHistory = useMemo(
+    () =>
+      history
+        .filter((bill) => accountNames[bill.accountId] !== undefined)
+        .sort((a, b) => parseInt(b.cTime, 10) - parseInt(a.cTime, 10)),
+    [history, accountNames],
+  );
+  const received = accountHistory.reduce(
+    (sum, bill) => sum + Math.max(0, parseFloat(bill.amount) || 0),
+    0,
+  );
+  const paid = accountHistory.reduce(
+    (sum, bill) => sum + Math.min(0, parseFloat(bill.amount) || 0),
+    0,
+  );
+  const projected = positionFunding.reduce(
+    (sum, funding) => sum + funding.payment,
+    0,
+  );
+
+  return (
+    <Card>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            flexWrap: 'wrap',
+            gap: 1,
+            mb: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <Percent sx={{ mr: 1 }} />
+            <Typography variant="h6">Funding</Typography>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <Typography variant="body2">
+              Next:{' '}
+              <Box component="span" sx={{ color: amountColor(projected) }}>
+                {formatAmount(projected)} USDT
+              </Box>
+            </Typography>
+            <Typography variant="body2">
+              Received:{' '}
+              <Box component="span" sx={{ color: 'success.main' }}>
+                {formatAmount(received)}
+              </Box>
+            </Typography>
+            <Typography variant="body2">
+              Paid:{' '}
+              <Box component="span" sx={{ color: 'error.main' }}>
+                {formatAmount(paid)}
+              </Box>
+            </Typography>
+          </Box>
+        </Box>
+
+        {positionFunding.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No open positions
+          </Typography>
+        ) : (
+          <Table size="small" sx={{ mb: 2 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Account</TableCell>
+                <TableCell>Position</TableCell>
+                <TableCell align="right">Rate</TableCell>
+                <TableCell align="right">Next funding</TableCell>
+                <TableCell align="right">Projected</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {positionFunding.map((funding) => (
+                <TableRow
+                  key={`${funding.accountId}:${funding.position.symbol}:${funding.position.holdSide}`}
+                >
+                  <TableCell>{funding.accountName}</TableCell>
+                  <TableCell>
+                    {funding.position.symbol}{' '}
+                    {funding.position.holdSide.toUpperCase()}{' '}
+                    {funding.position.size}
+                  </TableCell>
+                  <TableCell align="right">
+                    {formatRate(funding.fundingRate)}
+                  </TableCell>
+                  <TableCell align="right">
+                    {formatCountdown(funding.nextFundingTime, now)}
+                  </TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{ color: amountColor(funding.payment) }}
+                  >
+                    {formatAmount(funding.payment)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {hedges.length > 0 && (
+          <>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              Hedges
+            </Typography>
+            <Table size="small" sx={{ mb: 2 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Symbol</TableCell>
+                  <TableCell align="right">Long leg</TableCell>
+                  <TableCell align="right">Short leg</TableCell>
+                  <TableCell align="right">Net next</TableCell>
+                  <TableCell align="right">Settled</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {hedges.map((hedge) => (
+                  <TableRow
+                    key={`${hedge.target.symbol}:${hedge.target.longAccountId}:${hedge.target.shortAccountId}`}
+                  >
+                    <TableCell>
+                      {hedge.target.symbol}{' '}
+                      <Typography
+                        component="span"
+                        variant="caption"
+                        color="text.secondary"
+                      >
+                        {accountNames[hedge.target.longAccountId] ??
+                          hedge.target.longAccountId}{' '}
+                        /{' '}
+                        {accountNames[hedge.target.shortAccountId] ??
+                          hedge.target.shortAccountId}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatAmount(hedge.longPayment)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatAmount(hedge.shortPayment)}
+                    </TableCell>
+                    <TableCell
+                      align="right"
+                      sx={{ color: amountColor(hedge.net), fontWeight: 'bold' }}
+                    >
+                      {formatAmount(hedge.net)}
+                    </TableCell>
+                    <TableCell
+                      align="right"
+                      sx={{ color: amountColor(hedge.settled) }}
+                    >
+                      {formatAmount(hedge.settled)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+
+        {accountHistory.length > 0 && (
+          <>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              Funding history
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Time</TableCell>
+                  <TableCell>Account</TableCell>
+                  <TableCell>Symbol</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {accountHistory.slice(0, MAX_HISTORY_ROWS).map((bill) => {
+                  const amount = parseFloat(bill.amount) || 0;
+                  return (
+                    <TableRow key={`${bill.accountId}-${bill.id}`}>
+                      <TableCell>
+                        {new Date(parseInt(bill.cTime, 10)).toLocaleString()}
+                      </TableCell>
+                      <TableCell>{accountNames[bill.accountId]}</TableCell>
+                      <TableCell>
+                        {bill.symbol.replace(/_UMCBL$/, '')}
+                      </TableCell>
+                      <TableCell
+                        align="right"
+                        sx={{ color: amountColor(amount) }}
+                      >
+                        {formatAmount(amount)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FundingPanel;
@@ -0,0 +1,213 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  evaluateHedges,
+  executeRebalance,
+  type RebalanceResult,
+} from '../utils/hedgeEngine';
+import type { HedgeTarget } from '../utils/config';
+import type { BitgetAccount } from '../utils/bitgetApi';
+import type { Position } from '../utils/exchangeClient';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Chip,
+  Switch,
+  FormControlLabel,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Alert,
+} from '@mui/material';
+import { Balance } from '@mui/icons-material';
+
+interface HedgePanelProps {
+  targets: HedgeTarget[];
+  defaultAutoExecute: boolean;
+  accounts: { account: BitgetAccount; positions: Position[] }[];
+  loading: boolean;
+  onExecuted: () => void;
+}
+
+// Pushed positions can lag behind a fill, so automatic runs are spaced out
+// to avoid placing the same rebalance twice
+const AUTO_EXECUTE_COOLDOWN = 30000;
+
+// Hedge engine status with proposed and automatic rebalancing orders
+const HedgePanel = ({
+  targets,
+  defaultAutoExecute,
+  accounts,
+  loading,
+  onExecuted,
+}: HedgePanelProps) => {
+  const [autoExecute, setAutoExecute] = useState(defaultAutoExecute);
+  const [executing, setExecuting] = useState(false);
+  const [results, setResults] = useState<RebalanceResult[]>([]);
+  const executingRef = useRef(false);
+  const lastExecuteRef = useRef(0);
+
+  const statuses = evaluateHedges(targets, accounts);
+  const proposals = statuses.flatMap((status) =>
+    status.proposal ? [status.proposal] : [],
+  );
+
+  const getAccountName = (accountId: string) =>
+    accounts.find((data) => data.account.id === accountId)?.account.name ??
+    accountId;
+
+  const handleExecute = async () => {
+    if (executingRef.current || proposals.length === 0) return;
+    executingRef.current = true;
+    setExecuting(true);
+
+    const rebalanceResults = await executeRebalance(
+      accounts.map((data) => data.account),
+      proposals,
+    );
+    rebalanceResults
+      .filter((result) => !result.success)
+      .forEach((result) =>
+        console.error(
+          `❌ Hedge rebalance failed for ${result.proposal.symbol}:`,
+          result.error,
+        ),
+      );
+
+    // The cooldown runs from when the orders were placed
+    lastExecuteRef.current = Date.now();
+    setResults(rebalanceResults);
+    setExecuting(false);
+    executingRef.current = false;
+    onExecuted();
+  };
+
+  // Auto-execute proposals once account data has settled
+  useEffect(() => {
+    if (
+      autoExecute &&
+      !loading &&
+      !executingRef.current &&
+      proposals.length > 0 &&
+      Date.now() - lastExecuteRef.current > AUTO_EXECUTE_COOLDOWN
+    ) {
+      lastExecuteRef.current = Date.now();
+      handleExecute();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [autoExecute, loading, accounts]);
+
+  return (
+    <Card sx={{ height: '100%' }}>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            mb: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <Balance sx={{ mr: 1 }} />
+            <Typography variant="h6">Hedge Engine</Typography>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  checked={autoExecute}
+                  onChange={(e) => setAutoExecute(e.target.checked)}
+                />
+              }
+              label="Auto"
+            />
+            <Button
+              variant="contained"
+              size="small"
+              disabled={executing || loading || proposals.length === 0}
+              onClick={handleExecute}
+            >
+              {executing ? 'Rebalancing...' : 'Rebalance'}
+            </Button>
+          </Box>
+        </Box>
+
+        {targets.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No hedge targets configured
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Symbol</TableCell>
+                <TableCell>Legs</TableCell>
+                <TableCell align="right">Long</TableCell>
+                <TableCell align="right">Short</TableCell>
+                <TableCell align="right">Target Short</TableCell>
+                <TableCell align="right">Deviation</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>Proposal</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {statuses.map((status) => (
+                <TableRow key={status.target.symbol}>
+                  <TableCell>{status.target.symbol}</TableCell>
+                  <TableCell>
+                    {getAccountName(status.target.longAccountId)} /{' '}
+                    {getAccountName(status.target.shortAccountId)}
+                  </TableCell>
+                  <TableCell align="right">{status.longSize}</TableCell>
+                  <TableCell align="right">{status.shortSize}</TableCell>
+                  <TableCell align="right">
+                    {status.targetShort.toFixed(4)}
+                  </TableCell>
+                  <TableCell align="right">
+                    {status.deviation.toFixed(4)}
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      label={status.inBand ? 'HEDGED' : 'OUT OF BAND'}
+                      color={status.inBand ? 'success' : 'warning'}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {status.proposal
+                      ? `${status.proposal.side
+                          .replace('_', ' ')
+                          .toUpperCase()} ${status.proposal.size} on ${getAccountName(
+                          status.proposal.accountId,
+                        )}`
+                      : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {results.map((result, index) => (
+          <Alert
+            key={index}
+            severity={result.success ? 'success' : 'error'}
+            sx={{ mt: 1 }}
+          >
+            {result.proposal.symbol}{' '}
+            {result.proposal.side.replace('_', ' ').toUpperCase()}{' '}
+            {result.proposal.size}: {result.success ? 'placed' : result.error}
+          </Alert>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HedgePanel;
@@ -0,0 +1,375 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  syncLedger,
+  summarizeLedger,
+  toCsv,
+  downloadCsv,
+  type LedgerData,
+  type LedgerGroupBy,
+} from '../utils/ledger';
+import { loadLedgerData } from '../utils/ledgerStore';
+import type { BitgetAccount } from '../utils/bitgetApi';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Alert,
+} from '@mui/material';
+import { ReceiptLong, Sync, Download } from '@mui/icons-material';
+
+interface LedgerPanelProps {
+  accounts: BitgetAccount[];
+}
+
+const EMPTY_LEDGER: LedgerData = { orders: [], fills: [], funding: [] };
+const MAX_FILL_ROWS = 50;
+
+const formatAmount = (value: number): string =>
+  value.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const formatTime = (time: string): string =>
+  new Date(parseInt(time, 10)).toLocaleString();
+
+// Realized P&L, fees and funding from the locally stored order history,
+// per account or across all of them
+const LedgerPanel = ({ accounts }: LedgerPanelProps) => {
+  const [data, setData] = useState<LedgerData>(EMPTY_LEDGER);
+  const [groupBy, setGroupBy] = useState<LedgerGroupBy>('day');
+  const [accountId, setAccountId] = useState('all');
+  const [syncing, setSyncing] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [incomplete, setIncomplete] = useState<string[]>([]);
+
+  const accountNames = useMemo(
+    () =>
+      Object.fromEntries(accounts.map((account) => [account.id, account.name])),
+    [accounts],
+  );
+
+  const sync = useCallback(async () => {
+    setSyncing(true);
+    const results = await syncLedger(accounts);
+    setErrors(
+      results
+        .filter((result) => !result.success)
+        .map((result) => `${result.account.name}: ${result.error}`),
+    );
+    setIncomplete(
+      results
+        .filter((result) => result.success && !result.complete)
+        .map((result) => result.account.name),
+    );
+    try {
+      setData(await loadLedgerData());
+    } catch (error) {
+      console.error('❌ Error loading ledger:', error);
+    }
+    setSyncing(false);
+  }, [accounts]);
+
+  // Show what is stored right away, then fetch anything newer
+  useEffect(() => {
+    loadLedgerData()
+      .then(setData)
+      .catch((error) => console.error('❌ Error loading ledger:', error));
+    if (accounts.length > 0) {
+      sync();
+    }
+  }, [accounts, sync]);
+
+  const filtered = useMemo(() => {
+    if (accountId === 'all') return data;
+    const byAccount = <T extends { accountId: string }>(records: T[]) =>
+      records.filter((record) => record.accountId === accountId);
+    return {
+      orders: byAccount(data.orders),
+      fills: byAccount(data.fills),
+      funding: byAccount(data.funding),
+    };
+  }, [data, accountId]);
+
+  const rows = useMemo(
+    () => summarizeLedger(filtered, groupBy, accountNames),
+    [filtered, groupBy, accountNames],
+  );
+  const fills = useMemo(
+    () =>
+      [...filtered.fills].sort(
+        (a, b) => parseInt(b.cTime, 10) - parseInt(a.cTime, 10),
+      ),
+    [filtered],
+  );
+  const totals = rows.reduce(
+    (sum, row) => ({
+      realizedPnl: sum.realizedPnl + row.realizedPnl,
+      fees: sum.fees + row.fees,
+      funding: sum.funding + row.funding,
+      net: sum.net + row.net,
+    }),
+    { realizedPnl: 0, fees: 0, funding: 0, net: 0 },
+  );
+
+  const exportSummary = () =>
+    downloadCsv(
+      `ledger-by-${groupBy}.csv`,
+      toCsv(
+        [groupBy, 'realized_pnl', 'fees', 'funding', 'net', 'orders'],
+        rows.map((row) => [
+          row.key,
+          row.realizedPnl.toFixed(8),
+          row.fees.toFixed(8),
+          row.funding.toFixed(8),
+          row.net.toFixed(8),
+          row.orders,
+        ]),
+      ),
+    );
+
+  const exportFills = () =>
+    downloadCsv(
+      'fills.csv',
+      toCsv(
+        [
+          'time',
+          'account',
+          'symbol',
+          'side',
+          'price',
+          'size',
+          'fee',
+          'profit',
+          'order_id',
+          'trade_id',
+        ],
+        fills.map((fill) => [
+          new Date(parseInt(fill.cTime, 10)).toISOString(),
+          accountNames[fill.accountId] ?? fill.accountId,
+          fill.symbol.replace(/_UMCBL$/, ''),
+          fill.side,
+          fill.price,
+          fill.sizeQty,
+          fill.fee,
+          fill.profit,
+          fill.orderId,
+          fill.tradeId,
+        ]),
+      ),
+    );
+
+  const pnlColor = (value: number) =>
+    value > 0 ? 'success.main' : value < 0 ? 'error.main' : undefined;
+
+  return (
+    <Card>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            flexWrap: 'wrap',
+            gap: 1,
+            mb: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <ReceiptLong sx={{ mr: 1 }} />
+            <Typography variant="h6">Ledger</Typography>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FormControl size="small" sx={{ minWidth: 140 }}>
+              <InputLabel>Account</InputLabel>
+              <Select
+                label="Account"
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+              >
+                <MenuItem value="all">All accounts</MenuItem>
+                {accounts.map((account) => (
+                  <MenuItem key={account.id} value={account.id}>
+                    {account.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <ToggleButtonGroup
+              value={groupBy}
+              exclusive
+              size="small"
+              onChange={(_, value) => value && setGroupBy(value)}
+            >
+              <ToggleButton value="day">Day</ToggleButton>
+              <ToggleButton value="symbol">Symbol</ToggleButton>
+              <ToggleButton value="account">Account</ToggleButton>
+            </ToggleButtonGroup>
+            <Button
+              size="small"
+              startIcon={<Sync />}
+              disabled={syncing || accounts.length === 0}
+              onClick={sync}
+            >
+              {syncing ? 'Syncing...' : 'Sync'}
+            </Button>
+            <Button
+              size="small"
+              startIcon={<Download />}
+              disabled={rows.length === 0}
+              onClick={exportSummary}
+            >
+              Summary CSV
+            </Button>
+            <Button
+              size="small"
+              startIcon={<Download />}
+              disabled={fills.length === 0}
+              onClick={exportFills}
+            >
+              Fills CSV
+            </Button>
+          </Box>
+        </Box>
+
+        {errors.map((error) => (
+          <Alert key={error} severity="error" sx={{ mb: 1 }}>
+            {error}
+          </Alert>
+        ))}
+        {incomplete.length > 0 && (
+          <Alert severity="info" sx={{ mb: 1 }}>
+            Older history of {incomplete.join(', ')} is not loaded yet - sync
+            again to continue.
+          </Alert>
+        )}
+
+        {rows.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No order history yet
+          </Typography>
+        ) : (
+          <Table size="small" sx={{ mb: 2 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ textTransform: 'capitalize' }}>
+                  {groupBy}
+                </TableCell>
+                <TableCell align="right">Realized P&L</TableCell>
+                <TableCell align="right">Fees</TableCell>
+                <TableCell align="right">Funding</TableCell>
+                <TableCell align="right">Net</TableCell>
+                <TableCell align="right">Orders</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell>{row.key}</TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{ color: pnlColor(row.realizedPnl) }}
+                  >
+                    {formatAmount(row.realizedPnl)}
+                  </TableCell>
+                  <TableCell align="right">{formatAmount(row.fees)}</TableCell>
+                  <TableCell align="right">
+                    {formatAmount(row.funding)}
+                  </TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{ color: pnlColor(row.net), fontWeight: 'bold' }}
+                  >
+                    {formatAmount(row.net)}
+                  </TableCell>
+                  <TableCell align="right">{row.orders}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell sx={{ fontWeight: 'bold' }}>Total</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 'bold' }}>
+                  {formatAmount(totals.realizedPnl)}
+                </TableCell>
+                <TableCell align="right" sx={{ fontWeight: 'bold' }}>
+                  {formatAmount(totals.fees)}
+                </TableCell>
+                <TableCell align="right" sx={{ fontWeight: 'bold' }}>
+                  {formatAmount(totals.funding)}
+                </TableCell>
+                <TableCell
+                  align="right"
+                  sx={{ color: pnlColor(totals.net), fontWeight: 'bold' }}
+                >
+                  {formatAmount(totals.net)}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+
+        {fills.length > 0 && (
+          <>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              Recent fills
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Time</TableCell>
+                  <TableCell>Account</TableCell>
+                  <TableCell>Symbol</TableCell>
+                  <TableCell>Side</TableCell>
+                  <TableCell align="right">Price</TableCell>
+                  <TableCell align="right">Size</TableCell>
+                  <TableCell align="right">Fee</TableCell>
+                  <TableCell align="right">Profit</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {fills.slice(0, MAX_FILL_ROWS).map((fill) => (
+                  <TableRow key={`${fill.accountId}-${fill.tradeId}`}>
+                    <TableCell>{formatTime(fill.cTime)}</TableCell>
+                    <TableCell>
+                      {accountNames[fill.accountId] ?? fill.accountId}
+                    </TableCell>
+                    <TableCell>{fill.symbol.replace(/_UMCBL$/, '')}</TableCell>
+                    <TableCell>
+                      {fill.side.replace('_', ' ').toUpperCase()}
+                    </TableCell>
+                    <TableCell align="right">{fill.price}</TableCell>
+                    <TableCell align="right">{fill.sizeQty}</TableCell>
+                    <TableCell align="right">
+                      {formatAmount(parseFloat(fill.fee) || 0)}
+                    </TableCell>
+                    <TableCell
+                      align="right"
+                      sx={{ color: pnlColor(parseFloat(fill.profit) || 0) }}
+                    >
+                      {formatAmount(parseFloat(fill.profit) || 0)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LedgerPanel;
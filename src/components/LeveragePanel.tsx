@@ -0,0 +1,284 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  loadSymbolSettings,
+  syncSymbolSettings,
+  diffSettings,
+  describeChange,
+  formatHoldMode,
+  formatMarginMode,
+  type SymbolSettings,
+  type SettingsSyncResult,
+} from '../utils/accountSettings';
+import type { BitgetAccount, ProductType } from '../utils/bitgetApi';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Alert,
+  IconButton,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { Tune, Refresh } from '@mui/icons-material';
+
+interface LeveragePanelProps {
+  accounts: BitgetAccount[];
+  symbol: string;
+  productType: ProductType;
+  onApplied: () => void;
+}
+
+const SETTING_ROWS: {
+  label: string;
+  format: (settings: SymbolSettings) => string;
+}[] = [
+  {
+    label: 'Position mode',
+    format: (settings) => formatHoldMode(settings.holdMode),
+  },
+  {
+    label: 'Margin mode',
+    format: (settings) => formatMarginMode(settings.marginMode),
+  },
+  {
+    label: 'Cross leverage',
+    format: (settings) => `${settings.crossLeverage}x`,
+  },
+  {
+    label: 'Isolated long leverage',
+    format: (settings) => `${settings.longLeverage}x`,
+  },
+  {
+    label: 'Isolated short leverage',
+    format: (settings) => `${settings.shortLeverage}x`,
+  },
+];
+
+// Leverage, margin mode and position mode of the selected symbol for every
+// account side by side, with a preview and sync of one account's settings
+// to the others. Cells that differ from the reference are highlighted.
+const LeveragePanel = ({
+  accounts,
+  symbol,
+  productType,
+  onApplied,
+}: LeveragePanelProps) => {
+  const [settings, setSettings] = useState<{
+    [accountId: string]: SymbolSettings;
+  }>({});
+  const [referenceId, setReferenceId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [results, setResults] = useState<SettingsSyncResult[]>([]);
+
+  const load = useCallback(async () => {
+    if (accounts.length === 0) return;
+    setLoading(true);
+    setSettings(await loadSymbolSettings(accounts, symbol, productType));
+    setLoading(false);
+  }, [accounts, symbol, productType]);
+
+  useEffect(() => {
+    setResults([]);
+    load();
+  }, [load]);
+
+  // Defaults to the first account whose settings loaded
+  const activeReferenceId = settings[referenceId]
+    ? referenceId
+    : (accounts.find((account) => settings[account.id])?.id ?? '');
+  const reference: SymbolSettings | undefined = settings[activeReferenceId];
+
+  const preview = reference
+    ? accounts
+        .filter(
+          (account) => account.id !== activeReferenceId && settings[account.id],
+        )
+        .map((account) => ({
+          account,
+          current: settings[account.id],
+          changes: diffSettings(settings[account.id], reference),
+        }))
+    : [];
+  const pendingChanges = preview.reduce(
+    (sum, entry) => sum + entry.changes.length,
+    0,
+  );
+
+  const handleSync = async () => {
+    if (!reference) return;
+    setSyncing(true);
+    const syncResults = await syncSymbolSettings(
+      accounts.filter((account) => account.id !== activeReferenceId),
+      symbol,
+      productType,
+      reference,
+      settings,
+    );
+    setResults(syncResults);
+    setSyncing(false);
+    await load();
+    onApplied();
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            mb: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <Tune sx={{ mr: 1 }} />
+            <Typography variant="h6">Leverage & Margin - {symbol}</Typography>
+          </Box>
+          <IconButton
+            size="small"
+            onClick={load}
+            disabled={loading}
+            title="Reload settings"
+          >
+            <Refresh fontSize="small" />
+          </IconButton>
+        </Box>
+
+        {Object.keys(settings).length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            {loading ? 'Loading...' : 'No account settings available'}
+          </Typography>
+        ) : (
+          <>
+            <Table size="small" sx={{ mb: 2 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  {accounts.map((account) => (
+                    <TableCell key={account.id} align="right">
+                      {account.name}
+                      {account.id === activeReferenceId && ' (ref)'}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {SETTING_ROWS.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell>{row.label}</TableCell>
+                    {accounts.map((account) => {
+                      const value = settings[account.id]
+                        ? row.format(settings[account.id])
+                        : '-';
+                      const differs =
+                        reference &&
+                        settings[account.id] &&
+                        value !== row.format(reference);
+                      return (
+                        <TableCell
+                          key={account.id}
+                          align="right"
+                          sx={(theme) => ({
+                            bgcolor: differs
+                              ? alpha(theme.palette.warning.main, 0.15)
+                              : undefined,
+                          })}
+                        >
+                          {value}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel>Sync to account</InputLabel>
+                <Select
+                  label="Sync to account"
+                  value={activeReferenceId}
+                  onChange={(e) => {
+                    setReferenceId(e.target.value);
+                    setResults([]);
+                  }}
+                >
+                  {accounts
+                    .filter((account) => settings[account.id])
+                    .map((account) => (
+                      <MenuItem key={account.id} value={account.id}>
+                        {account.name}
+                      </MenuItem>
+                    ))}
+                </Select>
+              </FormControl>
+              <Button
+                variant="contained"
+                size="small"
+                disabled={syncing || pendingChanges === 0}
+                onClick={handleSync}
+              >
+                {syncing ? 'Applying...' : `Apply ${pendingChanges} change(s)`}
+              </Button>
+            </Box>
+
+            {preview.map(
+              ({ account, current, changes }) =>
+                changes.length > 0 && (
+                  <Typography key={account.id} variant="body2">
+                    <strong>{account.name}:</strong>{' '}
+                    {changes
+                      .map((change) => describeChange(change, current))
+                      .join(', ')}
+                  </Typography>
+                ),
+            )}
+            {pendingChanges === 0 && results.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                All accounts match
+              </Typography>
+            )}
+            {preview.some(({ changes }) =>
+              changes.some((change) => change.kind !== 'leverage'),
+            ) && (
+              <Alert severity="info" sx={{ mt: 1 }}>
+                Margin and position mode can only change while the account has
+                no open positions or orders
+                {reference?.holdMode === 'single_hold' &&
+                  '. The order tickets place hedge mode orders and will not work in one-way mode'}
+              </Alert>
+            )}
+
+            {results.map((result) => (
+              <Alert
+                key={result.account.id}
+                severity={result.success ? 'success' : 'error'}
+                sx={{ mt: 1 }}
+              >
+                {result.account.name}:{' '}
+                {result.success
+                  ? `${result.changes.length} change(s) applied`
+                  : result.error}
+              </Alert>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LeveragePanel;
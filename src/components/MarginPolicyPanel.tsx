@@ -0,0 +1,272 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  evaluateMarginPolicy,
+  executeMarginProposals,
+  DEFAULT_MARGIN_POLICY,
+  type MarginAccountData,
+  type MarginProposal,
+  type MarginProposalResult,
+} from '../utils/marginPolicy';
+import { assessPositionRisks } from '../utils/riskMonitor';
+import type { MarginPolicySettings, RiskSettings } from '../utils/config';
+import type { BitgetAccount } from '../utils/bitgetApi';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Switch,
+  FormControlLabel,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import { SwapHoriz } from '@mui/icons-material';
+
+interface MarginPolicyPanelProps {
+  accounts: MarginAccountData[];
+  // All configured accounts, the main account may not be trading
+  allAccounts: BitgetAccount[];
+  prices: { [symbol: string]: number };
+  settings?: MarginPolicySettings;
+  riskSettings?: RiskSettings;
+  loading: boolean;
+  onExecuted: () => void;
+}
+
+// Balances lag behind transfers, so automatic runs are spaced out to avoid
+// moving the same shortfall twice
+const AUTO_EXECUTE_COOLDOWN = 60000;
+
+// Collateral top-ups and transfers that keep both hedge legs alive
+const MarginPolicyPanel = ({
+  accounts,
+  allAccounts,
+  prices,
+  settings = DEFAULT_MARGIN_POLICY,
+  riskSettings,
+  loading,
+  onExecuted,
+}: MarginPolicyPanelProps) => {
+  const [autoExecute, setAutoExecute] = useState(settings.autoExecute);
+  const [executing, setExecuting] = useState(false);
+  const [results, setResults] = useState<MarginProposalResult[]>([]);
+  const [fromAccountId, setFromAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
+  const [amount, setAmount] = useState('');
+  const executingRef = useRef(false);
+  const lastAutoExecuteRef = useRef(0);
+
+  const proposals = useMemo(
+    () =>
+      evaluateMarginPolicy(
+        accounts,
+        assessPositionRisks(accounts, prices, {}, riskSettings),
+        settings,
+      ),
+    [accounts, prices, riskSettings, settings],
+  );
+
+  const getAccountName = (accountId: string) =>
+    allAccounts.find((account) => account.id === accountId)?.name ?? accountId;
+
+  const describe = (proposal: MarginProposal) =>
+    proposal.type === 'transfer'
+      ? `Transfer ${proposal.amount.toFixed(2)} USDT ${getAccountName(
+          proposal.fromAccountId,
+        )} -> ${getAccountName(proposal.toAccountId)}`
+      : `Add ${proposal.amount.toFixed(2)} USDT margin to ${proposal.symbol} ${
+          proposal.holdSide
+        } on ${getAccountName(proposal.accountId)}`;
+
+  const execute = async (toExecute: MarginProposal[]) => {
+    if (executingRef.current || toExecute.length === 0) return;
+    executingRef.current = true;
+    setExecuting(true);
+
+    const executed = await executeMarginProposals(
+      allAccounts,
+      toExecute,
+      settings.mainAccountId,
+    );
+    executed
+      .filter((result) => !result.success)
+      .forEach((result) =>
+        console.error(
+          `❌ Margin policy action failed (${describe(result.proposal)}):`,
+          result.error,
+        ),
+      );
+
+    setResults(executed);
+    setExecuting(false);
+    executingRef.current = false;
+    onExecuted();
+  };
+
+  const handleManualTransfer = () =>
+    execute([
+      {
+        type: 'transfer',
+        fromAccountId,
+        toAccountId,
+        amount: parseFloat(amount) || 0,
+        reason: 'manual',
+      },
+    ]);
+
+  // Auto-execute proposals once account data has settled
+  useEffect(() => {
+    if (
+      autoExecute &&
+      !loading &&
+      proposals.length > 0 &&
+      Date.now() - lastAutoExecuteRef.current > AUTO_EXECUTE_COOLDOWN
+    ) {
+      lastAutoExecuteRef.current = Date.now();
+      execute(proposals);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [autoExecute, loading, accounts]);
+
+  const canTransfer =
+    !executing &&
+    !!settings.mainAccountId &&
+    !!fromAccountId &&
+    !!toAccountId &&
+    fromAccountId !== toAccountId &&
+    parseFloat(amount) > 0;
+
+  return (
+    <Card sx={{ height: '100%' }}>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            mb: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <SwapHoriz sx={{ mr: 1 }} />
+            <Typography variant="h6">Margin Policy</Typography>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  checked={autoExecute}
+                  onChange={(e) => setAutoExecute(e.target.checked)}
+                />
+              }
+              label="Auto"
+            />
+            <Button
+              variant="contained"
+              size="small"
+              disabled={executing || loading || proposals.length === 0}
+              onClick={() => execute(proposals)}
+            >
+              {executing ? 'Executing...' : 'Execute'}
+            </Button>
+          </Box>
+        </Box>
+
+        {proposals.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            All accounts within margin thresholds
+          </Typography>
+        ) : (
+          <List dense sx={{ mb: 1 }}>
+            {proposals.map((proposal, index) => (
+              <ListItem key={index} disableGutters>
+                <ListItemText
+                  primary={describe(proposal)}
+                  secondary={proposal.reason}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        {!settings.mainAccountId && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Set margin.mainAccountId in the config to enable transfers
+          </Alert>
+        )}
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+          Manual transfer
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <FormControl size="small" fullWidth>
+            <InputLabel>From</InputLabel>
+            <Select
+              label="From"
+              value={fromAccountId}
+              onChange={(e) => setFromAccountId(e.target.value)}
+            >
+              {allAccounts.map((account) => (
+                <MenuItem key={account.id} value={account.id}>
+                  {account.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" fullWidth>
+            <InputLabel>To</InputLabel>
+            <Select
+              label="To"
+              value={toAccountId}
+              onChange={(e) => setToAccountId(e.target.value)}
+            >
+              {allAccounts.map((account) => (
+                <MenuItem key={account.id} value={account.id}>
+                  {account.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            label="USDT"
+            size="small"
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            fullWidth
+          />
+          <Button
+            variant="outlined"
+            size="small"
+            disabled={!canTransfer}
+            onClick={handleManualTransfer}
+          >
+            Transfer
+          </Button>
+        </Box>
+
+        {results.map((result, index) => (
+          <Alert
+            key={index}
+            severity={result.success ? 'success' : 'error'}
+            sx={{ mt: 1 }}
+          >
+            {describe(result.proposal)}:{' '}
+            {result.success ? 'done' : result.error}
+          </Alert>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MarginPolicyPanel;
@@ -0,0 +1,302 @@
+import { useState } from 'react';
+import {
+  placeOrder,
+  type BitgetAccount,
+  type OrderSide,
+  type OrderType,
+  type TimeInForce,
+} from '../utils/bitgetApi';
+import { getContractSpec, validateOrder } from '../utils/contracts';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
+  Chip,
+  Alert,
+} from '@mui/material';
+
+interface OrderTicketProps {
+  accounts: BitgetAccount[];
+  symbol: string;
+  displaySymbol: string;
+  currentPrice: number;
+  onOrderPlaced: () => void;
+}
+
+interface OrderTicketResult {
+  accountName: string;
+  success: boolean;
+  message: string;
+}
+
+// Order ticket for placing market/limit orders on one or more accounts
+const OrderTicket = ({
+  accounts,
+  symbol,
+  displaySymbol,
+  currentPrice,
+  onOrderPlaced,
+}: OrderTicketProps) => {
+  const [selectedAccountIds, setSelectedAccountIds] = useState<string[]>([]);
+  const [direction, setDirection] = useState<'long' | 'short'>('long');
+  const [action, setAction] = useState<'open' | 'close'>('open');
+  const [orderType, setOrderType] = useState<OrderType>('market');
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>('normal');
+  const [size, setSize] = useState('');
+  const [price, setPrice] = useState('');
+  const [reduceOnly, setReduceOnly] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [results, setResults] = useState<OrderTicketResult[]>([]);
+
+  const sizeValue = parseFloat(size) || 0;
+  const priceValue =
+    orderType === 'limit' ? parseFloat(price) || 0 : currentPrice;
+  const estimatedNotional = sizeValue * priceValue;
+
+  // Closing orders are not held to the minimum size, see placeOrder
+  const spec = getContractSpec(symbol);
+  const validationError =
+    spec && action === 'open' && size
+      ? validateOrder(
+          spec,
+          sizeValue,
+          orderType === 'limit' && price ? parseFloat(price) : undefined,
+        )
+      : null;
+
+  const canSubmit =
+    !submitting &&
+    selectedAccountIds.length > 0 &&
+    sizeValue > 0 &&
+    !validationError &&
+    (orderType === 'market' || parseFloat(price) > 0);
+
+  const toggleAccount = (accountId: string) => {
+    setSelectedAccountIds((prev) =>
+      prev.includes(accountId)
+        ? prev.filter((id) => id !== accountId)
+        : [...prev, accountId],
+    );
+  };
+
+  const handleSubmit = async () => {
+    const side = `${action}_${direction}` as OrderSide;
+    const targetAccounts = accounts.filter((account) =>
+      selectedAccountIds.includes(account.id),
+    );
+
+    setSubmitting(true);
+    setResults([]);
+
+    const settled = await Promise.allSettled(
+      targetAccounts.map((account) =>
+        placeOrder(account, {
+          symbol,
+          size,
+          side,
+          orderType,
+          price: orderType === 'limit' ? price : undefined,
+          timeInForce: orderType === 'limit' ? timeInForce : undefined,
+          reduceOnly,
+          clientOid: `hedger-${Date.now()}-${account.id}`,
+        }),
+      ),
+    );
+
+    setResults(
+      settled.map((result, index) => ({
+        accountName: targetAccounts[index].name,
+        success: result.status === 'fulfilled',
+        message:
+          result.status === 'fulfilled'
+            ? `Order ${result.value.orderId} placed`
+            : result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason),
+      })),
+    );
+    setSubmitting(false);
+    onOrderPlaced();
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" sx={{ mb: 2 }}>
+          Order Ticket - {displaySymbol}
+        </Typography>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          {accounts.length > 0 ? (
+            accounts.map((account) => (
+              <Chip
+                key={account.id}
+                label={account.name}
+                color={
+                  selectedAccountIds.includes(account.id)
+                    ? 'primary'
+                    : 'default'
+                }
+                onClick={() => toggleAccount(account.id)}
+                size="small"
+              />
+            ))
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              No enabled accounts
+            </Typography>
+          )}
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <ToggleButtonGroup
+            value={action}
+            exclusive
+            size="small"
+            onChange={(_, value) => value && setAction(value)}
+          >
+            <ToggleButton value="open">Open</ToggleButton>
+            <ToggleButton value="close">Close</ToggleButton>
+          </ToggleButtonGroup>
+          <ToggleButtonGroup
+            value={direction}
+            exclusive
+            size="small"
+            onChange={(_, value) => value && setDirection(value)}
+          >
+            <ToggleButton value="long" color="success">
+              Long
+            </ToggleButton>
+            <ToggleButton value="short" color="error">
+              Short
+            </ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 100 }}>
+            <InputLabel>Type</InputLabel>
+            <Select
+              label="Type"
+              value={orderType}
+              onChange={(e) => setOrderType(e.target.value as OrderType)}
+            >
+              <MenuItem value="market">Market</MenuItem>
+              <MenuItem value="limit">Limit</MenuItem>
+            </Select>
+          </FormControl>
+          {orderType === 'limit' && (
+            <FormControl size="small" sx={{ minWidth: 110 }}>
+              <InputLabel>TIF</InputLabel>
+              <Select
+                label="TIF"
+                value={timeInForce}
+                onChange={(e) => setTimeInForce(e.target.value as TimeInForce)}
+              >
+                <MenuItem value="normal">GTC</MenuItem>
+                <MenuItem value="post_only">Post Only</MenuItem>
+                <MenuItem value="ioc">IOC</MenuItem>
+                <MenuItem value="fok">FOK</MenuItem>
+              </Select>
+            </FormControl>
+          )}
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          <TextField
+            label="Size"
+            size="small"
+            type="number"
+            value={size}
+            onChange={(e) => setSize(e.target.value)}
+            slotProps={{
+              htmlInput: spec
+                ? { min: spec.minOrderSize, step: spec.sizeStep }
+                : undefined,
+            }}
+            fullWidth
+          />
+          {orderType === 'limit' && (
+            <TextField
+              label="Price"
+              size="small"
+              type="number"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              slotProps={{
+                htmlInput: spec ? { step: spec.tickSize } : undefined,
+              }}
+              fullWidth
+            />
+          )}
+        </Box>
+        {validationError && (
+          <Alert severity="warning" sx={{ mb: 1 }}>
+            {validationError}
+          </Alert>
+        )}
+
+        <FormControlLabel
+          control={
+            <Checkbox
+              size="small"
+              checked={reduceOnly}
+              onChange={(e) => setReduceOnly(e.target.checked)}
+            />
+          }
+          label="Reduce only"
+        />
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Est. notional:{' '}
+          <strong>
+            $
+            {estimatedNotional.toLocaleString('en-US', {
+              minimumFractionDigits: 2,
+              maximumFractionDigits: 2,
+            })}
+          </strong>
+          {selectedAccountIds.length > 1 &&
+            ` x ${selectedAccountIds.length} accounts`}
+        </Typography>
+
+        <Button
+          variant="contained"
+          color={direction === 'long' ? 'success' : 'error'}
+          fullWidth
+          disabled={!canSubmit}
+          onClick={handleSubmit}
+        >
+          {submitting
+            ? 'Submitting...'
+            : `${action === 'open' ? 'Open' : 'Close'} ${
+                direction === 'long' ? 'Long' : 'Short'
+              }`}
+        </Button>
+
+        {results.map((result) => (
+          <Alert
+            key={result.accountName}
+            severity={result.success ? 'success' : 'error'}
+            sx={{ mt: 1 }}
+          >
+            {result.accountName}: {result.message}
+          </Alert>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderTicket;
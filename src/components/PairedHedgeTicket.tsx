@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { openPairedHedge, type HedgeRecord } from '../utils/hedgeEngine';
+import type { BitgetAccount } from '../utils/bitgetApi';
+import { getContractSpec, validateOrder } from '../utils/contracts';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Chip,
+  Paper,
+} from '@mui/material';
+import { CompareArrows } from '@mui/icons-material';
+
+interface PairedHedgeTicketProps {
+  accounts: BitgetAccount[];
+  symbol: string;
+  displaySymbol: string;
+  currentPrice: number;
+  onHedgeOpened: () => void;
+}
+
+const statusColors: {
+  [status in HedgeRecord['status']]: 'success' | 'warning' | 'error';
+} = {
+  opened: 'success',
+  unwound: 'warning',
+  failed: 'error',
+  naked: 'error',
+};
+
+// Opens a long on one account and a matching short on another in one action
+const PairedHedgeTicket = ({
+  accounts,
+  symbol,
+  displaySymbol,
+  currentPrice,
+  onHedgeOpened,
+}: PairedHedgeTicketProps) => {
+  const [longAccountId, setLongAccountId] = useState('');
+  const [shortAccountId, setShortAccountId] = useState('');
+  const [size, setSize] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [records, setRecords] = useState<HedgeRecord[]>([]);
+
+  const longAccount = accounts.find((acc) => acc.id === longAccountId);
+  const shortAccount = accounts.find((acc) => acc.id === shortAccountId);
+  const sizeValue = parseFloat(size) || 0;
+
+  const spec = getContractSpec(symbol);
+  const validationError = spec && size ? validateOrder(spec, sizeValue) : null;
+
+  const canSubmit =
+    !submitting &&
+    !!longAccount &&
+    !!shortAccount &&
+    longAccountId !== shortAccountId &&
+    sizeValue > 0 &&
+    !validationError;
+
+  const getAccountName = (accountId: string) =>
+    accounts.find((acc) => acc.id === accountId)?.name ?? accountId;
+
+  const handleSubmit = async () => {
+    if (!longAccount || !shortAccount) return;
+
+    setSubmitting(true);
+    const record = await openPairedHedge(
+      symbol,
+      size,
+      longAccount,
+      shortAccount,
+    );
+    if (record.status === 'naked') {
+      console.error('❌ Naked hedge leg:', record);
+    }
+    setRecords((prev) => [record, ...prev]);
+    setSubmitting(false);
+    onHedgeOpened();
+  };
+
+  return (
+    <Card sx={{ height: '100%' }}>
+      <CardContent>
+        <Typography
+          variant="h6"
+          sx={{ mb: 2, display: 'flex', alignItems: 'center' }}
+        >
+          <CompareArrows sx={{ mr: 1 }} />
+          Open Hedge - {displaySymbol}
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <FormControl size="small" fullWidth>
+            <InputLabel>Long account</InputLabel>
+            <Select
+              label="Long account"
+              value={longAccountId}
+              onChange={(e) => setLongAccountId(e.target.value)}
+            >
+              {accounts.map((account) => (
+                <MenuItem key={account.id} value={account.id}>
+                  {account.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" fullWidth>
+            <InputLabel>Short account</InputLabel>
+            <Select
+              label="Short account"
+              value={shortAccountId}
+              onChange={(e) => setShortAccountId(e.target.value)}
+            >
+              {accounts.map((account) => (
+                <MenuItem key={account.id} value={account.id}>
+                  {account.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+
+        <TextField
+          label="Size per leg"
+          size="small"
+          type="number"
+          value={size}
+          onChange={(e) => setSize(e.target.value)}
+          error={!!validationError}
+          helperText={validationError}
+          fullWidth
+          sx={{ mb: 1 }}
+        />
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Est. notional per leg:{' '}
+          <strong>
+            $
+            {(sizeValue * currentPrice).toLocaleString('en-US', {
+              minimumFractionDigits: 2,
+              maximumFractionDigits: 2,
+            })}
+          </strong>
+        </Typography>
+
+        <Button
+          variant="contained"
+          fullWidth
+          disabled={!canSubmit}
+          onClick={handleSubmit}
+        >
+          {submitting ? 'Opening...' : 'Open Hedge'}
+        </Button>
+
+        {records.map((record) => (
+          <Paper key={record.id} sx={{ p: 1.5, mt: 1, bgcolor: 'grey.50' }}>
+            <Box
+              sx={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+              }}
+            >
+              <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                {record.symbol} x {record.size}
+              </Typography>
+              <Chip
+                label={record.status.toUpperCase()}
+                color={statusColors[record.status]}
+                size="small"
+              />
+            </Box>
+            <Typography variant="caption" display="block">
+              Long {getAccountName(record.longLeg.accountId)}:{' '}
+              {record.longLeg.orderId ?? record.longLeg.error}
+            </Typography>
+            <Typography variant="caption" display="block">
+              Short {getAccountName(record.shortLeg.accountId)}:{' '}
+              {record.shortLeg.orderId ?? record.shortLeg.error}
+            </Typography>
+            <Typography
+              variant="caption"
+              display="block"
+              color="text.secondary"
+            >
+              {record.message}
+            </Typography>
+          </Paper>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PairedHedgeTicket;
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import type { BitgetPlanOrder, PlanType } from '../utils/bitgetApi';
+import {
+  Typography,
+  Box,
+  Chip,
+  IconButton,
+  Paper,
+  TextField,
+} from '@mui/material';
+import { Cancel, Edit, Check, Close } from '@mui/icons-material';
+
+interface PlanOrderListProps {
+  orders: BitgetPlanOrder[];
+  onCancel: (order: BitgetPlanOrder) => void;
+  onModify: (order: BitgetPlanOrder, triggerPrice: string) => Promise<void>;
+}
+
+const PLAN_LABELS: { [planType in PlanType]: string } = {
+  normal_plan: 'TRIGGER',
+  profit_plan: 'TAKE PROFIT',
+  loss_plan: 'STOP LOSS',
+  moving_plan: 'TRAILING',
+  pos_profit: 'POSITION TP',
+  pos_loss: 'POSITION SL',
+};
+
+// Plan and TP/SL orders of one account, with inline trigger price editing
+const PlanOrderList = ({ orders, onCancel, onModify }: PlanOrderListProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [triggerPrice, setTriggerPrice] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const startEditing = (order: BitgetPlanOrder) => {
+    setEditingId(order.orderId);
+    setTriggerPrice(order.triggerPrice);
+  };
+
+  const handleSave = async (order: BitgetPlanOrder) => {
+    setSaving(true);
+    await onModify(order, triggerPrice);
+    setSaving(false);
+    setEditingId(null);
+  };
+
+  return (
+    <>
+      {orders.map((order) => (
+        <Paper key={order.orderId} sx={{ p: 1.5, mb: 1, bgcolor: 'grey.50' }}>
+          <Box
+            sx={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+            }}
+          >
+            <Box>
+              <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                {PLAN_LABELS[order.planType] ?? order.planType.toUpperCase()}
+              </Typography>
+              <Chip
+                label={order.side.replace('_', ' ').toUpperCase()}
+                color={order.side.includes('long') ? 'success' : 'error'}
+                size="small"
+                sx={{ mb: 0.5 }}
+              />
+              <Typography
+                variant="caption"
+                display="block"
+                color="text.secondary"
+              >
+                Size: {order.size}
+                {order.planType === 'moving_plan' &&
+                  order.rangeRate &&
+                  `, callback ${order.rangeRate}%`}
+              </Typography>
+            </Box>
+            {editingId === order.orderId ? (
+              <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                <TextField
+                  size="small"
+                  type="number"
+                  value={triggerPrice}
+                  onChange={(e) => setTriggerPrice(e.target.value)}
+                  sx={{ width: 110 }}
+                />
+                <IconButton
+                  size="small"
+                  color="primary"
+                  disabled={saving || !(parseFloat(triggerPrice) > 0)}
+                  onClick={() => handleSave(order)}
+                >
+                  <Check fontSize="small" />
+                </IconButton>
+                <IconButton size="small" onClick={() => setEditingId(null)}>
+                  <Close fontSize="small" />
+                </IconButton>
+              </Box>
+            ) : (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                  @ ${parseFloat(order.triggerPrice).toFixed(2)}
+                </Typography>
+                <IconButton size="small" onClick={() => startEditing(order)}>
+                  <Edit fontSize="small" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  color="error"
+                  onClick={() => onCancel(order)}
+                >
+                  <Cancel fontSize="small" />
+                </IconButton>
+              </Box>
+            )}
+          </Box>
+        </Paper>
+      ))}
+    </>
+  );
+};
+
+export default PlanOrderList;
@@ -0,0 +1,205 @@
+import { useMemo } from 'react';
+import { buildPortfolioMatrix, type PortfolioCell } from '../utils/portfolio';
+import type { BitgetAccount, BitgetPlanOrder } from '../utils/bitgetApi';
+import type { Order, Position } from '../utils/exchangeClient';
+import type { HedgeTarget } from '../utils/config';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { GridView } from '@mui/icons-material';
+
+interface PortfolioMatrixProps {
+  accounts: {
+    account: BitgetAccount;
+    positions: Position[];
+    orders: Order[];
+    planOrders: BitgetPlanOrder[];
+  }[];
+  targets: HedgeTarget[];
+  prices: { [symbol: string]: number };
+  selectedSymbol: string;
+  onSelectSymbol: (symbol: string) => void;
+}
+
+const formatUsd = (value: number): string =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatSize = (size: number): string =>
+  `${size > 0 ? '+' : ''}${parseFloat(size.toFixed(6))}`;
+
+const signColor = (value: number) =>
+  value > 0 ? 'success.main' : value < 0 ? 'error.main' : 'text.secondary';
+
+interface MatrixCellProps {
+  cell: PortfolioCell | undefined;
+  showSize?: boolean;
+  bold?: boolean;
+  highlight?: boolean;
+}
+
+const MatrixCell = ({
+  cell,
+  showSize = true,
+  bold,
+  highlight,
+}: MatrixCellProps) => {
+  if (!cell || (!cell.size && !cell.orders && !cell.unrealizedPL)) {
+    return (
+      <TableCell align="right" sx={{ color: 'text.disabled' }}>
+        -
+      </TableCell>
+    );
+  }
+  return (
+    <TableCell
+      align="right"
+      sx={(theme) => ({
+        fontWeight: bold ? 'bold' : undefined,
+        bgcolor: highlight
+          ? alpha(theme.palette.warning.main, 0.15)
+          : undefined,
+      })}
+    >
+      {showSize && (
+        <Typography
+          variant="body2"
+          sx={{ color: signColor(cell.size), fontWeight: 'inherit' }}
+        >
+          {formatSize(cell.size)}
+        </Typography>
+      )}
+      <Typography variant="caption" component="div">
+        {formatUsd(cell.notional)}
+      </Typography>
+      <Typography
+        variant="caption"
+        component="div"
+        sx={{ color: signColor(cell.unrealizedPL) }}
+      >
+        uPnL {formatUsd(cell.unrealizedPL)}
+      </Typography>
+      {cell.orders > 0 && (
+        <Typography variant="caption" component="div" color="text.secondary">
+          {cell.orders} order{cell.orders === 1 ? '' : 's'}
+        </Typography>
+      )}
+    </TableCell>
+  );
+};
+
+// Every symbol with positions or orders in any account: rows are symbols,
+// columns are accounts. The total column is the net across accounts and is
+// highlighted when the symbol is not hedged. Click a row to select it.
+const PortfolioMatrix = ({
+  accounts,
+  targets,
+  prices,
+  selectedSymbol,
+  onSelectSymbol,
+}: PortfolioMatrixProps) => {
+  const matrix = useMemo(
+    () => buildPortfolioMatrix(accounts, targets, prices),
+    [accounts, targets, prices],
+  );
+  const unhedged = matrix.rows.filter((row) => !row.hedged).length;
+
+  return (
+    <Card>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            mb: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <GridView sx={{ mr: 1 }} />
+            <Typography variant="h6">Portfolio</Typography>
+          </Box>
+          {matrix.rows.length > 0 && (
+            <Chip
+              size="small"
+              color={unhedged > 0 ? 'warning' : 'success'}
+              label={
+                unhedged > 0
+                  ? `${unhedged} unhedged symbol${unhedged === 1 ? '' : 's'}`
+                  : 'All hedged'
+              }
+            />
+          )}
+        </Box>
+
+        {matrix.rows.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No positions or open orders
+          </Typography>
+        ) : (
+          <Box sx={{ overflowX: 'auto' }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Symbol</TableCell>
+                  {accounts.map(({ account }) => (
+                    <TableCell key={account.id} align="right">
+                      {account.name}
+                    </TableCell>
+                  ))}
+                  <TableCell align="right">Net</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {matrix.rows.map((row) => (
+                  <TableRow
+                    key={row.symbol}
+                    hover
+                    selected={row.symbol === selectedSymbol}
+                    onClick={() => onSelectSymbol(row.symbol)}
+                    sx={{ cursor: 'pointer' }}
+                  >
+                    <TableCell>{row.symbol}</TableCell>
+                    {accounts.map(({ account }) => (
+                      <MatrixCell
+                        key={account.id}
+                        cell={row.cells[account.id]}
+                      />
+                    ))}
+                    <MatrixCell cell={row.total} bold highlight={!row.hedged} />
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 'bold' }}>Total</TableCell>
+                  {accounts.map(({ account }) => (
+                    <MatrixCell
+                      key={account.id}
+                      cell={matrix.totals[account.id]}
+                      showSize={false}
+                      bold
+                    />
+                  ))}
+                  <MatrixCell cell={matrix.total} showSize={false} bold />
+                </TableRow>
+              </TableBody>
+            </Table>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PortfolioMatrix;
@@ -0,0 +1,310 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  parseCandle,
+  mergeCandles,
+  getChartLevels,
+  type Candle,
+  type ChartLevel,
+  type ChartLevelKind,
+} from '../utils/priceChart';
+import {
+  getCandles,
+  type BitgetAccount,
+  type BitgetPlanOrder,
+} from '../utils/bitgetApi';
+import type { Order, Position } from '../utils/exchangeClient';
+import type { MarketDataManager } from '../utils/marketData';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { CandlestickChart } from '@mui/icons-material';
+
+interface PriceChartProps {
+  symbol: string;
+  displaySymbol: string;
+  marketData: MarketDataManager | null;
+  accounts: {
+    account: BitgetAccount;
+    positions: Position[];
+    orders: Order[];
+    planOrders: BitgetPlanOrder[];
+  }[];
+}
+
+// Same names for REST granularity and the candle<granularity> channel
+const GRANULARITIES = ['1m', '5m', '15m', '1H', '4H', '1D'];
+const CANDLE_LIMIT = 120;
+
+const WIDTH = 900;
+const HEIGHT = 320;
+const PLOT_WIDTH = 780; // Price axis and level labels to the right
+const PADDING = 10;
+
+const ACCOUNT_COLORS = ['#2196f3', '#ff9800', '#9c27b0', '#00bcd4', '#cddc39'];
+const LEVEL_DASHES: { [kind in ChartLevelKind]: string | undefined } = {
+  entry: undefined,
+  liquidation: '8 4',
+  order: '2 4',
+  trigger: '8 3 2 3',
+};
+
+const formatPrice = (price: number): string =>
+  price.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: price < 10 ? 4 : 2,
+  });
+
+// Candlesticks for the selected symbol with each account's entries,
+// liquidation prices and open orders drawn across them. Levels outside the
+// candle range are pinned to the top or bottom edge.
+const PriceChart = ({
+  symbol,
+  displaySymbol,
+  marketData,
+  accounts,
+}: PriceChartProps) => {
+  const theme = useTheme();
+  const [granularity, setGranularity] = useState('15m');
+  const [candles, setCandles] = useState<Candle[]>([]);
+
+  // History over REST, then live updates from the candle channel
+  useEffect(() => {
+    let cancelled = false;
+    setCandles([]);
+
+    getCandles(symbol, granularity, CANDLE_LIMIT)
+      .then((rows) => {
+        if (cancelled) return;
+        setCandles((prev) =>
+          mergeCandles(rows.map(parseCandle), prev, CANDLE_LIMIT),
+        );
+      })
+      .catch((error) => console.error('❌ Error loading candles:', error));
+
+    const unsubscribe = marketData?.subscribe(
+      `candle${granularity}`,
+      symbol,
+      (data) => {
+        const rows = (data as string[][]).filter(Array.isArray);
+        if (rows.length === 0) return;
+        setCandles((prev) =>
+          mergeCandles(prev, rows.map(parseCandle), CANDLE_LIMIT),
+        );
+      },
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [symbol, granularity, marketData]);
+
+  const levels = useMemo(
+    () => getChartLevels(accounts, symbol),
+    [accounts, symbol],
+  );
+  const accountColors = useMemo(
+    () =>
+      Object.fromEntries(
+        accounts.map((data, i) => [
+          data.account.id,
+          ACCOUNT_COLORS[i % ACCOUNT_COLORS.length],
+        ]),
+      ),
+    [accounts],
+  );
+
+  const renderChart = () => {
+    if (candles.length === 0) return null;
+
+    // Scale to the candles plus entries and orders; liquidation prices far
+    // away would squash the candles, so those are only pinned to the edge
+    const prices = [
+      ...candles.flatMap((candle) => [candle.high, candle.low]),
+      ...levels
+        .filter((level) => level.kind !== 'liquidation')
+        .map((level) => level.price),
+    ];
+    const min = Math.min(...prices);
+    const max = Math.max(...prices);
+    const range = max - min || max * 0.01 || 1;
+    const scaleY = (price: number) =>
+      PADDING + ((max - price) / range) * (HEIGHT - 2 * PADDING);
+    const slot = PLOT_WIDTH / CANDLE_LIMIT;
+    const offset = CANDLE_LIMIT - candles.length;
+    const last = candles[candles.length - 1];
+
+    const levelY = (level: ChartLevel) =>
+      Math.min(HEIGHT - PADDING, Math.max(PADDING, scaleY(level.price)));
+
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%">
+        {[max, (max + min) / 2, min].map((price) => (
+          <text
+            key={price}
+            x={PLOT_WIDTH + 4}
+            y={scaleY(price) + 4}
+            fontSize={11}
+            fill={theme.palette.text.secondary}
+          >
+            {formatPrice(price)}
+          </text>
+        ))}
+
+        {candles.map((candle, i) => {
+          const x = (offset + i + 0.5) * slot;
+          const up = candle.close >= candle.open;
+          const color = up
+            ? theme.palette.success.main
+            : theme.palette.error.main;
+          const top = scaleY(Math.max(candle.open, candle.close));
+          const bottom = scaleY(Math.min(candle.open, candle.close));
+          return (
+            <g key={candle.time}>
+              <line
+                x1={x}
+                x2={x}
+                y1={scaleY(candle.high)}
+                y2={scaleY(candle.low)}
+                stroke={color}
+              />
+              <rect
+                x={x - slot * 0.35}
+                y={top}
+                width={slot * 0.7}
+                height={Math.max(1, bottom - top)}
+                fill={color}
+              />
+            </g>
+          );
+        })}
+
+        {levels.map((level, i) => {
+          const y = levelY(level);
+          const pinned =
+            level.price > max ? '▲ ' : level.price < min ? '▼ ' : '';
+          const color = accountColors[level.accountId];
+          return (
+            <g key={`${level.accountId}:${level.kind}:${level.label}:${i}`}>
+              <line
+                x1={0}
+                x2={PLOT_WIDTH}
+                y1={y}
+                y2={y}
+                stroke={color}
+                strokeWidth={1.5}
+                strokeDasharray={LEVEL_DASHES[level.kind]}
+              />
+              <text
+                x={4}
+                y={y - 3}
+                fontSize={11}
+                fill={
+                  level.side === 'long'
+                    ? theme.palette.success.main
+                    : theme.palette.error.main
+                }
+              >
+                {pinned}
+                {level.label} @ {formatPrice(level.price)}
+              </text>
+            </g>
+          );
+        })}
+
+        <line
+          x1={0}
+          x2={PLOT_WIDTH}
+          y1={scaleY(last.close)}
+          y2={scaleY(last.close)}
+          stroke={theme.palette.text.secondary}
+          strokeOpacity={0.5}
+          strokeDasharray="1 3"
+        />
+        <text
+          x={PLOT_WIDTH + 4}
+          y={scaleY(last.close) + 4}
+          fontSize={11}
+          fontWeight="bold"
+          fill={theme.palette.text.primary}
+        >
+          {formatPrice(last.close)}
+        </text>
+      </svg>
+    );
+  };
+
+  const chart = renderChart();
+
+  return (
+    <Card>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            flexWrap: 'wrap',
+            gap: 1,
+            mb: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <CandlestickChart sx={{ mr: 1 }} />
+            <Typography variant="h6">{displaySymbol}</Typography>
+          </Box>
+          <ToggleButtonGroup
+            value={granularity}
+            exclusive
+            size="small"
+            onChange={(_, value) => value && setGranularity(value)}
+          >
+            {GRANULARITIES.map((value) => (
+              <ToggleButton key={value} value={value}>
+                {value}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+
+        {chart ?? (
+          <Typography variant="body2" color="text.secondary">
+            Loading candles...
+          </Typography>
+        )}
+
+        {accounts.length > 0 && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mt: 1 }}>
+            {accounts.map((data) => (
+              <Box
+                key={data.account.id}
+                sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+              >
+                <Box
+                  sx={{
+                    width: 16,
+                    height: 3,
+                    bgcolor: accountColors[data.account.id],
+                  }}
+                />
+                <Typography variant="caption">{data.account.name}</Typography>
+              </Box>
+            ))}
+            <Typography variant="caption" color="text.secondary">
+              Solid: entry · Dashed: liquidation · Dotted: order · Dash-dot:
+              trigger
+            </Typography>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PriceChart;
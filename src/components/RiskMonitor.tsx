@@ -0,0 +1,333 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  assessPositionRisks,
+  assessAccountRisks,
+  computeAtr,
+  isMoreSevere,
+  DEFAULT_RISK_SETTINGS,
+  type RiskLevel,
+} from '../utils/riskMonitor';
+import {
+  playAlertSound,
+  requestNotificationPermission,
+  showBrowserNotification,
+  canNotify,
+} from '../utils/alerts';
+import type { RiskSettings } from '../utils/config';
+import {
+  getCandles,
+  type BitgetAccount,
+  type ProductType,
+} from '../utils/bitgetApi';
+import type { Balance, Position } from '../utils/exchangeClient';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Chip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Alert,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { Warning, LinkOff } from '@mui/icons-material';
+
+interface RiskMonitorProps {
+  accounts: {
+    account: BitgetAccount;
+    positions: Position[];
+    balances: Balance[];
+  }[];
+  prices: { [symbol: string]: number };
+  settings?: RiskSettings;
+}
+
+interface RiskAlert {
+  id: number;
+  level: 'warning' | 'critical';
+  message: string;
+}
+
+// ATR is taken from hourly candles and refreshed every few minutes
+const ATR_GRANULARITY = '1H';
+const ATR_PERIOD = 14;
+const ATR_REFRESH_INTERVAL = 5 * 60000;
+const MAX_ALERTS = 5;
+
+const LEVEL_COLORS: { [level in RiskLevel]: 'success' | 'warning' | 'error' } =
+  {
+    ok: 'success',
+    warning: 'warning',
+    critical: 'error',
+  };
+
+// Distance to liquidation for every position across accounts, riskiest
+// first, with alerts when a position or account crosses a threshold
+const RiskMonitor = ({
+  accounts,
+  prices,
+  settings = DEFAULT_RISK_SETTINGS,
+}: RiskMonitorProps) => {
+  const [atrs, setAtrs] = useState<{ [symbol: string]: number }>({});
+  const [alerts, setAlerts] = useState<RiskAlert[]>([]);
+  const [notificationsAllowed, setNotificationsAllowed] = useState(canNotify);
+  const previousLevels = useRef<{ [key: string]: RiskLevel }>({});
+  const nextAlertId = useRef(1);
+
+  const risks = useMemo(
+    () => assessPositionRisks(accounts, prices, atrs, settings),
+    [accounts, prices, atrs, settings],
+  );
+  const accountRisks = useMemo(() => assessAccountRisks(accounts), [accounts]);
+
+  // productType:symbol of every open position
+  const symbolsKey = [
+    ...new Set(
+      risks.map(
+        (risk) => `${risk.position.productType}:${risk.position.symbol}`,
+      ),
+    ),
+  ]
+    .sort()
+    .join(',');
+
+  // Fetch ATRs for the symbols with open positions
+  useEffect(() => {
+    if (!symbolsKey) return;
+    const entries = symbolsKey
+      .split(',')
+      .map((entry) => entry.split(':') as [ProductType, string]);
+    const symbols = entries.map(([, symbol]) => symbol);
+
+    const fetchAtrs = async () => {
+      const results = await Promise.allSettled(
+        entries.map(([productType, symbol]) =>
+          getCandles(symbol, ATR_GRANULARITY, ATR_PERIOD + 1, productType),
+        ),
+      );
+      const updated: { [symbol: string]: number } = {};
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          console.error(
+            `❌ Error fetching candles for ${symbols[index]}:`,
+            result.reason,
+          );
+          return;
+        }
+        const atr = computeAtr(result.value, ATR_PERIOD);
+        if (atr !== null) updated[symbols[index]] = atr;
+      });
+      setAtrs((prev) => ({ ...prev, ...updated }));
+    };
+
+    fetchAtrs();
+    const atrInterval = setInterval(fetchAtrs, ATR_REFRESH_INTERVAL);
+    return () => clearInterval(atrInterval);
+  }, [symbolsKey]);
+
+  // Raise an alert whenever a position or account gets more severe
+  useEffect(() => {
+    const levels: { [key: string]: RiskLevel } = {};
+    const raised: RiskAlert[] = [];
+
+    risks.forEach((risk) => {
+      levels[risk.key] = risk.level;
+      if (
+        risk.level !== 'ok' &&
+        isMoreSevere(risk.level, previousLevels.current[risk.key] ?? 'ok')
+      ) {
+        const distance = Number.isFinite(risk.distancePct)
+          ? `${risk.distancePct.toFixed(2)}%`
+          : '-';
+        raised.push({
+          id: nextAlertId.current++,
+          level: risk.level,
+          message:
+            `${risk.accountName} ${risk.position.symbol} ${risk.position.holdSide.toUpperCase()} ` +
+            `is ${distance} from liquidation` +
+            (risk.hedgeAtRisk ? ' while the other hedge leg is in profit' : ''),
+        });
+      }
+    });
+
+    accountRisks.forEach((risk) => {
+      const key = `account:${risk.accountId}:${risk.productType}:${risk.marginCoin}`;
+      levels[key] = risk.level;
+      if (
+        risk.level !== 'ok' &&
+        isMoreSevere(risk.level, previousLevels.current[key] ?? 'ok')
+      ) {
+        raised.push({
+          id: nextAlertId.current++,
+          level: risk.level,
+          message: `${risk.accountName} ${risk.marginCoin} margin risk rate at ${(risk.riskRate * 100).toFixed(1)}%`,
+        });
+      }
+    });
+
+    previousLevels.current = levels;
+    if (raised.length === 0) return;
+
+    setAlerts((prev) => [...raised, ...prev].slice(0, MAX_ALERTS));
+    const level = raised.some((alert) => alert.level === 'critical')
+      ? 'critical'
+      : 'warning';
+    if (settings.sound) {
+      playAlertSound(level);
+    }
+    if (settings.notifications) {
+      raised.forEach((alert) =>
+        showBrowserNotification(
+          `Liquidation ${alert.level.toUpperCase()}`,
+          alert.message,
+        ),
+      );
+    }
+  }, [risks, accountRisks, settings]);
+
+  const handleEnableNotifications = async () => {
+    setNotificationsAllowed(await requestNotificationPermission());
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            mb: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <Warning sx={{ mr: 1 }} />
+            <Typography variant="h6">Liquidation Risk</Typography>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {accountRisks.map((risk) => (
+              <Chip
+                key={`${risk.accountId}:${risk.productType}:${risk.marginCoin}`}
+                label={`${risk.accountName} ${risk.marginCoin}: ${(risk.riskRate * 100).toFixed(1)}%`}
+                color={LEVEL_COLORS[risk.level]}
+                size="small"
+                variant="outlined"
+              />
+            ))}
+            {settings.notifications && !notificationsAllowed && (
+              <Button size="small" onClick={handleEnableNotifications}>
+                Enable notifications
+              </Button>
+            )}
+          </Box>
+        </Box>
+
+        {alerts.map((alert) => (
+          <Alert
+            key={alert.id}
+            severity={alert.level === 'critical' ? 'error' : 'warning'}
+            onClose={() =>
+              setAlerts((prev) => prev.filter((a) => a.id !== alert.id))
+            }
+            sx={{ mb: 1 }}
+          >
+            {alert.message}
+          </Alert>
+        ))}
+
+        {risks.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No open positions
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Account</TableCell>
+                <TableCell>Symbol</TableCell>
+                <TableCell>Side</TableCell>
+                <TableCell align="right">Size</TableCell>
+                <TableCell align="right">Mark</TableCell>
+                <TableCell align="right">Liq. Price</TableCell>
+                <TableCell align="right">Distance</TableCell>
+                <TableCell align="right">ATRs</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {risks.map((risk) => (
+                <TableRow
+                  key={risk.key}
+                  sx={{
+                    bgcolor: (theme) =>
+                      risk.level === 'ok'
+                        ? undefined
+                        : alpha(
+                            theme.palette[LEVEL_COLORS[risk.level]].main,
+                            0.08,
+                          ),
+                  }}
+                >
+                  <TableCell>{risk.accountName}</TableCell>
+                  <TableCell>{risk.position.symbol}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={risk.position.holdSide.toUpperCase()}
+                      color={
+                        risk.position.holdSide === 'long' ? 'success' : 'error'
+                      }
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">{risk.position.size}</TableCell>
+                  <TableCell align="right">
+                    {risk.markPrice.toFixed(2)}
+                  </TableCell>
+                  <TableCell align="right">
+                    {risk.liquidationPrice > 0
+                      ? risk.liquidationPrice.toFixed(2)
+                      : '-'}
+                  </TableCell>
+                  <TableCell align="right">
+                    {Number.isFinite(risk.distancePct)
+                      ? `${risk.distancePct.toFixed(2)}%`
+                      : '-'}
+                  </TableCell>
+                  <TableCell align="right">
+                    {risk.distanceAtr !== null
+                      ? risk.distanceAtr.toFixed(1)
+                      : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                      <Chip
+                        label={risk.level.toUpperCase()}
+                        color={LEVEL_COLORS[risk.level]}
+                        size="small"
+                      />
+                      {risk.hedgeAtRisk && (
+                        <LinkOff
+                          fontSize="small"
+                          color="error"
+                          titleAccess="Other hedge leg is in profit"
+                          sx={{ ml: 0.5 }}
+                        />
+                      )}
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RiskMonitor;
@@ -0,0 +1,599 @@
+import { useState, type ChangeEvent } from 'react';
+import {
+  getChangedCredentials,
+  type Config,
+  type ConfigAccount,
+  type RiskSettings,
+} from '../utils/config';
+import { getApiErrorMessage } from '../utils/bitgetApi';
+import type { ProductType } from '../utils/bitgetApi';
+import {
+  formatProductTypeErrors,
+  getExchangeClient,
+  PRODUCT_TYPES,
+  PRODUCT_TYPE_LABELS,
+} from '../utils/exchangeClient';
+import {
+  REPORTING_CURRENCIES,
+  type ReportingCurrency,
+} from '../utils/currency';
+import { DEFAULT_RISK_SETTINGS } from '../utils/riskMonitor';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  TextField,
+  Switch,
+  IconButton,
+  Paper,
+  Chip,
+  Alert,
+  Divider,
+  FormControlLabel,
+  MenuItem,
+} from '@mui/material';
+import { Add, Delete, Edit, NetworkCheck } from '@mui/icons-material';
+
+interface SettingsDialogProps {
+  config: Config;
+  onClose: () => void;
+  onSave: (config: Config) => Promise<void>;
+  onExport: () => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+  onReset: () => void;
+}
+
+interface KeyTestResult {
+  success: boolean;
+  message: string;
+}
+
+const emptyAccount = (): ConfigAccount => ({
+  id: Date.now().toString(),
+  name: '',
+  apiKey: '',
+  apiSecret: '',
+  passphrase: '',
+  equity: 0,
+  enabled: true,
+});
+
+// Selected product types of the multi-select. MUI passes an array, or a
+// comma-separated string after browser autofill.
+const toProductTypes = (value: unknown): ProductType[] => {
+  const selected: unknown[] =
+    typeof value === 'string'
+      ? value.split(',')
+      : Array.isArray(value)
+        ? value
+        : [];
+  return PRODUCT_TYPES.filter((productType) => selected.includes(productType));
+};
+
+// Account management and app settings behind the Settings button. Mounted
+// only while open so every opening starts from the current config.
+const SettingsDialog = ({
+  config,
+  onClose,
+  onSave,
+  onExport,
+  onImport,
+  onReset,
+}: SettingsDialogProps) => {
+  const [draft, setDraft] = useState<Config>(config);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<{
+    [accountId: string]: KeyTestResult | 'testing';
+  }>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Credentials live on the signing backend and can't be edited here
+  const readOnly = !!config.backend;
+
+  const updateAccount = (accountId: string, changes: Partial<ConfigAccount>) =>
+    setDraft((prev) => ({
+      ...prev,
+      accounts: prev.accounts.map((account) =>
+        account.id === accountId ? { ...account, ...changes } : account,
+      ),
+    }));
+
+  const updateSettings = (changes: Partial<Config['settings']>) =>
+    setDraft((prev) => ({
+      ...prev,
+      settings: { ...prev.settings, ...changes },
+    }));
+
+  const risk = draft.risk ?? DEFAULT_RISK_SETTINGS;
+
+  const updateRisk = (changes: Partial<RiskSettings>) =>
+    setDraft((prev) => ({
+      ...prev,
+      risk: { ...(prev.risk ?? DEFAULT_RISK_SETTINGS), ...changes },
+    }));
+
+  const handleAddAccount = () => {
+    const account = emptyAccount();
+    setDraft((prev) => ({ ...prev, accounts: [...prev.accounts, account] }));
+    setEditingId(account.id);
+  };
+
+  const handleDeleteAccount = (accountId: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      accounts: prev.accounts.filter((account) => account.id !== accountId),
+    }));
+  };
+
+  // Check the keys with a live balance request
+  const handleTestAccount = async (account: ConfigAccount) => {
+    setTestResults((prev) => ({ ...prev, [account.id]: 'testing' }));
+    try {
+      const { items, errors } = await getExchangeClient().getBalances(account);
+      const equity = items
+        .reduce((sum, balance) => sum + balance.usdtEquity, 0)
+        .toFixed(2);
+      const failed = formatProductTypeErrors(errors);
+      setTestResults((prev) => ({
+        ...prev,
+        [account.id]: {
+          success: true,
+          message: `OK - equity $${equity}${failed ? ` (${failed})` : ''}`,
+        },
+      }));
+    } catch (err) {
+      setTestResults((prev) => ({
+        ...prev,
+        [account.id]: {
+          success: false,
+          message: getApiErrorMessage(err),
+        },
+      }));
+    }
+  };
+
+  const handleSave = async () => {
+    const invalid = draft.accounts.find(
+      (account) =>
+        !account.name ||
+        (!readOnly &&
+          (!account.apiKey || !account.apiSecret || !account.passphrase)),
+    );
+    if (invalid) {
+      setError(
+        `Account "${invalid.name || invalid.id}" needs a name, API key, secret and passphrase`,
+      );
+      return;
+    }
+    // Plaintext credentials are never stored in the browser, so edits to
+    // them would be lost on the next reload
+    const [changed] =
+      readOnly || config.vault ? [] : getChangedCredentials(draft, config);
+    if (changed) {
+      setError(
+        `API credentials of "${changed.name || changed.id}" cannot be saved without a vault - add the account to config.json and encrypt it with npm run vault:encrypt`,
+      );
+      return;
+    }
+    if (!(draft.settings.refreshInterval > 0)) {
+      setError('Refresh interval must be greater than 0');
+      return;
+    }
+    if (
+      risk.criticalPct > risk.warningPct ||
+      risk.criticalAtr > risk.warningAtr
+    ) {
+      setError('Critical risk thresholds must be below the warning ones');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      await onImport(file);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Settings</DialogTitle>
+      <DialogContent dividers>
+        {readOnly && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Accounts are managed by the signing backend. Edit its config.json to
+            change credentials.
+          </Alert>
+        )}
+        {!readOnly && !config.vault && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            API credentials cannot be added or changed here without a vault.
+            Keep them in config.json and encrypt it with npm run vault:encrypt.
+          </Alert>
+        )}
+
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            mb: 1,
+          }}
+        >
+          <Typography variant="h6">Accounts</Typography>
+          {!readOnly && (
+            <Button startIcon={<Add />} size="small" onClick={handleAddAccount}>
+              Add Account
+            </Button>
+          )}
+        </Box>
+
+        {draft.accounts.map((account) => {
+          const testResult = testResults[account.id];
+          return (
+            <Paper key={account.id} sx={{ p: 1.5, mb: 1, bgcolor: 'grey.50' }}>
+              <Box
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                }}
+              >
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Switch
+                    size="small"
+                    checked={account.enabled}
+                    disabled={readOnly}
+                    onChange={(e) =>
+                      updateAccount(account.id, { enabled: e.target.checked })
+                    }
+                  />
+                  <Typography variant="body1" sx={{ fontWeight: 'bold' }}>
+                    {account.name || 'New account'}
+                  </Typography>
+                  {testResult && (
+                    <Chip
+                      size="small"
+                      label={
+                        testResult === 'testing'
+                          ? 'Testing...'
+                          : testResult.message
+                      }
+                      color={
+                        testResult === 'testing'
+                          ? 'default'
+                          : testResult.success
+                            ? 'success'
+                            : 'error'
+                      }
+                    />
+                  )}
+                </Box>
+                <Box>
+                  <IconButton
+                    size="small"
+                    title="Test API key"
+                    disabled={testResult === 'testing'}
+                    onClick={() => handleTestAccount(account)}
+                  >
+                    <NetworkCheck fontSize="small" />
+                  </IconButton>
+                  {!readOnly && (
+                    <>
+                      <IconButton
+                        size="small"
+                        title="Edit"
+                        onClick={() =>
+                          setEditingId(
+                            editingId === account.id ? null : account.id,
+                          )
+                        }
+                      >
+                        <Edit fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        color="error"
+                        title="Delete"
+                        onClick={() => handleDeleteAccount(account.id)}
+                      >
+                        <Delete fontSize="small" />
+                      </IconButton>
+                    </>
+                  )}
+                </Box>
+              </Box>
+
+              {editingId === account.id && (
+                <Box
+                  sx={{
+                    display: 'grid',
+                    gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+                    gap: 1,
+                    mt: 1.5,
+                  }}
+                >
+                  <TextField
+                    label="Name"
+                    size="small"
+                    value={account.name}
+                    onChange={(e) =>
+                      updateAccount(account.id, { name: e.target.value })
+                    }
+                  />
+                  <TextField
+                    label="Starting equity"
+                    size="small"
+                    type="number"
+                    value={account.equity}
+                    onChange={(e) =>
+                      updateAccount(account.id, {
+                        equity: parseFloat(e.target.value) || 0,
+                      })
+                    }
+                  />
+                  <TextField
+                    label="API key"
+                    size="small"
+                    value={account.apiKey}
+                    onChange={(e) =>
+                      updateAccount(account.id, { apiKey: e.target.value })
+                    }
+                  />
+                  <TextField
+                    label="API secret"
+                    size="small"
+                    type="password"
+                    value={account.apiSecret}
+                    onChange={(e) =>
+                      updateAccount(account.id, { apiSecret: e.target.value })
+                    }
+                  />
+                  <TextField
+                    label="Passphrase"
+                    size="small"
+                    type="password"
+                    value={account.passphrase}
+                    onChange={(e) =>
+                      updateAccount(account.id, { passphrase: e.target.value })
+                    }
+                  />
+                  <TextField
+                    label="User ID (UID)"
+                    size="small"
+                    value={account.userId ?? ''}
+                    onChange={(e) =>
+                      updateAccount(account.id, {
+                        userId: e.target.value || undefined,
+                      })
+                    }
+                  />
+                </Box>
+              )}
+            </Paper>
+          );
+        })}
+
+        <Divider sx={{ my: 2 }} />
+
+        <Typography variant="h6" sx={{ mb: 1 }}>
+          General
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            label="Refresh interval (ms)"
+            size="small"
+            type="number"
+            disabled={readOnly}
+            value={draft.settings.refreshInterval}
+            onChange={(e) =>
+              updateSettings({
+                refreshInterval: parseInt(e.target.value, 10) || 0,
+              })
+            }
+          />
+          <TextField
+            label="Default symbol"
+            size="small"
+            disabled={readOnly}
+            value={draft.settings.defaultSymbol}
+            onChange={(e) => updateSettings({ defaultSymbol: e.target.value })}
+          />
+          <TextField
+            select
+            label="API version"
+            size="small"
+            disabled={readOnly}
+            value={draft.settings.apiVersion ?? 'v2'}
+            onChange={(e) =>
+              updateSettings({ apiVersion: e.target.value as 'v1' | 'v2' })
+            }
+            sx={{ minWidth: 120 }}
+          >
+            <MenuItem value="v2">v2</MenuItem>
+            <MenuItem value="v1">v1 (legacy)</MenuItem>
+          </TextField>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <TextField
+            select
+            label="Product types"
+            size="small"
+            disabled={readOnly}
+            value={draft.settings.productTypes ?? PRODUCT_TYPES}
+            onChange={(e) =>
+              updateSettings({
+                productTypes: toProductTypes(e.target.value),
+              })
+            }
+            slotProps={{
+              select: {
+                multiple: true,
+                renderValue: (selected) =>
+                  toProductTypes(selected)
+                    .map((productType) => PRODUCT_TYPE_LABELS[productType])
+                    .join(', '),
+              },
+            }}
+            sx={{ minWidth: 240 }}
+          >
+            {PRODUCT_TYPES.map((productType) => (
+              <MenuItem key={productType} value={productType}>
+                {PRODUCT_TYPE_LABELS[productType]}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Reporting currency"
+            size="small"
+            disabled={readOnly}
+            value={draft.settings.reportingCurrency ?? 'USDT'}
+            onChange={(e) =>
+              updateSettings({
+                reportingCurrency: e.target.value as ReportingCurrency,
+              })
+            }
+            sx={{ minWidth: 160 }}
+          >
+            {REPORTING_CURRENCIES.map((currency) => (
+              <MenuItem key={currency} value={currency}>
+                {currency}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+
+        <Typography variant="h6" sx={{ mb: 1 }}>
+          Liquidation Alerts
+        </Typography>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+          <TextField
+            label="Warning distance (%)"
+            size="small"
+            type="number"
+            disabled={readOnly}
+            value={risk.warningPct}
+            onChange={(e) =>
+              updateRisk({ warningPct: parseFloat(e.target.value) || 0 })
+            }
+          />
+          <TextField
+            label="Critical distance (%)"
+            size="small"
+            type="number"
+            disabled={readOnly}
+            value={risk.criticalPct}
+            onChange={(e) =>
+              updateRisk({ criticalPct: parseFloat(e.target.value) || 0 })
+            }
+          />
+          <TextField
+            label="Warning distance (ATR)"
+            size="small"
+            type="number"
+            disabled={readOnly}
+            value={risk.warningAtr}
+            onChange={(e) =>
+              updateRisk({ warningAtr: parseFloat(e.target.value) || 0 })
+            }
+          />
+          <TextField
+            label="Critical distance (ATR)"
+            size="small"
+            type="number"
+            disabled={readOnly}
+            value={risk.criticalAtr}
+            onChange={(e) =>
+              updateRisk({ criticalAtr: parseFloat(e.target.value) || 0 })
+            }
+          />
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={risk.sound}
+                disabled={readOnly}
+                onChange={(e) => updateRisk({ sound: e.target.checked })}
+              />
+            }
+            label="Sound"
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={risk.notifications}
+                disabled={readOnly}
+                onChange={(e) =>
+                  updateRisk({ notifications: e.target.checked })
+                }
+              />
+            }
+            label="Browser notifications"
+          />
+        </Box>
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ justifyContent: 'space-between' }}>
+        <Box>
+          <Button component="label" disabled={readOnly}>
+            Import
+            <input
+              type="file"
+              accept="application/json"
+              hidden
+              onChange={handleImport}
+            />
+          </Button>
+          <Button onClick={onExport} disabled={readOnly}>
+            Export
+          </Button>
+          <Button color="warning" onClick={onReset} disabled={readOnly}>
+            Reset to config.json
+          </Button>
+        </Box>
+        <Box>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={saving || readOnly}
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </Box>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SettingsDialog;
@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import {
+  placeTpslOrder,
+  type BitgetAccount,
+  type PlaceTpslParams,
+  type TpslPlanType,
+  type TriggerType,
+} from '../utils/bitgetApi';
+import type { Position } from '../utils/exchangeClient';
+import { getMirrorStop } from '../utils/hedgeEngine';
+import type { HedgeTarget } from '../utils/config';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
+  Alert,
+} from '@mui/material';
+
+interface StopTicketProps {
+  accounts: { account: BitgetAccount; positions: Position[] }[];
+  targets: HedgeTarget[];
+  symbol: string;
+  displaySymbol: string;
+  currentPrice: number;
+  onOrderPlaced: () => void;
+}
+
+interface StopTicketResult {
+  accountName: string;
+  success: boolean;
+  message: string;
+}
+
+// Take-profit, stop-loss and trailing stops on open positions, optionally
+// mirrored onto the opposite hedge leg
+const StopTicket = ({
+  accounts,
+  targets,
+  symbol,
+  displaySymbol,
+  currentPrice,
+  onOrderPlaced,
+}: StopTicketProps) => {
+  const [accountId, setAccountId] = useState('');
+  const [holdSide, setHoldSide] = useState<'long' | 'short'>('long');
+  const [planType, setPlanType] = useState<TpslPlanType>('loss_plan');
+  const [triggerType, setTriggerType] = useState<TriggerType>('market_price');
+  const [triggerPrice, setTriggerPrice] = useState('');
+  const [rangeRate, setRangeRate] = useState('');
+  const [size, setSize] = useState('');
+  const [mirror, setMirror] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [results, setResults] = useState<StopTicketResult[]>([]);
+
+  const accountData = accounts.find((data) => data.account.id === accountId);
+  const position = accountData?.positions.find(
+    (p) => p.symbol === symbol && p.holdSide === holdSide && p.size > 0,
+  );
+
+  const params: PlaceTpslParams = {
+    symbol,
+    planType,
+    holdSide,
+    triggerPrice,
+    size: size || (position ? String(position.size) : ''),
+    triggerType,
+    rangeRate: planType === 'moving_plan' ? rangeRate : undefined,
+    marginCoin: position?.marginCoin,
+    productType: position?.productType,
+  };
+  const mirrorStop = getMirrorStop(targets, accountId, params);
+  const mirrorAccount = accounts.find(
+    (data) => data.account.id === mirrorStop?.accountId,
+  )?.account;
+
+  // A stop-loss must sit on the losing side of the price, a take-profit on
+  // the winning side. Trailing stops activate at any price.
+  const triggerValue = parseFloat(triggerPrice) || 0;
+  const expectAbove = (holdSide === 'long') === (planType === 'profit_plan');
+  const wrongSide =
+    planType !== 'moving_plan' &&
+    triggerValue > 0 &&
+    currentPrice > 0 &&
+    triggerValue > currentPrice !== expectAbove;
+
+  const canSubmit =
+    !submitting &&
+    !!position &&
+    triggerValue > 0 &&
+    parseFloat(params.size) > 0 &&
+    parseFloat(params.size) <= position.size &&
+    (planType !== 'moving_plan' || parseFloat(rangeRate) > 0);
+
+  const handleSubmit = async () => {
+    if (!accountData) return;
+    const clientOid = `hedger-tpsl-${Date.now()}-${accountId}`;
+    const orders: { account: BitgetAccount; params: PlaceTpslParams }[] = [
+      { account: accountData.account, params: { ...params, clientOid } },
+    ];
+    const mirrored =
+      mirror && getMirrorStop(targets, accountId, orders[0].params);
+    if (mirrored && mirrorAccount) {
+      orders.push({ account: mirrorAccount, params: mirrored.params });
+    }
+
+    setSubmitting(true);
+    setResults([]);
+
+    const settled = await Promise.allSettled(
+      orders.map((order) => placeTpslOrder(order.account, order.params)),
+    );
+
+    setResults(
+      settled.map((result, index) => ({
+        accountName: `${orders[index].account.name} ${orders[index].params.holdSide}`,
+        success: result.status === 'fulfilled',
+        message:
+          result.status === 'fulfilled'
+            ? `Stop ${result.value.orderId} placed`
+            : result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason),
+      })),
+    );
+    setSubmitting(false);
+    onOrderPlaced();
+  };
+
+  return (
+    <Card sx={{ height: '100%' }}>
+      <CardContent>
+        <Typography variant="h6" sx={{ mb: 2 }}>
+          TP/SL - {displaySymbol}
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <FormControl size="small" fullWidth>
+            <InputLabel>Account</InputLabel>
+            <Select
+              label="Account"
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+            >
+              {accounts.map(({ account }) => (
+                <MenuItem key={account.id} value={account.id}>
+                  {account.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <ToggleButtonGroup
+            value={holdSide}
+            exclusive
+            size="small"
+            onChange={(_, value) => value && setHoldSide(value)}
+          >
+            <ToggleButton value="long" color="success">
+              Long
+            </ToggleButton>
+            <ToggleButton value="short" color="error">
+              Short
+            </ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <FormControl size="small" fullWidth>
+            <InputLabel>Type</InputLabel>
+            <Select
+              label="Type"
+              value={planType}
+              onChange={(e) => setPlanType(e.target.value as TpslPlanType)}
+            >
+              <MenuItem value="loss_plan">Stop loss</MenuItem>
+              <MenuItem value="profit_plan">Take profit</MenuItem>
+              <MenuItem value="moving_plan">Trailing stop</MenuItem>
+            </Select>
+          </FormControl>
+          <FormControl size="small" fullWidth>
+            <InputLabel>Trigger</InputLabel>
+            <Select
+              label="Trigger"
+              value={triggerType}
+              onChange={(e) => setTriggerType(e.target.value as TriggerType)}
+            >
+              <MenuItem value="market_price">Mark price</MenuItem>
+              <MenuItem value="fill_price">Last price</MenuItem>
+            </Select>
+          </FormControl>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          <TextField
+            label={planType === 'moving_plan' ? 'Activation' : 'Trigger price'}
+            size="small"
+            type="number"
+            value={triggerPrice}
+            onChange={(e) => setTriggerPrice(e.target.value)}
+            fullWidth
+          />
+          {planType === 'moving_plan' && (
+            <TextField
+              label="Callback %"
+              size="small"
+              type="number"
+              value={rangeRate}
+              onChange={(e) => setRangeRate(e.target.value)}
+              fullWidth
+            />
+          )}
+          <TextField
+            label="Size"
+            size="small"
+            type="number"
+            value={size}
+            placeholder={position && String(position.size)}
+            onChange={(e) => setSize(e.target.value)}
+            fullWidth
+          />
+        </Box>
+
+        {accountId && !position && (
+          <Alert severity="info" sx={{ mb: 1 }}>
+            No {holdSide} position on {symbol}
+          </Alert>
+        )}
+        {wrongSide && (
+          <Alert severity="warning" sx={{ mb: 1 }}>
+            Trigger price is on the wrong side of the current price and would
+            fire immediately
+          </Alert>
+        )}
+
+        <FormControlLabel
+          control={
+            <Checkbox
+              size="small"
+              checked={mirror && !!mirrorAccount}
+              disabled={!mirrorAccount}
+              onChange={(e) => setMirror(e.target.checked)}
+            />
+          }
+          label={
+            mirrorAccount && mirrorStop
+              ? `Mirror on ${mirrorAccount.name} ${mirrorStop.params.holdSide} (${mirrorStop.params.size})`
+              : 'Mirror on hedge leg'
+          }
+          sx={{ mb: 1 }}
+        />
+
+        <Button
+          variant="contained"
+          fullWidth
+          disabled={!canSubmit}
+          onClick={handleSubmit}
+        >
+          {submitting ? 'Submitting...' : 'Place Stop'}
+        </Button>
+
+        {results.map((result) => (
+          <Alert
+            key={result.accountName}
+            severity={result.success ? 'success' : 'error'}
+            sx={{ mt: 1 }}
+          >
+            {result.accountName}: {result.message}
+          </Alert>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StopTicket;
@@ -0,0 +1,54 @@
+import { Box } from '@mui/material';
+
+// Brand colours for well-known base coins
+const COIN_COLORS: { [baseCoin: string]: string } = {
+  BTC: '#f7931a',
+  ETH: '#627eea',
+  BNB: '#f3ba2f',
+  SOL: '#9945ff',
+  XRP: '#23292f',
+  DOGE: '#c2a633',
+  ADA: '#0033ad',
+  LTC: '#345d9d',
+};
+
+// Base coin of an API or display symbol, e.g. BTCUSDT.P -> BTC
+const getBaseCoin = (symbol: string): string =>
+  symbol.replace(/\.P$/, '').replace(/(USDT|USDC|USD)$/, '') || symbol;
+
+// Stable colour for coins without a brand colour
+const hashColor = (value: string): string => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 55%, 45%)`;
+};
+
+// Symbol icons (using simple colored circles for crypto symbols)
+const SymbolIcon = ({ symbol }: { symbol: string }) => {
+  const baseCoin = getBaseCoin(symbol);
+
+  return (
+    <Box
+      sx={{
+        width: 24,
+        height: 24,
+        flexShrink: 0,
+        borderRadius: '50%',
+        bgcolor: COIN_COLORS[baseCoin] || hashColor(baseCoin),
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        color: 'white',
+        fontSize: '10px',
+        fontWeight: 'bold',
+        mr: 1,
+      }}
+    >
+      {baseCoin.slice(0, 3)}
+    </Box>
+  );
+};
+
+export default SymbolIcon;
@@ -0,0 +1,78 @@
+import { useMemo } from 'react';
+import type { ContractSpec } from '../utils/contracts';
+import { Autocomplete, TextField, Box, IconButton } from '@mui/material';
+import { Star, StarBorder } from '@mui/icons-material';
+import SymbolIcon from './SymbolIcon';
+
+interface SymbolSelectorProps {
+  contracts: ContractSpec[];
+  favourites: string[];
+  value: string; // API symbol
+  onChange: (symbol: string) => void;
+  onToggleFavourite: (symbol: string) => void;
+}
+
+// Searchable symbol picker over the exchange's contract list, favourites
+// first. Falls back to the favourites while contracts are loading.
+const SymbolSelector = ({
+  contracts,
+  favourites,
+  value,
+  onChange,
+  onToggleFavourite,
+}: SymbolSelectorProps) => {
+  const options = useMemo(() => {
+    const symbols = contracts.map((contract) => contract.symbol);
+    [...favourites, value].forEach((symbol) => {
+      if (!symbols.includes(symbol)) symbols.push(symbol);
+    });
+    return symbols.sort((a, b) => {
+      const favouriteOrder =
+        Number(favourites.includes(b)) - Number(favourites.includes(a));
+      return favouriteOrder || a.localeCompare(b);
+    });
+  }, [contracts, favourites, value]);
+
+  return (
+    <Autocomplete
+      options={options}
+      value={value}
+      disableClearable
+      autoHighlight
+      onChange={(_, symbol) => onChange(symbol)}
+      renderInput={(params) => (
+        <TextField {...params} placeholder="Search symbol" />
+      )}
+      renderOption={(props, symbol) => {
+        const { key, ...optionProps } = props;
+        return (
+          <Box component="li" key={key} {...optionProps}>
+            <SymbolIcon symbol={symbol} />
+            <Box sx={{ flexGrow: 1 }}>{symbol}</Box>
+            <IconButton
+              size="small"
+              title={
+                favourites.includes(symbol)
+                  ? 'Remove from favourites'
+                  : 'Add to favourites'
+              }
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleFavourite(symbol);
+              }}
+            >
+              {favourites.includes(symbol) ? (
+                <Star fontSize="small" color="warning" />
+              ) : (
+                <StarBorder fontSize="small" />
+              )}
+            </IconButton>
+          </Box>
+        );
+      }}
+      sx={{ mb: 2 }}
+    />
+  );
+};
+
+export default SymbolSelector;
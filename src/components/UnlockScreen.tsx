@@ -0,0 +1,88 @@
+import { useState, type FormEvent } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+} from '@mui/material';
+import { Lock } from '@mui/icons-material';
+
+interface UnlockScreenProps {
+  onUnlock: (password: string) => Promise<void>;
+}
+
+// Password prompt for decrypting the credential vault
+const UnlockScreen = ({ onUnlock }: UnlockScreenProps) => {
+  const [password, setPassword] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setError(null);
+
+    try {
+      await onUnlock(password);
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        bgcolor: 'background.default',
+      }}
+    >
+      <Card sx={{ width: 360 }}>
+        <CardContent>
+          <Box component="form" onSubmit={handleSubmit}>
+            <Typography
+              variant="h6"
+              sx={{ mb: 2, display: 'flex', alignItems: 'center' }}
+            >
+              <Lock sx={{ mr: 1 }} />
+              Unlock Bitget Hedger
+            </Typography>
+            <TextField
+              label="Password"
+              type="password"
+              size="small"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              fullWidth
+              sx={{ mb: 2 }}
+            />
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+            <Button
+              type="submit"
+              variant="contained"
+              fullWidth
+              disabled={unlocking || !password}
+            >
+              {unlocking ? 'Unlocking...' : 'Unlock'}
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default UnlockScreen;
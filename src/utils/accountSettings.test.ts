@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeChange,
+  diffSettings,
+  type SymbolSettings,
+} from './accountSettings';
+
+const settings = (overrides: Partial<SymbolSettings>): SymbolSettings => ({
+  holdMode: 'double_hold',
+  marginMode: 'crossed',
+  crossLeverage: 10,
+  longLeverage: 10,
+  shortLeverage: 10,
+  ...overrides,
+});
+
+describe('diffSettings', () => {
+  it('only compares the leverage of the reference margin mode', () => {
+    expect(
+      diffSettings(
+        settings({ longLeverage: 20 }),
+        settings({ crossLeverage: 5 }),
+      ),
+    ).toEqual([{ kind: 'leverage', leverage: 5 }]);
+  });
+
+  it('changes the modes before the per-side isolated leverage', () => {
+    const current = settings({});
+    const changes = diffSettings(
+      current,
+      settings({ marginMode: 'fixed', longLeverage: 20, shortLeverage: 10 }),
+    );
+
+    expect(changes).toEqual([
+      { kind: 'marginMode', marginMode: 'fixed' },
+      { kind: 'leverage', leverage: 20, holdSide: 'long' },
+    ]);
+    expect(changes.map((change) => describeChange(change, current))).toEqual([
+      'Margin mode Cross → Isolated',
+      'long leverage 10x → 20x',
+    ]);
+  });
+
+  it('sets one isolated leverage in one-way mode', () => {
+    expect(
+      diffSettings(
+        settings({ marginMode: 'fixed' }),
+        settings({
+          holdMode: 'single_hold',
+          marginMode: 'fixed',
+          longLeverage: 3,
+          shortLeverage: 3,
+        }),
+      ),
+    ).toEqual([
+      { kind: 'positionMode', holdMode: 'single_hold' },
+      { kind: 'leverage', leverage: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  getSymbolAccount,
+  setLeverage,
+  setMarginMode,
+  setPositionMode,
+  getApiErrorMessage,
+  type BitgetAccount,
+  type BitgetSymbolAccount,
+  type HoldMode,
+  type MarginMode,
+  type ProductType,
+} from './bitgetApi';
+
+// Leverage, margin mode and position mode of one account for a symbol
+export interface SymbolSettings {
+  holdMode: HoldMode;
+  marginMode: MarginMode;
+  crossLeverage: number;
+  longLeverage: number;
+  shortLeverage: number;
+}
+
+// A single change needed to bring an account in line with the reference
+export type SettingsChange =
+  | { kind: 'positionMode'; holdMode: HoldMode }
+  | { kind: 'marginMode'; marginMode: MarginMode }
+  | { kind: 'leverage'; leverage: number; holdSide?: 'long' | 'short' };
+
+export interface SettingsSyncResult {
+  account: BitgetAccount;
+  changes: SettingsChange[];
+  success: boolean;
+  error?: string;
+}
+
+export const toSymbolSettings = (
+  symbolAccount: BitgetSymbolAccount,
+): SymbolSettings => ({
+  holdMode: symbolAccount.holdMode,
+  marginMode: symbolAccount.marginMode,
+  crossLeverage: Number(symbolAccount.crossMarginLeverage),
+  longLeverage: Number(symbolAccount.fixedLongLeverage),
+  shortLeverage: Number(symbolAccount.fixedShortLeverage),
+});
+
+// Current settings of every account; accounts that fail to load are left out
+export const loadSymbolSettings = async (
+  accounts: BitgetAccount[],
+  symbol: string,
+  productType: ProductType,
+): Promise<{ [accountId: string]: SymbolSettings }> => {
+  const results = await Promise.allSettled(
+    accounts.map((account) => getSymbolAccount(account, symbol, productType)),
+  );
+
+  const settings: { [accountId: string]: SymbolSettings } = {};
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      settings[accounts[index].id] = toSymbolSettings(result.value);
+    } else {
+      console.error(
+        `❌ Error loading ${symbol} settings for ${accounts[index].name}:`,
+        result.reason,
+      );
+    }
+  });
+  return settings;
+};
+
+// Changes that turn `current` into `reference`, in the order they have to
+// be applied: the modes first, since leverage is set per mode. Only the
+// leverage of the reference's margin mode matters.
+export const diffSettings = (
+  current: SymbolSettings,
+  reference: SymbolSettings,
+): SettingsChange[] => {
+  const changes: SettingsChange[] = [];
+  if (current.holdMode !== reference.holdMode) {
+    changes.push({ kind: 'positionMode', holdMode: reference.holdMode });
+  }
+  if (current.marginMode !== reference.marginMode) {
+    changes.push({ kind: 'marginMode', marginMode: reference.marginMode });
+  }
+
+  if (reference.marginMode === 'crossed') {
+    if (current.crossLeverage !== reference.crossLeverage) {
+      changes.push({ kind: 'leverage', leverage: reference.crossLeverage });
+    }
+  } else if (reference.holdMode === 'single_hold') {
+    if (current.longLeverage !== reference.longLeverage) {
+      changes.push({ kind: 'leverage', leverage: reference.longLeverage });
+    }
+  } else {
+    if (current.longLeverage !== reference.longLeverage) {
+      changes.push({
+        kind: 'leverage',
+        leverage: reference.longLeverage,
+        holdSide: 'long',
+      });
+    }
+    if (current.shortLeverage !== reference.shortLeverage) {
+      changes.push({
+        kind: 'leverage',
+        leverage: reference.shortLeverage,
+        holdSide: 'short',
+      });
+    }
+  }
+  return changes;
+};
+
+export const formatHoldMode = (holdMode: HoldMode): string =>
+  holdMode === 'double_hold' ? 'Hedge' : 'One-way';
+
+export const formatMarginMode = (marginMode: MarginMode): string =>
+  marginMode === 'crossed' ? 'Cross' : 'Isolated';
+
+export const describeChange = (
+  change: SettingsChange,
+  current: SymbolSettings,
+): string => {
+  switch (change.kind) {
+    case 'positionMode':
+      return `Position mode ${formatHoldMode(current.holdMode)} → ${formatHoldMode(change.holdMode)}`;
+    case 'marginMode':
+      return `Margin mode ${formatMarginMode(current.marginMode)} → ${formatMarginMode(change.marginMode)}`;
+    case 'leverage': {
+      const from =
+        change.holdSide === 'long'
+          ? current.longLeverage
+          : change.holdSide === 'short'
+            ? current.shortLeverage
+            : current.marginMode === 'crossed'
+              ? current.crossLeverage
+              : current.longLeverage;
+      return `${change.holdSide ? `${change.holdSide} ` : ''}leverage ${from}x → ${change.leverage}x`;
+    }
+  }
+};
+
+// Apply the changes to one account in order, stopping at the first failure
+const applyChanges = async (
+  account: BitgetAccount,
+  symbol: string,
+  productType: ProductType,
+  changes: SettingsChange[],
+): Promise<void> => {
+  for (const change of changes) {
+    if (change.kind === 'positionMode') {
+      await setPositionMode(account, change.holdMode, productType);
+    } else if (change.kind === 'marginMode') {
+      await setMarginMode(account, symbol, change.marginMode, productType);
+    } else {
+      await setLeverage(
+        account,
+        symbol,
+        change.leverage,
+        change.holdSide,
+        productType,
+      );
+    }
+  }
+};
+
+// Apply the reference account's settings to every other account. Accounts
+// are updated in parallel; a failing account does not stop the others.
+export const syncSymbolSettings = async (
+  accounts: BitgetAccount[],
+  symbol: string,
+  productType: ProductType,
+  reference: SymbolSettings,
+  settings: { [accountId: string]: SymbolSettings },
+): Promise<SettingsSyncResult[]> => {
+  const pending = accounts
+    .filter((account) => settings[account.id])
+    .map((account) => ({
+      account,
+      changes: diffSettings(settings[account.id], reference),
+    }))
+    .filter(({ changes }) => changes.length > 0);
+
+  const results = await Promise.allSettled(
+    pending.map(({ account, changes }) =>
+      applyChanges(account, symbol, productType, changes),
+    ),
+  );
+
+  return results.map((result, index) => ({
+    ...pending[index],
+    success: result.status === 'fulfilled',
+    error:
+      result.status === 'rejected'
+        ? getApiErrorMessage(result.reason)
+        : undefined,
+  }));
+};
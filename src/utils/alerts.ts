@@ -0,0 +1,47 @@
+// Audible and browser-notification alerts
+
+let audioContext: AudioContext | null = null;
+
+// Short beep: one tone for warnings, two higher tones for critical alerts
+export const playAlertSound = (level: 'warning' | 'critical'): void => {
+  try {
+    audioContext ??= new AudioContext();
+    const ctx = audioContext;
+    const beeps = level === 'critical' ? 2 : 1;
+    const frequency = level === 'critical' ? 1200 : 800;
+
+    for (let i = 0; i < beeps; i++) {
+      const start = ctx.currentTime + i * 0.25;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.2);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.2);
+    }
+  } catch (error) {
+    console.error('❌ Error playing alert sound:', error);
+  }
+};
+
+export const canNotify = (): boolean =>
+  typeof Notification !== 'undefined' && Notification.permission === 'granted';
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+  return canNotify();
+};
+
+export const showBrowserNotification = (title: string, body: string): void => {
+  if (!canNotify()) return;
+  try {
+    new Notification(title, { body, tag: title });
+  } catch (error) {
+    console.error('❌ Error showing notification:', error);
+  }
+};
@@ -0,0 +1,604 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  generateSignature,
+  createHeaders,
+  getAccountBalance,
+  getOrders,
+  getContracts,
+  cancelOrder,
+  placeOrder,
+  placeTpslOrder,
+  placePlanOrder,
+  getPlanOrders,
+  modifyPlanOrder,
+  adjustMargin,
+  setLeverage,
+  getSymbolAccount,
+  getApiErrorMessage,
+  BitgetApiError,
+  type BitgetAccount,
+  type BitgetPlanOrder,
+} from './bitgetApi';
+import { setContractSpecs } from './contracts';
+
+const account: BitgetAccount = {
+  id: '1',
+  name: 'Test Account',
+  apiKey: 'test-key',
+  apiSecret: 'test-secret',
+  passphrase: 'test-passphrase',
+  enabled: true,
+};
+
+// Fake fetch returning the given JSON body with the given HTTP status
+const mockFetch = (body: unknown, status: number = 200) => {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const getRequest = (fetchMock: ReturnType<typeof mockFetch>) => {
+  const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+  return { url, init, headers: init.headers as Record<string, string> };
+};
+
+describe('generateSignature', () => {
+  // Messages follow the format from Bitget's signing docs:
+  // timestamp + method + requestPath + queryString + body
+  it('signs a GET request with query string', () => {
+    expect(
+      generateSignature(
+        'GET',
+        '/api/mix/v1/market/depth',
+        '?symbol=BTCUSDT_UMCBL&limit=20',
+        '',
+        '16273667805456',
+        'test-secret',
+      ),
+    ).toBe('h5jn8Jwg9dwk7//CuJkSaTBzrhkbN/f0p/OD90HOs/k=');
+  });
+
+  it('signs a POST request with body', () => {
+    expect(
+      generateSignature(
+        'POST',
+        '/api/mix/v1/order/placeOrder',
+        '',
+        '{"symbol":"BTCUSDT_UMCBL","size":"8","side":"open_long","orderType":"limit","clientOid":"bitget#123456"}',
+        '16273667805456',
+        'test-secret',
+      ),
+    ).toBe('pKskmXBTkmU/RgqkzzkFiFMcJ257Z1YWf1fWSXXrQIU=');
+  });
+
+  it('uppercases the method', () => {
+    const args = [
+      '/api/mix/v1/account/accounts',
+      '?productType=umcbl',
+      '',
+      '1700000000000',
+      'test-secret',
+    ] as const;
+    expect(generateSignature('get', ...args)).toBe(
+      generateSignature('GET', ...args),
+    );
+  });
+});
+
+describe('createHeaders', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('builds signed headers with the current timestamp', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1700000000000);
+
+    expect(
+      createHeaders(
+        'GET',
+        '/api/mix/v1/account/accounts',
+        '?productType=umcbl',
+        '',
+        account,
+      ),
+    ).toEqual({
+      'ACCESS-KEY': 'test-key',
+      'ACCESS-SIGN': 'yjeaH7Dl98+DqsaMAgOp9C/ya7dtNtGxO+OLEAmEWUo=',
+      'ACCESS-TIMESTAMP': '1700000000000',
+      'ACCESS-PASSPHRASE': 'test-passphrase',
+      'Content-Type': 'application/json',
+      locale: 'en-US',
+    });
+  });
+});
+
+describe('makeApiRequest', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends GET params in the query string and signs them', async () => {
+    const fetchMock = mockFetch({ code: '00000', msg: 'success', data: [] });
+
+    await getAccountBalance(account);
+
+    const { url, init, headers } = getRequest(fetchMock);
+    expect(url).toBe('/api/mix/v1/account/accounts?productType=umcbl');
+    expect(init.method).toBe('GET');
+    expect(init.body).toBeUndefined();
+    expect(headers['ACCESS-SIGN']).toBe(
+      generateSignature(
+        'GET',
+        '/api/mix/v1/account/accounts',
+        '?productType=umcbl',
+        '',
+        headers['ACCESS-TIMESTAMP'],
+        account.apiSecret,
+      ),
+    );
+  });
+
+  it('sends POST params in the body and signs them', async () => {
+    const fetchMock = mockFetch({
+      code: '00000',
+      msg: 'success',
+      data: { orderId: '1', clientOid: 'abc' },
+    });
+
+    await cancelOrder(account, '1', 'BTCUSDT');
+
+    const { url, init, headers } = getRequest(fetchMock);
+    const expectedBody = JSON.stringify({
+      orderId: '1',
+      symbol: 'BTCUSDT_UMCBL',
+      productType: 'umcbl',
+      marginCoin: 'USDT',
+    });
+    expect(url).toBe('/api/mix/v1/order/cancel-order');
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe(expectedBody);
+    expect(headers['ACCESS-SIGN']).toBe(
+      generateSignature(
+        'POST',
+        '/api/mix/v1/order/cancel-order',
+        '',
+        expectedBody,
+        headers['ACCESS-TIMESTAMP'],
+        account.apiSecret,
+      ),
+    );
+  });
+
+  it('sends v1 symbols with the product suffix', async () => {
+    const fetchMock = mockFetch({ code: '00000', msg: 'success', data: null });
+
+    await adjustMargin(account, 'BTCUSDT', 'long', 50);
+    await placeOrder(account, {
+      symbol: 'BTCUSDT',
+      size: '0.01',
+      side: 'open_long',
+      orderType: 'market',
+    });
+    await setLeverage(account, 'BTCUSDT_UMCBL', 20);
+    await getSymbolAccount(account, 'ETHUSDT');
+
+    const [setMargin, order, leverage] = fetchMock.mock.calls
+      .slice(0, 3)
+      .map(([, init]) => JSON.parse((init as RequestInit).body as string));
+    expect(setMargin).toEqual({
+      symbol: 'BTCUSDT_UMCBL',
+      marginCoin: 'USDT',
+      holdSide: 'long',
+      amount: '50',
+    });
+    expect(order.symbol).toBe('BTCUSDT_UMCBL');
+    // Symbols that are already in the v1 form are sent unchanged
+    expect(leverage.symbol).toBe('BTCUSDT_UMCBL');
+    expect(fetchMock.mock.calls[3][0]).toBe(
+      '/api/mix/v1/account/account?symbol=ETHUSDT_UMCBL&marginCoin=USDT',
+    );
+  });
+
+  it('sends orders under their own product type', async () => {
+    const fetchMock = mockFetch({ code: '00000', msg: 'success', data: null });
+
+    await placeOrder(account, {
+      symbol: 'BTCUSD',
+      marginCoin: 'BTC',
+      size: '100',
+      side: 'open_long',
+      orderType: 'market',
+      productType: 'COIN-FUTURES',
+    });
+    await placeOrder(account, {
+      symbol: 'BTCPERP',
+      size: '0.01',
+      side: 'open_short',
+      orderType: 'market',
+      productType: 'USDC-FUTURES',
+    });
+
+    const [coinOrder, usdcOrder] = fetchMock.mock.calls.map(([, init]) =>
+      JSON.parse((init as RequestInit).body as string),
+    );
+    expect(coinOrder).toMatchObject({
+      symbol: 'BTCUSD_DMCBL',
+      marginCoin: 'BTC',
+    });
+    expect(usdcOrder).toMatchObject({
+      symbol: 'BTCPERP_CMCBL',
+      marginCoin: 'USDC',
+    });
+  });
+
+  it('sends symbol settings under their own product type', async () => {
+    const fetchMock = mockFetch({ code: '00000', msg: 'success', data: null });
+
+    await setLeverage(account, 'BTCUSD', 5, undefined, 'COIN-FUTURES', 'BTC');
+    await adjustMargin(account, 'BTCPERP', 'short', 10, 'USDC-FUTURES');
+    await getSymbolAccount(account, 'BTCPERP', 'USDC-FUTURES');
+
+    const [leverage, setMargin] = fetchMock.mock.calls
+      .slice(0, 2)
+      .map(([, init]) => JSON.parse((init as RequestInit).body as string));
+    expect(leverage).toMatchObject({
+      symbol: 'BTCUSD_DMCBL',
+      marginCoin: 'BTC',
+    });
+    expect(setMargin).toMatchObject({
+      symbol: 'BTCPERP_CMCBL',
+      marginCoin: 'USDC',
+    });
+    expect(fetchMock.mock.calls[2][0]).toBe(
+      '/api/mix/v1/account/account?symbol=BTCPERP_CMCBL&marginCoin=USDC',
+    );
+  });
+
+  it('requires a margin coin for coin-margined orders', async () => {
+    const fetchMock = mockFetch({ code: '00000', msg: 'success', data: {} });
+
+    await expect(
+      placeOrder(account, {
+        symbol: 'BTCUSD',
+        size: '100',
+        side: 'open_long',
+        orderType: 'market',
+        productType: 'COIN-FUTURES',
+      }),
+    ).rejects.toThrow('Margin coin is required for coin-margined orders');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('throws on non-00000 response codes', async () => {
+    mockFetch({ code: '40009', msg: 'sign signature error', data: null });
+
+    await expect(getAccountBalance(account)).rejects.toThrow(
+      'API Error: sign signature error',
+    );
+  });
+
+  it('throws on HTTP errors with the response body', async () => {
+    mockFetch({ code: '40006', msg: 'Invalid ACCESS_KEY' }, 400);
+
+    await expect(getAccountBalance(account)).rejects.toThrow(
+      'HTTP error! status: 400',
+    );
+  });
+
+  it('rejects limit orders without a price before sending', async () => {
+    const fetchMock = mockFetch({ code: '00000', msg: 'success', data: {} });
+
+    await expect(
+      placeOrder(account, {
+        symbol: 'BTCUSDT',
+        size: '1',
+        side: 'open_long',
+        orderType: 'limit',
+      }),
+    ).rejects.toThrow('Price is required for limit orders');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('getOrders', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('returns orders on success', async () => {
+    mockFetch({ code: '00000', msg: 'success', data: [{ orderId: '1' }] });
+
+    await expect(getOrders(account)).resolves.toEqual([{ orderId: '1' }]);
+  });
+
+  it('throws a BitgetApiError on non-00000 response codes', async () => {
+    mockFetch({ code: '40034', msg: 'Parameter error', data: null });
+
+    await expect(getOrders(account)).rejects.toMatchObject({
+      name: 'BitgetApiError',
+      status: 200,
+      code: '40034',
+      endpoint: '/api/mix/v1/order/marginCoinCurrent',
+      accountId: '1',
+    });
+  });
+});
+
+describe('request retries and timeouts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const response = (body: unknown, status: number) => ({
+    ok: status === 200,
+    status,
+    statusText: '',
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  });
+
+  it('retries GET requests on rate limits and server errors', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(response({ code: '429', msg: 'Too many' }, 429))
+      .mockResolvedValueOnce(response({ code: '50000', msg: 'Busy' }, 502))
+      .mockResolvedValue(
+        response({ code: '00000', msg: 'success', data: [] }, 200),
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = getAccountBalance(account);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry', async () => {
+    const fetchMock = mockFetch({ code: '50000', msg: 'Busy' }, 503);
+
+    const result = getContracts();
+    const assertion = expect(result).rejects.toMatchObject({ status: 503 });
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('never retries POST requests', async () => {
+    const fetchMock = mockFetch({ code: '50000', msg: 'Busy' }, 500);
+
+    await expect(cancelOrder(account, '1', 'BTCUSDT')).rejects.toBeInstanceOf(
+      BitgetApiError,
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('resyncs the clock and resends requests with an expired timestamp', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        response({ code: '40008', msg: 'Request timestamp expired' }, 400),
+      )
+      .mockResolvedValueOnce(
+        response(
+          {
+            code: '00000',
+            msg: 'success',
+            data: { serverTime: String(Date.now()) },
+          },
+          200,
+        ),
+      )
+      .mockResolvedValue(
+        response({ code: '00000', msg: 'success', data: {} }, 200),
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(cancelOrder(account, '1', 'BTCUSDT')).resolves.toBe(true);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      '/api/mix/v1/order/cancel-order',
+      '/api/v2/public/time',
+      '/api/mix/v1/order/cancel-order',
+    ]);
+  });
+
+  it('aborts requests that do not respond in time', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) =>
+            init.signal?.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError')),
+            ),
+          ),
+      ),
+    );
+
+    const result = cancelOrder(account, '1', 'BTCUSDT');
+    const assertion = expect(result).rejects.toMatchObject({
+      status: 0,
+      timedOut: true,
+    });
+    await vi.runAllTimersAsync();
+
+    await assertion;
+  });
+});
+
+describe('getApiErrorMessage', () => {
+  const error = (status: number, code: string, timedOut = false) =>
+    new BitgetApiError('API Error: raw message', {
+      status,
+      code,
+      endpoint: '/api/mix/v1/account/accounts',
+      timedOut,
+    });
+
+  it('explains account setup errors', () => {
+    expect(getApiErrorMessage(error(400, '40006'))).toBe(
+      'Invalid API key (40006)',
+    );
+  });
+
+  it('explains transient errors', () => {
+    expect(getApiErrorMessage(error(0, '', true))).toBe(
+      'Bitget did not respond in time',
+    );
+    expect(getApiErrorMessage(error(429, '429'))).toBe(
+      'Rate limited by Bitget, try again shortly',
+    );
+    expect(getApiErrorMessage(error(502, ''))).toBe(
+      'Bitget is unavailable (HTTP 502)',
+    );
+  });
+
+  it('falls back to the error message', () => {
+    expect(getApiErrorMessage(error(200, '40034'))).toBe(
+      'API Error: raw message',
+    );
+    expect(getApiErrorMessage(new Error('Price is required'))).toBe(
+      'Price is required',
+    );
+  });
+});
+
+describe('plan orders', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('places trailing stops with a callback rate', async () => {
+    const fetchMock = mockFetch({
+      code: '00000',
+      msg: 'success',
+      data: { orderId: '1', clientOid: 'abc' },
+    });
+
+    await placeTpslOrder(account, {
+      symbol: 'BTCUSDT',
+      planType: 'moving_plan',
+      holdSide: 'long',
+      triggerPrice: '65000',
+      size: '0.01',
+      rangeRate: '1',
+    });
+
+    const { url, init } = getRequest(fetchMock);
+    expect(url).toBe('/api/mix/v1/plan/placeTPSL');
+    expect(JSON.parse(init.body as string)).toEqual({
+      symbol: 'BTCUSDT_UMCBL',
+      marginCoin: 'USDT',
+      planType: 'moving_plan',
+      triggerPrice: '65000',
+      triggerType: 'market_price',
+      holdSide: 'long',
+      size: '0.01',
+      rangeRate: '1',
+    });
+  });
+
+  it('loads and modifies plan orders under their product type', async () => {
+    const fetchMock = mockFetch({
+      code: '00000',
+      msg: 'success',
+      data: [{ orderId: '1', symbol: 'BTCPERP_CMCBL', planType: 'loss_plan' }],
+    });
+
+    const orders = await getPlanOrders(account, 'USDC-FUTURES');
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      '/api/mix/v1/plan/currentPlan?productType=cmcbl&isPlan=plan',
+      '/api/mix/v1/plan/currentPlan?productType=cmcbl&isPlan=profit_loss',
+    ]);
+    expect(orders[0].productType).toBe('USDC-FUTURES');
+
+    // The settlement coin fills in for orders without a margin coin
+    await modifyPlanOrder(account, orders[0], '1');
+    expect(JSON.parse(fetchMock.mock.calls[2][1].body as string)).toMatchObject(
+      { symbol: 'BTCPERP_CMCBL', marginCoin: 'USDC' },
+    );
+  });
+
+  it('checks plan and TP/SL orders against the contract spec', async () => {
+    const fetchMock = mockFetch({ code: '00000', msg: 'success', data: {} });
+    setContractSpecs([
+      {
+        symbol: 'BTCUSDT',
+        baseCoin: 'BTC',
+        quoteCoin: 'USDT',
+        tickSize: 0.5,
+        sizeStep: 0.001,
+        minOrderSize: 0.001,
+        maxLeverage: 125,
+      },
+    ]);
+
+    await expect(
+      placeTpslOrder(account, {
+        symbol: 'BTCUSDT',
+        planType: 'loss_plan',
+        holdSide: 'long',
+        triggerPrice: '60000.3',
+        size: '0.01',
+      }),
+    ).rejects.toThrow('Price for BTCUSDT must be a multiple of 0.5');
+    await expect(
+      placePlanOrder(account, {
+        symbol: 'BTCUSDT',
+        side: 'open_long',
+        size: '0.0005',
+        triggerPrice: '60000',
+        orderType: 'market',
+      }),
+    ).rejects.toThrow('Minimum size for BTCUSDT is 0.001');
+    expect(fetchMock).not.toHaveBeenCalled();
+    setContractSpecs([]);
+  });
+
+  it('routes modifications by plan type', async () => {
+    const fetchMock = mockFetch({ code: '00000', msg: 'success', data: {} });
+    const order = {
+      orderId: '1',
+      symbol: 'BTCUSDT',
+      marginCoin: 'USDT',
+      orderType: 'market',
+      triggerType: 'market_price',
+      executePrice: '0',
+      rangeRate: null,
+    } as BitgetPlanOrder;
+
+    await modifyPlanOrder(account, { ...order, planType: 'loss_plan' }, '1');
+    await modifyPlanOrder(account, { ...order, planType: 'normal_plan' }, '2');
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      '/api/mix/v1/plan/modifyTPSLPlan',
+      '/api/mix/v1/plan/modifyPlan',
+    ]);
+  });
+});
@@ -1,4 +1,14 @@
 import CryptoJS from 'crypto-js';
+import {
+  getContractSpec,
+  toContractSpec,
+  validateOrder,
+  type BitgetContract,
+  type ContractSpec,
+} from './contracts';
+import type { FundingInfo } from './funding';
+import { getRetryDelay, throttle } from './rateLimit';
+import { getServerTime, recordServerTime, resetClockOffset } from './timeSync';
 
 // Bitget API account interface
 export interface BitgetAccount {
@@ -8,6 +18,7 @@ export interface BitgetAccount {
   apiSecret: string;
   passphrase: string;
   enabled: boolean;
+  userId?: string;
 }
 
 // API response interfaces
@@ -28,6 +39,77 @@ export interface BitgetAccountBalance {
   bonus: string;
 }
 
+// Futures product lines, named as in the v2 API: USDT-M and USDC-M settle
+// in the stablecoin, coin-margined futures in the base coin
+export type ProductType = 'USDT-FUTURES' | 'USDC-FUTURES' | 'COIN-FUTURES';
+
+// v1 names of the product types
+const V1_PRODUCT_TYPES: { [productType in ProductType]: string } = {
+  'USDT-FUTURES': 'umcbl',
+  'USDC-FUTURES': 'cmcbl',
+  'COIN-FUTURES': 'dmcbl',
+};
+
+// v1 endpoints name symbols with a product suffix, e.g. BTCUSDT_UMCBL
+const V1_SYMBOL_SUFFIXES: { [productType in ProductType]: string } = {
+  'USDT-FUTURES': '_UMCBL',
+  'USDC-FUTURES': '_CMCBL',
+  'COIN-FUTURES': '_DMCBL',
+};
+
+// v1 form of a plain symbol; symbols that already carry a suffix are kept.
+// Every v1 request maps its symbol through this, so callers can always
+// pass the plain form.
+export const toV1Symbol = (
+  symbol: string,
+  productType: ProductType = 'USDT-FUTURES',
+): string =>
+  /_(UMCBL|CMCBL|DMCBL)$/.test(symbol)
+    ? symbol
+    : `${symbol}${V1_SYMBOL_SUFFIXES[productType]}`;
+
+// Margin coin shared by all contracts of a product type; coin-margined
+// contracts each use their own base coin
+export const SETTLEMENT_COINS: { [productType in ProductType]?: string } = {
+  'USDT-FUTURES': 'USDT',
+  'USDC-FUTURES': 'USDC',
+};
+
+// Margin coin of an order. Coin-margined contracts each settle in their
+// own coin, so their orders have to name it.
+const getOrderMarginCoin = (
+  marginCoin: string | undefined,
+  productType: ProductType = 'USDT-FUTURES',
+): string => {
+  const coin = marginCoin || SETTLEMENT_COINS[productType];
+  if (!coin) {
+    throw new Error('Margin coin is required for coin-margined orders');
+  }
+  return coin;
+};
+
+// Margin mode is per symbol, position mode per product type: double_hold
+// is hedge mode (separate long and short positions), single_hold one-way
+export type MarginMode = 'crossed' | 'fixed';
+export type HoldMode = 'double_hold' | 'single_hold';
+
+// Account settings for a single symbol, from account/account
+export interface BitgetSymbolAccount {
+  marginCoin: string;
+  locked: string;
+  available: string;
+  crossMaxAvailable: string;
+  fixedMaxAvailable: string;
+  maxTransferOut: string;
+  equity: string;
+  usdtEquity: string;
+  marginMode: MarginMode;
+  holdMode: HoldMode;
+  crossMarginLeverage: number;
+  fixedLongLeverage: number;
+  fixedShortLeverage: number;
+}
+
 export interface BitgetPosition {
   marginCoin: string;
   symbol: string;
@@ -69,8 +151,252 @@ export interface BitgetOrder {
   uTime: string;
 }
 
+// v2 equivalents of the account, position and order shapes above
+export interface BitgetV2Account {
+  marginCoin: string;
+  locked: string;
+  available: string;
+  crossedMaxAvailable: string;
+  isolatedMaxAvailable: string;
+  maxTransferOut: string;
+  accountEquity: string;
+  usdtEquity: string;
+  btcEquity: string;
+  crossedRiskRate: string;
+  unrealizedPL: string;
+  coupon: string;
+}
+
+export interface BitgetV2Position {
+  marginCoin: string;
+  symbol: string;
+  holdSide: string;
+  openDelegateSize: string;
+  marginSize: string;
+  available: string;
+  locked: string;
+  total: string;
+  leverage: string;
+  achievedProfits: string;
+  openPriceAvg: string;
+  marginMode: 'isolated' | 'crossed';
+  posMode: 'one_way_mode' | 'hedge_mode';
+  unrealizedPL: string;
+  liquidationPrice: string;
+  keepMarginRate: string;
+  markPrice: string;
+  cTime: string;
+  uTime: string;
+}
+
+// side is buy/sell; in hedge mode tradeSide and posSide say which position
+// the order opens or closes, in one-way mode posSide is 'net'
+export interface BitgetV2Order {
+  symbol: string;
+  orderId: string;
+  clientOid: string;
+  price: string;
+  size: string;
+  orderType: string;
+  side: 'buy' | 'sell';
+  tradeSide: string;
+  posSide: string;
+  status: string;
+  priceAvg: string;
+  baseVolume: string;
+  quoteVolume: string;
+  marginCoin: string;
+  marginMode: string;
+  reduceOnly: string;
+  cTime: string;
+  uTime: string;
+}
+
+// Order placement types
+export type OrderSide =
+  'open_long' | 'open_short' | 'close_long' | 'close_short';
+// Sides of one-way (single_hold) mode, where there is one position per symbol
+export type OneWayOrderSide = 'buy_single' | 'sell_single';
+export type OrderType = 'limit' | 'market';
+export type TimeInForce = 'normal' | 'post_only' | 'fok' | 'ioc';
+
+export interface PlaceOrderParams {
+  symbol: string;
+  size: string;
+  side: OrderSide | OneWayOrderSide;
+  orderType: OrderType;
+  price?: string;
+  marginCoin?: string;
+  productType?: ProductType; // USDT-M unless set
+  reduceOnly?: boolean;
+  clientOid?: string;
+  timeInForce?: TimeInForce;
+}
+
+export interface PlaceOrderResult {
+  orderId: string;
+  clientOid: string;
+}
+
+// Plan (trigger) and TP/SL orders. moving_plan is a trailing stop,
+// pos_profit/pos_loss are whole-position TP/SL set on the exchange.
+export type PlanType =
+  | 'normal_plan'
+  | 'profit_plan'
+  | 'loss_plan'
+  | 'moving_plan'
+  | 'pos_profit'
+  | 'pos_loss';
+export type TpslPlanType = 'profit_plan' | 'loss_plan' | 'moving_plan';
+export type TriggerType = 'fill_price' | 'market_price';
+
+export interface BitgetPlanOrder {
+  orderId: string;
+  clientOid: string;
+  symbol: string;
+  marginCoin: string;
+  size: string;
+  executePrice: string;
+  triggerPrice: string;
+  status: string;
+  orderType: string;
+  planType: PlanType;
+  side: string;
+  triggerType: TriggerType;
+  rangeRate: string | null;
+  cTime: string;
+  uTime: string;
+  productType?: ProductType; // Added by getPlanOrders
+}
+
+export interface PlaceTpslParams {
+  symbol: string;
+  planType: TpslPlanType;
+  holdSide: 'long' | 'short';
+  triggerPrice: string;
+  size: string;
+  triggerType?: TriggerType;
+  rangeRate?: string; // Trailing callback in %, required for moving_plan
+  marginCoin?: string;
+  productType?: ProductType; // USDT-M unless set
+  clientOid?: string;
+}
+
+export interface PlacePlanParams {
+  symbol: string;
+  side: OrderSide;
+  size: string;
+  triggerPrice: string;
+  orderType: OrderType;
+  executePrice?: string; // Required for limit plan orders
+  triggerType?: TriggerType;
+  reduceOnly?: boolean;
+  marginCoin?: string;
+  productType?: ProductType; // USDT-M unless set
+  clientOid?: string;
+}
+
+// Filled or cancelled order from the order history
+export interface BitgetHistoryOrder {
+  symbol: string;
+  orderId: string;
+  clientOid: string;
+  size: string;
+  filledQty: string;
+  fee: string;
+  feeDetail?: string; // JSON of fees per coin, see getOrderFee in ledger.ts
+  price: string;
+  priceAvg: string;
+  state: string;
+  side: string;
+  totalProfits: string;
+  marginCoin: string;
+  orderType: string;
+  cTime: string;
+  uTime: string;
+}
+
+export interface BitgetFill {
+  tradeId: string;
+  symbol: string;
+  orderId: string;
+  price: string;
+  sizeQty: string;
+  fee: string;
+  side: string;
+  fillAmount: string;
+  profit: string;
+  cTime: string;
+}
+
+// Account bill, e.g. a funding fee settlement
+export interface BitgetBill {
+  id: string;
+  symbol: string;
+  marginCoin: string;
+  amount: string;
+  fee: string;
+  business: string;
+  cTime: string;
+}
+
+// One page of a history endpoint; lastEndId is null on the last page
+export interface HistoryPage<T> {
+  items: T[];
+  lastEndId: string | null;
+}
+
+const BITGET_API_URL = 'https://api.bitget.com';
+const BITGET_PUBLIC_WS_URL = 'wss://ws.bitget.com/v2/ws/public';
+const BITGET_PRIVATE_WS_URL = 'wss://ws.bitget.com/v2/ws/private';
+
+// REST base URL - empty means requests go through the Vite dev proxy
+let apiBaseUrl = '';
+
+// Point REST calls at settings.apiBaseUrl, e.g. the local mock server
+export function setApiBaseUrl(url: string): void {
+  const normalizedUrl = url.replace(/\/$/, '');
+  const nextUrl = normalizedUrl === BITGET_API_URL ? '' : normalizedUrl;
+  // A different server has its own clock
+  if (nextUrl !== apiBaseUrl) {
+    resetClockOffset();
+  }
+  apiBaseUrl = nextUrl;
+}
+
+// When enabled, requests carry only the account id and the signing backend
+// adds the credentials and signature
+let useSigningBackend = false;
+
+export function setSigningBackend(enabled: boolean): void {
+  useSigningBackend = enabled;
+}
+
+// Public WebSocket URL matching the given REST base URL
+export function getPublicWsUrl(url: string): string {
+  const normalizedUrl = url.replace(/\/$/, '');
+  if (!normalizedUrl || normalizedUrl === BITGET_API_URL) {
+    return BITGET_PUBLIC_WS_URL;
+  }
+  return normalizedUrl.replace(/^http/, 'ws') + '/v2/ws/public';
+}
+
+// Private WebSocket URL matching the given REST base URL. With the signing
+// backend the socket goes through the backend, which performs the login.
+export function getPrivateWsUrl(url: string): string {
+  if (useSigningBackend) {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    return `${protocol}//${window.location.host}/backend/ws/private`;
+  }
+  const normalizedUrl = url.replace(/\/$/, '');
+  if (!normalizedUrl || normalizedUrl === BITGET_API_URL) {
+    return BITGET_PRIVATE_WS_URL;
+  }
+  return normalizedUrl.replace(/^http/, 'ws') + '/v2/ws/private';
+}
+
 // Generate signature for Bitget API
-function generateSignature(
+export function generateSignature(
   method: string,
   requestPath: string,
   queryString: string,
@@ -100,14 +426,14 @@ function generateSignature(
 }
 
 // Create headers for Bitget API request
-function createHeaders(
+export function createHeaders(
   method: string,
   requestPath: string,
   queryString: string,
   body: string,
   account: BitgetAccount,
 ): Record<string, string> {
-  const timestamp = Date.now().toString();
+  const timestamp = getServerTime().toString();
   const signature = generateSignature(
     method,
     requestPath,
@@ -129,7 +455,206 @@ function createHeaders(
   return headers;
 }
 
-// Base API request function
+// Login args for the private WebSocket. Bitget signs timestamp (in seconds)
+// + 'GET' + '/user/verify'; the signing backend only needs the account id.
+export function createWsLoginArgs(
+  account: BitgetAccount,
+): Record<string, string> {
+  if (useSigningBackend) {
+    return { accountId: account.id };
+  }
+
+  const timestamp = Math.floor(getServerTime() / 1000).toString();
+  return {
+    apiKey: account.apiKey,
+    passphrase: account.passphrase,
+    timestamp,
+    sign: generateSignature(
+      'GET',
+      '/user/verify',
+      '',
+      '',
+      timestamp,
+      account.apiSecret,
+    ),
+  };
+}
+
+// Thrown for every failed Bitget request, with enough context for the UI to
+// explain what went wrong
+export class BitgetApiError extends Error {
+  status: number; // HTTP status, 0 when no response arrived
+  code: string; // Bitget error code, '' when the response carried none
+  endpoint: string;
+  accountId?: string;
+  timedOut: boolean;
+
+  constructor(
+    message: string,
+    details: {
+      status: number;
+      code: string;
+      endpoint: string;
+      accountId?: string;
+      timedOut?: boolean;
+    },
+  ) {
+    super(message);
+    this.name = 'BitgetApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.endpoint = details.endpoint;
+    this.accountId = details.accountId;
+    this.timedOut = details.timedOut ?? false;
+  }
+
+  // Rate limits, server errors, timeouts and network failures are transient
+  get retryable(): boolean {
+    return this.status === 0 || this.status === 429 || this.status >= 500;
+  }
+}
+
+// Explanations for the Bitget codes caused by account setup rather than
+// the request itself
+const ERROR_HINTS: { [code: string]: string } = {
+  '40006': 'Invalid API key',
+  '40008': 'Request timestamp expired, check the system clock',
+  '40009': 'Signature rejected, check the API secret',
+  '40012': 'API key or passphrase is incorrect',
+  '40014': 'API key lacks the permission for this request',
+  '40018': 'IP address is not whitelisted for this API key',
+};
+
+// Readable message for a failed request, for showing in the UI
+export function getApiErrorMessage(error: unknown): string {
+  if (!(error instanceof BitgetApiError)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  if (error.timedOut) {
+    return 'Bitget did not respond in time';
+  }
+  if (error.status === 429 || error.code === '429') {
+    return 'Rate limited by Bitget, try again shortly';
+  }
+  if (error.status >= 500) {
+    return `Bitget is unavailable (HTTP ${error.status})`;
+  }
+  const hint = ERROR_HINTS[error.code];
+  return hint ? `${hint} (${error.code})` : error.message;
+}
+
+const REQUEST_TIMEOUT = 10000;
+// Retries after the first attempt, for idempotent requests only
+const MAX_RETRIES = 3;
+
+const buildQueryString = (params?: Record<string, string | number>): string =>
+  params && Object.keys(params).length > 0
+    ? '?' +
+      new URLSearchParams(
+        Object.entries(params).map(([k, v]) => [k, String(v)]),
+      ).toString()
+    : '';
+
+// Send one request after waiting for the endpoint's rate limit, aborting
+// it after REQUEST_TIMEOUT. HTTP errors and non-00000 codes are thrown as
+// BitgetApiError.
+async function sendRequest<T>(
+  endpoint: string,
+  url: string,
+  init: RequestInit,
+  account?: BitgetAccount,
+): Promise<{ code: string; msg: string; data: T }> {
+  await throttle(endpoint, account?.id);
+
+  const context = { endpoint, accountId: account?.id };
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      throw new BitgetApiError(
+        timedOut
+          ? `Request timed out after ${REQUEST_TIMEOUT / 1000}s`
+          : `Network error: ${error instanceof Error ? error.message : String(error)}`,
+        { ...context, status: 0, code: '', timedOut },
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('❌ API Error Details:', {
+        account: account?.name,
+        url,
+        status: response.status,
+        statusText: response.statusText,
+        errorBody: errorText,
+      });
+      let code = '';
+      try {
+        code = String(JSON.parse(errorText).code ?? '');
+      } catch {
+        // Not a Bitget error body, e.g. a proxy error page
+      }
+      throw new BitgetApiError(
+        `HTTP error! status: ${response.status}, body: ${errorText}`,
+        { ...context, status: response.status, code },
+      );
+    }
+
+    const result = await response.json();
+    if (result.code !== '00000') {
+      throw new BitgetApiError(`API Error: ${result.msg}`, {
+        ...context,
+        status: response.status,
+        code: String(result.code),
+      });
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof BitgetApiError || !controller.signal.aborted) {
+      throw error;
+    }
+    // Aborted while reading the body
+    throw new BitgetApiError(
+      `Request timed out after ${REQUEST_TIMEOUT / 1000}s`,
+      { ...context, status: 0, code: '', timedOut: true },
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Run `send`, retrying transient failures with backoff when `idempotent`.
+// Orders and other writes are never retried: a timed out request may still
+// have gone through.
+async function withRetry<T>(
+  send: () => Promise<T>,
+  idempotent: boolean,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send();
+    } catch (error) {
+      if (
+        !idempotent ||
+        attempt >= MAX_RETRIES ||
+        !(error instanceof BitgetApiError && error.retryable)
+      ) {
+        throw error;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, getRetryDelay(attempt)),
+      );
+    }
+  }
+}
+
+// Signed request for private endpoints. GET requests are retried; headers
+// are rebuilt for every attempt so the timestamp stays fresh.
 async function makeApiRequest<T>(
   account: BitgetAccount,
   method: 'GET' | 'POST',
@@ -137,111 +662,187 @@ async function makeApiRequest<T>(
   params?: Record<string, string | number>,
   body?: Record<string, unknown>,
 ): Promise<{ code: string; msg: string; data: T }> {
-  const baseUrl = ''; // Use proxy instead of direct API calls
-  const requestPath = endpoint;
+  const queryString = buildQueryString(params);
+  const requestBody = method === 'POST' && body ? JSON.stringify(body) : '';
+  const fullUrl =
+    (useSigningBackend ? '' : apiBaseUrl) + endpoint + queryString;
 
-  let queryString = '';
-  if (params && Object.keys(params).length > 0) {
-    queryString =
-      '?' +
-      new URLSearchParams(
-        Object.entries(params).map(([k, v]) => [k, String(v)]),
-      ).toString();
+  const send = () =>
+    withRetry(() => {
+      const headers = useSigningBackend
+        ? {
+            'X-Account-Id': account.id,
+            'Content-Type': 'application/json',
+            locale: 'en-US',
+          }
+        : createHeaders(method, endpoint, queryString, requestBody, account);
+
+      return sendRequest<T>(
+        endpoint,
+        fullUrl,
+        {
+          method,
+          headers,
+          body: method === 'POST' ? requestBody : undefined,
+        },
+        account,
+      );
+    }, method === 'GET');
+
+  try {
+    return await send();
+  } catch (error) {
+    // A request rejected for its timestamp was never executed, so it is
+    // safe to resync the clock and send it once more
+    if (!(error instanceof BitgetApiError && error.code === '40008')) {
+      throw error;
+    }
+    if ((await syncServerTime().catch(() => null)) === null) {
+      throw error;
+    }
+    return send();
   }
+}
 
-  const requestBody = method === 'POST' && body ? JSON.stringify(body) : '';
-  const headers = createHeaders(
-    method,
-    requestPath,
-    queryString,
-    requestBody,
-    account,
+// Unsigned request for public market endpoints
+async function makePublicRequest<T>(
+  endpoint: string,
+  params?: Record<string, string | number>,
+): Promise<{ code: string; msg: string; data: T }> {
+  const fullUrl =
+    (useSigningBackend ? '' : apiBaseUrl) + endpoint + buildQueryString(params);
+
+  return withRetry(
+    () =>
+      sendRequest<T>(endpoint, fullUrl, {
+        headers: { 'Content-Type': 'application/json', locale: 'en-US' },
+      }),
+    true,
   );
+}
 
-  const fullUrl = baseUrl + requestPath + queryString;
-  const response = await fetch(fullUrl, {
-    method,
-    headers,
-    body: method === 'POST' ? requestBody : undefined,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('❌ API Error Details:', {
-      account: account.name,
-      apiKey: account.apiKey,
-      url: fullUrl,
-      status: response.status,
-      statusText: response.statusText,
-      errorBody: errorText,
-      requestHeaders: headers,
-    });
-    throw new Error(
-      `HTTP error! status: ${response.status}, body: ${errorText}`,
-    );
-  }
+// Measure the offset to Bitget's clock, which signed requests and the
+// WebSocket login then use for their timestamps. Returns the smoothed
+// offset, or null when the sample was discarded.
+export async function syncServerTime(): Promise<number | null> {
+  const sentAt = Date.now();
+  const response = await makePublicRequest<{ serverTime: string }>(
+    '/api/v2/public/time',
+  );
+
+  return recordServerTime(
+    parseInt(response.data.serverTime, 10),
+    sentAt,
+    Date.now(),
+  );
+}
+
+// Get the tradable contracts of a product type
+export async function getContracts(
+  productType: ProductType = 'USDT-FUTURES',
+): Promise<ContractSpec[]> {
+  const response = await makePublicRequest<BitgetContract[]>(
+    '/api/v2/mix/market/contracts',
+    { productType },
+  );
+
+  return response.data
+    .filter((contract) => contract.symbolStatus === 'normal')
+    .map(toContractSpec);
+}
+
+// Get candles as [ts, open, high, low, close, baseVolume, quoteVolume],
+// oldest first
+export async function getCandles(
+  symbol: string,
+  granularity: string = '1H',
+  limit: number = 100,
+  productType: ProductType = 'USDT-FUTURES',
+): Promise<string[][]> {
+  const response = await makePublicRequest<string[][]>(
+    '/api/v2/mix/market/candles',
+    { symbol, productType, granularity, limit },
+  );
 
-  const result = await response.json();
-  return result;
+  return response.data;
 }
 
-// Get account balance
+// Get the current funding rate and next settlement time of a contract
+export async function getFundingInfo(
+  symbol: string,
+  productType: ProductType = 'USDT-FUTURES',
+): Promise<FundingInfo> {
+  const params = { symbol, productType };
+  const [rateResponse, timeResponse] = await Promise.all([
+    makePublicRequest<{ symbol: string; fundingRate: string }[]>(
+      '/api/v2/mix/market/current-fund-rate',
+      params,
+    ),
+    makePublicRequest<{ symbol: string; nextFundingTime: string }[]>(
+      '/api/v2/mix/market/funding-time',
+      params,
+    ),
+  ]);
+
+  return {
+    symbol,
+    fundingRate: parseFloat(rateResponse.data[0]?.fundingRate ?? '0'),
+    nextFundingTime: parseInt(timeResponse.data[0]?.nextFundingTime ?? '0', 10),
+  };
+}
+
+// Get the balances of one product type, one per margin coin
 export async function getAccountBalance(
   account: BitgetAccount,
+  productType: ProductType = 'USDT-FUTURES',
 ): Promise<BitgetAccountBalance[]> {
   const response = await makeApiRequest<BitgetAccountBalance[]>(
     account,
     'GET',
     '/api/mix/v1/account/accounts',
-    { productType: 'umcbl' },
+    { productType: V1_PRODUCT_TYPES[productType] },
   );
 
-  if (response.code !== '00000') {
-    throw new Error(`API Error: ${response.msg}`);
-  }
-
   return response.data;
 }
 
 // Get positions
 export async function getPositions(
   account: BitgetAccount,
+  productType: ProductType = 'USDT-FUTURES',
 ): Promise<BitgetPosition[]> {
   const response = await makeApiRequest<BitgetPosition[]>(
     account,
     'GET',
     '/api/mix/v1/position/allPosition',
-    { productType: 'umcbl' },
+    { productType: V1_PRODUCT_TYPES[productType] },
   );
 
-  if (response.code !== '00000') {
-    throw new Error(`API Error: ${response.msg}`);
-  }
-
   return response.data;
 }
 
-// Get orders
+// Get open orders. Coin-margined orders are listed without a margin coin
+// filter, since each contract settles in its own coin.
 export async function getOrders(
   account: BitgetAccount,
+  productType: ProductType = 'USDT-FUTURES',
 ): Promise<BitgetOrder[]> {
-  try {
-    // Try different orders endpoint or add required parameters
-    const response = await makeApiRequest<BitgetOrder[]>(
-      account,
-      'GET',
-      '/api/mix/v1/order/marginCoinCurrent',
-      { productType: 'umcbl', marginCoin: 'USDT' },
-    );
+  const params: Record<string, string> = {
+    productType: V1_PRODUCT_TYPES[productType],
+  };
+  const marginCoin = SETTLEMENT_COINS[productType];
+  if (marginCoin) {
+    params.marginCoin = marginCoin;
+  }
 
-    if (response.code !== '00000') {
-      return []; // Return empty array if orders endpoint fails
-    }
+  const response = await makeApiRequest<BitgetOrder[]>(
+    account,
+    'GET',
+    '/api/mix/v1/order/marginCoinCurrent',
+    params,
+  );
 
-    return response.data;
-  } catch {
-    return []; // Return empty array if orders endpoint fails
-  }
+  return response.data;
 }
 
 // Cancel order
@@ -250,23 +851,592 @@ export async function cancelOrder(
   orderId: string,
   symbol: string,
   marginCoin: string = 'USDT',
+  productType: ProductType = 'USDT-FUTURES',
 ): Promise<boolean> {
-  const response = await makeApiRequest<{ orderId: string }>(
+  await makeApiRequest<{ orderId: string }>(
     account,
     'POST',
     '/api/mix/v1/order/cancel-order',
     {},
+    {
+      orderId,
+      symbol: toV1Symbol(symbol, productType),
+      productType: V1_PRODUCT_TYPES[productType],
+      marginCoin,
+    },
+  );
+
+  return true;
+}
+
+// Get the balances of one product type from the v2 endpoint
+export async function getAccountBalanceV2(
+  account: BitgetAccount,
+  productType: ProductType = 'USDT-FUTURES',
+): Promise<BitgetV2Account[]> {
+  const response = await makeApiRequest<BitgetV2Account[]>(
+    account,
+    'GET',
+    '/api/v2/mix/account/accounts',
+    { productType },
+  );
+
+  return response.data;
+}
+
+// Get positions from the v2 endpoint
+export async function getPositionsV2(
+  account: BitgetAccount,
+  productType: ProductType = 'USDT-FUTURES',
+): Promise<BitgetV2Position[]> {
+  const params: Record<string, string> = { productType };
+  const marginCoin = SETTLEMENT_COINS[productType];
+  if (marginCoin) {
+    params.marginCoin = marginCoin;
+  }
+
+  const response = await makeApiRequest<BitgetV2Position[]>(
+    account,
+    'GET',
+    '/api/v2/mix/position/all-position',
+    params,
+  );
+
+  return response.data;
+}
+
+// Get open orders from the v2 endpoint, which returns null instead of an
+// empty list
+export async function getOrdersV2(
+  account: BitgetAccount,
+  productType: ProductType = 'USDT-FUTURES',
+): Promise<BitgetV2Order[]> {
+  const response = await makeApiRequest<{
+    entrustedList: BitgetV2Order[] | null;
+    endId: string | null;
+  }>(account, 'GET', '/api/v2/mix/order/orders-pending', { productType });
+
+  return response.data.entrustedList ?? [];
+}
+
+// Cancel an order through the v2 endpoint
+export async function cancelOrderV2(
+  account: BitgetAccount,
+  orderId: string,
+  symbol: string,
+  marginCoin: string = 'USDT',
+  productType: ProductType = 'USDT-FUTURES',
+): Promise<boolean> {
+  await makeApiRequest<{ orderId: string }>(
+    account,
+    'POST',
+    '/api/v2/mix/order/cancel-order',
+    {},
     {
       orderId,
       symbol,
-      productType: 'umcbl',
+      productType,
       marginCoin,
     },
   );
 
-  if (response.code !== '00000') {
-    throw new Error(`API Error: ${response.msg}`);
+  return true;
+}
+
+// Throw when the size or a price does not fit the contract spec, before
+// Bitget rejects the order
+const checkContractSpec = (
+  symbol: string,
+  size: string,
+  prices: (string | undefined)[],
+): void => {
+  const spec = getContractSpec(symbol);
+  if (!spec) return;
+
+  const validationError = [undefined, ...prices]
+    .map((price) =>
+      validateOrder(
+        spec,
+        parseFloat(size),
+        price ? parseFloat(price) : undefined,
+      ),
+    )
+    .find((error) => error !== null);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+};
+
+// Place order
+export async function placeOrder(
+  account: BitgetAccount,
+  params: PlaceOrderParams,
+): Promise<PlaceOrderResult> {
+  if (params.orderType === 'limit' && !params.price) {
+    throw new Error('Price is required for limit orders');
+  }
+
+  // Closing orders may need to flatten a remainder below the minimum size
+  if (params.side.startsWith('open_')) {
+    checkContractSpec(
+      params.symbol,
+      params.size,
+      params.orderType === 'limit' ? [params.price] : [],
+    );
+  }
+
+  const body: Record<string, unknown> = {
+    symbol: toV1Symbol(params.symbol, params.productType),
+    marginCoin: getOrderMarginCoin(params.marginCoin, params.productType),
+    size: params.size,
+    side: params.side,
+    orderType: params.orderType,
+  };
+  if (params.orderType === 'limit') {
+    body.price = params.price;
+    body.timeInForceValue = params.timeInForce || 'normal';
+  }
+  if (params.reduceOnly) {
+    body.reduceOnly = true;
+  }
+  if (params.clientOid) {
+    body.clientOid = params.clientOid;
+  }
+
+  const response = await makeApiRequest<PlaceOrderResult>(
+    account,
+    'POST',
+    '/api/mix/v1/order/placeOrder',
+    {},
+    body,
+  );
+
+  return response.data;
+}
+
+// Look up an order by the clientOid it was placed with, in the order
+// history format. Returns null when Bitget has no such order.
+export async function getOrderByClientOid(
+  account: BitgetAccount,
+  symbol: string,
+  clientOid: string,
+  productType: ProductType = 'USDT-FUTURES',
+): Promise<BitgetHistoryOrder | null> {
+  try {
+    const response = await makeApiRequest<BitgetHistoryOrder>(
+      account,
+      'GET',
+      '/api/mix/v1/order/detail',
+      { symbol: toV1Symbol(symbol, productType), clientOid },
+    );
+    return response.data;
+  } catch (error) {
+    if (error instanceof BitgetApiError && error.code === '40768') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Get open plan and TP/SL orders of a product type
+export async function getPlanOrders(
+  account: BitgetAccount,
+  productType: ProductType = 'USDT-FUTURES',
+): Promise<BitgetPlanOrder[]> {
+  const responses = await Promise.all(
+    ['plan', 'profit_loss'].map((isPlan) =>
+      makeApiRequest<BitgetPlanOrder[] | null>(
+        account,
+        'GET',
+        '/api/mix/v1/plan/currentPlan',
+        { productType: V1_PRODUCT_TYPES[productType], isPlan },
+      ),
+    ),
+  );
+
+  return responses.flatMap((response) =>
+    (response.data ?? []).map((order) => ({ ...order, productType })),
+  );
+}
+
+// Place a take-profit, stop-loss or trailing stop on an open position
+export async function placeTpslOrder(
+  account: BitgetAccount,
+  params: PlaceTpslParams,
+): Promise<PlaceOrderResult> {
+  if (params.planType === 'moving_plan' && !params.rangeRate) {
+    throw new Error('Callback rate is required for trailing stops');
+  }
+  checkContractSpec(params.symbol, params.size, [params.triggerPrice]);
+
+  const body: Record<string, unknown> = {
+    symbol: toV1Symbol(params.symbol, params.productType),
+    marginCoin: getOrderMarginCoin(params.marginCoin, params.productType),
+    planType: params.planType,
+    triggerPrice: params.triggerPrice,
+    triggerType: params.triggerType || 'market_price',
+    holdSide: params.holdSide,
+    size: params.size,
+  };
+  if (params.planType === 'moving_plan') {
+    body.rangeRate = params.rangeRate;
+  }
+  if (params.clientOid) {
+    body.clientOid = params.clientOid;
+  }
+
+  const response = await makeApiRequest<PlaceOrderResult>(
+    account,
+    'POST',
+    '/api/mix/v1/plan/placeTPSL',
+    {},
+    body,
+  );
+
+  return response.data;
+}
+
+// Place a trigger order that submits a market or limit order once the
+// trigger price is reached
+export async function placePlanOrder(
+  account: BitgetAccount,
+  params: PlacePlanParams,
+): Promise<PlaceOrderResult> {
+  if (params.orderType === 'limit' && !params.executePrice) {
+    throw new Error('Execute price is required for limit plan orders');
+  }
+  checkContractSpec(params.symbol, params.size, [
+    params.triggerPrice,
+    params.orderType === 'limit' ? params.executePrice : undefined,
+  ]);
+
+  const body: Record<string, unknown> = {
+    symbol: toV1Symbol(params.symbol, params.productType),
+    marginCoin: getOrderMarginCoin(params.marginCoin, params.productType),
+    size: params.size,
+    side: params.side,
+    orderType: params.orderType,
+    triggerPrice: params.triggerPrice,
+    triggerType: params.triggerType || 'market_price',
+    executePrice: params.orderType === 'limit' ? params.executePrice : '0',
+  };
+  if (params.reduceOnly) {
+    body.reduceOnly = true;
+  }
+  if (params.clientOid) {
+    body.clientOid = params.clientOid;
+  }
+
+  const response = await makeApiRequest<PlaceOrderResult>(
+    account,
+    'POST',
+    '/api/mix/v1/plan/placePlan',
+    {},
+    body,
+  );
+
+  return response.data;
+}
+
+const isTpslPlan = (planType: PlanType): boolean => planType !== 'normal_plan';
+
+// Move the trigger price of a plan or TP/SL order
+export async function modifyPlanOrder(
+  account: BitgetAccount,
+  order: BitgetPlanOrder,
+  triggerPrice: string,
+  executePrice?: string,
+): Promise<PlaceOrderResult> {
+  const body: Record<string, unknown> = {
+    orderId: order.orderId,
+    symbol: toV1Symbol(order.symbol, order.productType),
+    marginCoin: getOrderMarginCoin(order.marginCoin, order.productType),
+    triggerPrice,
+    triggerType: order.triggerType,
+  };
+  if (isTpslPlan(order.planType)) {
+    body.planType = order.planType;
+    if (order.planType === 'moving_plan') {
+      body.rangeRate = order.rangeRate;
+    }
+  } else {
+    body.orderType = order.orderType;
+    body.executePrice =
+      order.orderType === 'limit' ? executePrice || order.executePrice : '0';
+  }
+
+  const response = await makeApiRequest<PlaceOrderResult>(
+    account,
+    'POST',
+    isTpslPlan(order.planType)
+      ? '/api/mix/v1/plan/modifyTPSLPlan'
+      : '/api/mix/v1/plan/modifyPlan',
+    {},
+    body,
+  );
+
+  return response.data;
+}
+
+// Cancel a plan or TP/SL order
+export async function cancelPlanOrder(
+  account: BitgetAccount,
+  order: BitgetPlanOrder,
+): Promise<boolean> {
+  await makeApiRequest<PlaceOrderResult>(
+    account,
+    'POST',
+    '/api/mix/v1/plan/cancelPlan',
+    {},
+    {
+      orderId: order.orderId,
+      symbol: toV1Symbol(order.symbol, order.productType),
+      marginCoin: getOrderMarginCoin(order.marginCoin, order.productType),
+      planType: order.planType,
+    },
+  );
+
+  return true;
+}
+
+// Get one page of filled and cancelled orders, newest first
+export async function getOrderHistory(
+  account: BitgetAccount,
+  startTime: number,
+  endTime: number,
+  lastEndId?: string,
+  productType: ProductType = 'USDT-FUTURES',
+  pageSize: number = 100,
+): Promise<HistoryPage<BitgetHistoryOrder>> {
+  const params: Record<string, string | number> = {
+    productType: V1_PRODUCT_TYPES[productType],
+    startTime,
+    endTime,
+    pageSize,
+  };
+  if (lastEndId) {
+    params.lastEndId = lastEndId;
   }
 
+  const response = await makeApiRequest<{
+    nextFlag: boolean;
+    endId: string;
+    orderList: BitgetHistoryOrder[] | null;
+  }>(account, 'GET', '/api/mix/v1/order/historyProductType', params);
+
+  return {
+    items: response.data.orderList ?? [],
+    lastEndId: response.data.nextFlag ? response.data.endId : null,
+  };
+}
+
+// Get one page of fills, newest first
+export async function getFills(
+  account: BitgetAccount,
+  startTime: number,
+  endTime: number,
+  lastEndId?: string,
+  productType: ProductType = 'USDT-FUTURES',
+  limit: number = 100,
+): Promise<HistoryPage<BitgetFill>> {
+  const params: Record<string, string | number> = {
+    productType: V1_PRODUCT_TYPES[productType],
+    startTime,
+    endTime,
+    limit,
+  };
+  if (lastEndId) {
+    params.lastEndId = lastEndId;
+  }
+
+  const response = await makeApiRequest<BitgetFill[] | null>(
+    account,
+    'GET',
+    '/api/mix/v1/order/allFills',
+    params,
+  );
+
+  // A full page means there may be more
+  const fills = response.data ?? [];
+  return {
+    items: fills,
+    lastEndId: fills.length === limit ? fills[fills.length - 1].tradeId : null,
+  };
+}
+
+// Get one page of funding fee settlements, newest first
+export async function getFundingBills(
+  account: BitgetAccount,
+  startTime: number,
+  endTime: number,
+  lastEndId?: string,
+  productType: ProductType = 'USDT-FUTURES',
+  pageSize: number = 100,
+): Promise<HistoryPage<BitgetBill>> {
+  const params: Record<string, string | number> = {
+    productType: V1_PRODUCT_TYPES[productType],
+    startTime,
+    endTime,
+    pageSize,
+    business: 'contract_main_settle_fee',
+  };
+  if (lastEndId) {
+    params.lastEndId = lastEndId;
+  }
+
+  const response = await makeApiRequest<{
+    result: BitgetBill[] | null;
+    lastEndId: string | null;
+    nextFlag: boolean;
+  }>(account, 'GET', '/api/mix/v1/account/accountBusinessBill', params);
+
+  return {
+    items: response.data.result ?? [],
+    lastEndId: response.data.nextFlag ? response.data.lastEndId : null,
+  };
+}
+
+// Get the margin mode, position mode and leverage of a symbol
+export async function getSymbolAccount(
+  account: BitgetAccount,
+  symbol: string,
+  productType: ProductType = 'USDT-FUTURES',
+  marginCoin?: string,
+): Promise<BitgetSymbolAccount> {
+  const response = await makeApiRequest<BitgetSymbolAccount>(
+    account,
+    'GET',
+    '/api/mix/v1/account/account',
+    {
+      symbol: toV1Symbol(symbol, productType),
+      marginCoin: getOrderMarginCoin(marginCoin, productType),
+    },
+  );
+
+  return response.data;
+}
+
+// Set a symbol's leverage. Cross margin has one leverage for both sides;
+// isolated margin in hedge mode needs the side.
+export async function setLeverage(
+  account: BitgetAccount,
+  symbol: string,
+  leverage: number,
+  holdSide?: 'long' | 'short',
+  productType: ProductType = 'USDT-FUTURES',
+  marginCoin?: string,
+): Promise<boolean> {
+  const body: Record<string, unknown> = {
+    symbol: toV1Symbol(symbol, productType),
+    marginCoin: getOrderMarginCoin(marginCoin, productType),
+    leverage: leverage.toString(),
+  };
+  if (holdSide) {
+    body.holdSide = holdSide;
+  }
+
+  await makeApiRequest<unknown>(
+    account,
+    'POST',
+    '/api/mix/v1/account/setLeverage',
+    {},
+    body,
+  );
+
+  return true;
+}
+
+// Switch a symbol between cross and isolated margin. Bitget rejects this
+// while the symbol has open positions or orders.
+export async function setMarginMode(
+  account: BitgetAccount,
+  symbol: string,
+  marginMode: MarginMode,
+  productType: ProductType = 'USDT-FUTURES',
+  marginCoin?: string,
+): Promise<boolean> {
+  await makeApiRequest<unknown>(
+    account,
+    'POST',
+    '/api/mix/v1/account/setMarginMode',
+    {},
+    {
+      symbol: toV1Symbol(symbol, productType),
+      marginCoin: getOrderMarginCoin(marginCoin, productType),
+      marginMode,
+    },
+  );
+
+  return true;
+}
+
+// Switch between hedge and one-way mode for all symbols of a product type.
+// Bitget rejects this while it has any open positions or orders.
+export async function setPositionMode(
+  account: BitgetAccount,
+  holdMode: HoldMode,
+  productType: ProductType = 'USDT-FUTURES',
+): Promise<boolean> {
+  await makeApiRequest<unknown>(
+    account,
+    'POST',
+    '/api/mix/v1/account/setPositionMode',
+    {},
+    { productType: V1_PRODUCT_TYPES[productType], holdMode },
+  );
+
   return true;
 }
+
+// Add (positive amount) or remove (negative amount) isolated margin
+export async function adjustMargin(
+  account: BitgetAccount,
+  symbol: string,
+  holdSide: 'long' | 'short',
+  amount: number,
+  productType: ProductType = 'USDT-FUTURES',
+  marginCoin?: string,
+): Promise<boolean> {
+  await makeApiRequest<unknown>(
+    account,
+    'POST',
+    '/api/mix/v1/account/setMargin',
+    {},
+    {
+      symbol: toV1Symbol(symbol, productType),
+      marginCoin: getOrderMarginCoin(marginCoin, productType),
+      holdSide,
+      amount: amount.toString(),
+    },
+  );
+
+  return true;
+}
+
+// Move USDT between the futures wallets of two (sub-)accounts. Must be
+// called with the main account's key.
+export async function transferBetweenAccounts(
+  mainAccount: BitgetAccount,
+  fromUserId: string,
+  toUserId: string,
+  amount: string,
+  coin: string = 'USDT',
+): Promise<string> {
+  const response = await makeApiRequest<{ transferId: string }>(
+    mainAccount,
+    'POST',
+    '/api/v2/spot/wallet/subaccount-transfer',
+    {},
+    {
+      fromType: 'usdt_futures',
+      toType: 'usdt_futures',
+      amount,
+      coin,
+      fromUserId,
+      toUserId,
+      clientOid: `hedger-transfer-${Date.now()}`,
+    },
+  );
+
+  return response.data.transferId;
+}
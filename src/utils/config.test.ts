@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Config } from './config';
+import { getChangedCredentials, loadConfig, saveConfig } from './config';
+
+const fileConfig: Config = {
+  globalPassword: 'correct horse',
+  accounts: [
+    {
+      id: '1',
+      name: 'Main',
+      apiKey: 'key-1',
+      apiSecret: 'secret-1',
+      passphrase: 'pass-1',
+      equity: 1000,
+      enabled: true,
+    },
+  ],
+  settings: {
+    apiBaseUrl: 'https://api.bitget.com',
+    refreshInterval: 2000,
+    defaultSymbol: 'BTCUSD.P',
+  },
+};
+
+// In-memory stand-in for the browser's localStorage
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  };
+};
+
+// Serves config.json and no signing backend
+const stubConfigFile = (config: Config) => {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string) =>
+      url === '/config.json'
+        ? new Response(JSON.stringify(config), {
+            headers: { 'content-type': 'application/json' },
+          })
+        : new Response('not found', { status: 404 }),
+    ),
+  );
+};
+
+describe('config storage', () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(() => {
+    storage = createStorage();
+    vi.stubGlobal('localStorage', storage);
+    stubConfigFile(fileConfig);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('saves settings without plaintext credentials', async () => {
+    expect(await saveConfig(fileConfig)).toBe(true);
+
+    const stored = JSON.parse(storage.getItem('bitget-hedger-config')!);
+    expect(stored.accounts[0]).toMatchObject({
+      name: 'Main',
+      apiKey: '',
+      apiSecret: '',
+      passphrase: '',
+    });
+    expect(stored.globalPassword).toBeUndefined();
+  });
+
+  it('fills credentials back in from config.json', async () => {
+    await saveConfig({
+      ...fileConfig,
+      accounts: [{ ...fileConfig.accounts[0], name: 'Renamed' }],
+    });
+
+    const config = await loadConfig();
+    expect(config?.accounts[0]).toMatchObject({
+      name: 'Renamed',
+      apiKey: 'key-1',
+      apiSecret: 'secret-1',
+      passphrase: 'pass-1',
+    });
+  });
+
+  it('never stores the runtime backend flag', async () => {
+    await saveConfig({ ...fileConfig, backend: true });
+
+    const stored = JSON.parse(storage.getItem('bitget-hedger-config')!);
+    expect(stored.backend).toBeUndefined();
+  });
+
+  it('lists accounts whose credentials were added or changed', () => {
+    const [account] = fileConfig.accounts;
+    const edited: Config = {
+      ...fileConfig,
+      accounts: [
+        { ...account, name: 'Renamed' },
+        { ...account, id: '2', name: 'New' },
+      ],
+    };
+    expect(
+      getChangedCredentials(edited, fileConfig).map((a) => a.name),
+    ).toEqual(['New']);
+
+    edited.accounts[0].apiSecret = 'secret-2';
+    expect(
+      getChangedCredentials(edited, fileConfig).map((a) => a.name),
+    ).toEqual(['Renamed', 'New']);
+  });
+
+  it('scrubs credentials saved by earlier versions', async () => {
+    storage.setItem('bitget-config', JSON.stringify(fileConfig));
+
+    await loadConfig();
+
+    const stored = storage.getItem('bitget-hedger-config')!;
+    expect(stored).not.toContain('secret-1');
+    expect(storage.getItem('bitget-config')).toBeNull();
+  });
+});
@@ -1,3 +1,6 @@
+import type { ProductType } from './bitgetApi';
+import type { ReportingCurrency } from './currency';
+
 // Configuration types
 export interface ConfigAccount {
   id: string;
@@ -7,19 +10,102 @@ export interface ConfigAccount {
   passphrase: string;
   equity: number;
   enabled: boolean;
+  userId?: string; // Bitget UID, needed for transfers between accounts
+}
+
+export interface HedgeTarget {
+  symbol: string; // API symbol, e.g. BTCUSDT
+  longAccountId: string;
+  shortAccountId: string;
+  ratio: number; // Target short size per unit of long (1 = flat)
+  tolerance: number; // Allowed deviation in contracts before rebalancing
+  minOrderSize: number;
+}
+
+// Liquidation alert thresholds, see utils/riskMonitor.ts
+export interface RiskSettings {
+  warningPct: number; // Distance to liquidation in % of mark price
+  criticalPct: number;
+  warningAtr: number; // Distance to liquidation in ATRs
+  criticalAtr: number;
+  sound: boolean;
+  notifications: boolean; // Browser notifications
+}
+
+// Collateral policy for hedge legs, see utils/marginPolicy.ts
+export interface MarginPolicySettings {
+  autoExecute: boolean;
+  mainAccountId: string; // Main account whose key performs sub-account transfers
+  riskRateThreshold: number; // crossRiskRate that triggers a top-up
+  targetRiskRate: number; // crossRiskRate to top up to
+  liquidationDistancePct: number; // Liquidation distance that triggers a top-up
+  targetDistancePct: number; // Isolated positions are topped up to this distance
+  maxTransferShare: number; // Max share of the donor's maxTransferOut to move
+  minTransfer: number; // Smallest transfer worth making, in USDT
+}
+
+// Encrypted account credentials, see utils/vault.ts
+export interface EncryptedVault {
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
 }
 
 export interface Config {
+  globalPassword?: string; // Plaintext configs only, removed on encryption
+  vault?: EncryptedVault;
   accounts: ConfigAccount[];
   settings: {
     apiBaseUrl: string;
     refreshInterval: number;
     defaultSymbol: string;
+    autoLockMinutes?: number;
+    apiVersion?: 'v1' | 'v2'; // Bitget REST endpoints, v2 unless set
+    productTypes?: ProductType[]; // Product lines to load, all unless set
+    reportingCurrency?: ReportingCurrency; // Totals in this, USDT unless set
   };
+  hedge?: {
+    autoExecute: boolean;
+    targets: HedgeTarget[];
+  };
+  risk?: RiskSettings;
+  margin?: MarginPolicySettings;
+  backend?: boolean; // Loaded from the signing backend, credentials stay server-side
 }
 
-// Load configuration from config.json
-export const loadConfig = async (): Promise<Config | null> => {
+// Load the credential-free configuration from the signing backend, if running
+const loadBackendConfig = async (): Promise<Config | null> => {
+  try {
+    const response = await fetch('/backend/config');
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !contentType.includes('application/json')) {
+      return null;
+    }
+
+    const config: Config = await response.json();
+    return {
+      ...config,
+      accounts: config.accounts.map((account) => ({
+        ...account,
+        apiKey: '',
+        apiSecret: '',
+        passphrase: '',
+      })),
+      backend: true,
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Storage key for the config edited in the app
+const CONFIG_STORAGE_KEY = 'bitget-hedger-config';
+// Key previously used by saveConfig, migrated on load
+const LEGACY_CONFIG_STORAGE_KEY = 'bitget-config';
+
+// Load config.json
+const loadFileConfig = async (): Promise<Config> => {
   try {
     const response = await fetch('/config.json');
     if (!response.ok) {
@@ -38,36 +124,165 @@ export const loadConfig = async (): Promise<Config | null> => {
   }
 };
 
-// Save configuration to localStorage as backup
+// Config as kept in localStorage. Only the vault may hold credentials,
+// plaintext ones are blanked; backend is detected at runtime, never stored.
+const toStorageConfig = (config: Config): Config => {
+  const storedConfig: Config = { ...config };
+  delete storedConfig.backend;
+  if (config.vault) {
+    return storedConfig;
+  }
+
+  storedConfig.accounts = config.accounts.map((account) => ({
+    ...account,
+    apiKey: '',
+    apiSecret: '',
+    passphrase: '',
+  }));
+  delete storedConfig.globalPassword;
+  return storedConfig;
+};
+
+// Accounts added or with credentials changed since the previous config.
+// Without a vault these cannot be saved in the browser.
+export const getChangedCredentials = (
+  config: Config,
+  previous: Config,
+): ConfigAccount[] =>
+  config.accounts.filter((account) => {
+    const previousAccount = previous.accounts.find(
+      (candidate) => candidate.id === account.id,
+    );
+    return (
+      !previousAccount ||
+      previousAccount.apiKey !== account.apiKey ||
+      previousAccount.apiSecret !== account.apiSecret ||
+      previousAccount.passphrase !== account.passphrase
+    );
+  });
+
+// Fill the credentials kept out of storage back in from config.json
+const withFileCredentials = (config: Config, fileConfig: Config): Config => {
+  if (fileConfig.vault) {
+    return { ...config, vault: fileConfig.vault };
+  }
+
+  return {
+    ...config,
+    accounts: config.accounts.map((account) => {
+      const fileAccount = fileConfig.accounts.find(
+        (candidate) => candidate.id === account.id,
+      );
+      return fileAccount
+        ? {
+            ...account,
+            apiKey: fileAccount.apiKey,
+            apiSecret: fileAccount.apiSecret,
+            passphrase: fileAccount.passphrase,
+          }
+        : account;
+    }),
+  };
+};
+
+// Load configuration from the signing backend, the config saved in the app,
+// or config.json - in that order
+export const loadConfig = async (): Promise<Config | null> => {
+  const backendConfig = await loadBackendConfig();
+  if (backendConfig) {
+    return backendConfig;
+  }
+
+  const storedConfig = loadConfigFromStorage();
+  if (storedConfig?.vault) {
+    return storedConfig;
+  }
+  if (storedConfig) {
+    try {
+      return withFileCredentials(storedConfig, await loadFileConfig());
+    } catch {
+      return storedConfig;
+    }
+  }
+
+  return loadFileConfig();
+};
+
+// Save configuration to localStorage
 export const saveConfigToStorage = (config: Config): void => {
   try {
-    localStorage.setItem('bitget-hedger-config', JSON.stringify(config));
+    localStorage.setItem(
+      CONFIG_STORAGE_KEY,
+      JSON.stringify(toStorageConfig(config)),
+    );
   } catch (error) {
     console.error('Error saving config to localStorage:', error);
   }
 };
 
-// Load configuration from localStorage as backup
+// Load configuration from localStorage
 export const loadConfigFromStorage = (): Config | null => {
   try {
-    const stored = localStorage.getItem('bitget-hedger-config');
-    return stored ? JSON.parse(stored) : null;
+    const legacy = localStorage.getItem(LEGACY_CONFIG_STORAGE_KEY);
+    if (legacy && !localStorage.getItem(CONFIG_STORAGE_KEY)) {
+      localStorage.setItem(CONFIG_STORAGE_KEY, legacy);
+    }
+    localStorage.removeItem(LEGACY_CONFIG_STORAGE_KEY);
+
+    const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    // Scrub plaintext credentials saved by earlier versions
+    const config = toStorageConfig(JSON.parse(stored));
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+    return config;
   } catch (error) {
     console.error('Error loading config from localStorage:', error);
     return null;
   }
 };
 
-// Save configuration back to config.json (for development purposes)
+// Save configuration (browsers can't write config.json, so this persists
+// to localStorage - use exportConfig to get a file). Plaintext credentials
+// are not persisted, they come from config.json on the next load
 export const saveConfig = async (config: Config): Promise<boolean> => {
   try {
-    // In a real production app, this would need a backend endpoint
-    // For development, we can't write directly to files from browser
-
-    localStorage.setItem('bitget-config', JSON.stringify(config));
+    localStorage.setItem(
+      CONFIG_STORAGE_KEY,
+      JSON.stringify(toStorageConfig(config)),
+    );
     return true;
   } catch (error) {
     console.error('Error saving config:', error);
     return false;
   }
 };
+
+// Forget the config saved in the app and fall back to config.json
+export const clearStoredConfig = (): void => {
+  localStorage.removeItem(CONFIG_STORAGE_KEY);
+};
+
+// Download the configuration as a config.json file
+export const exportConfig = (config: Config): void => {
+  const blob = new Blob([JSON.stringify(config, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'config.json';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Parse and validate an imported config file
+export const parseConfigFile = async (file: File): Promise<Config> => {
+  const config = JSON.parse(await file.text());
+  if (!Array.isArray(config.accounts) || !config.settings) {
+    throw new Error('Invalid config file: missing accounts or settings');
+  }
+  return config;
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toContractSpec,
+  setContractSpecs,
+  getContractSpec,
+  validateOrder,
+  type BitgetContract,
+} from './contracts';
+
+const btcContract: BitgetContract = {
+  symbol: 'BTCUSDT',
+  baseCoin: 'BTC',
+  quoteCoin: 'USDT',
+  pricePlace: '1',
+  priceEndStep: '5',
+  volumePlace: '3',
+  sizeMultiplier: '0.001',
+  minTradeNum: '0.001',
+  maxLever: '125',
+  symbolStatus: 'normal',
+};
+
+describe('contracts', () => {
+  it('maps Bitget contract metadata to a spec', () => {
+    expect(toContractSpec(btcContract)).toEqual({
+      symbol: 'BTCUSDT',
+      baseCoin: 'BTC',
+      quoteCoin: 'USDT',
+      tickSize: 0.5,
+      sizeStep: 0.001,
+      minOrderSize: 0.001,
+      maxLeverage: 125,
+    });
+  });
+
+  it('looks up specs by plain or v1 symbol', () => {
+    setContractSpecs([toContractSpec(btcContract)]);
+
+    expect(getContractSpec('BTCUSDT')?.tickSize).toBe(0.5);
+    expect(getContractSpec('BTCUSDT_UMCBL')?.symbol).toBe('BTCUSDT');
+    expect(getContractSpec('ETHUSDT')).toBeUndefined();
+  });
+
+  it('validates size and price against the spec', () => {
+    const spec = toContractSpec(btcContract);
+
+    expect(validateOrder(spec, 0.012, 65000.5)).toBeNull();
+    expect(validateOrder(spec, 0.0005)).toBe(
+      'Minimum size for BTCUSDT is 0.001',
+    );
+    expect(validateOrder(spec, 0.0015)).toBe(
+      'Size for BTCUSDT must be a multiple of 0.001',
+    );
+    expect(validateOrder(spec, 0.01, 65000.3)).toBe(
+      'Price for BTCUSDT must be a multiple of 0.5',
+    );
+  });
+});
@@ -0,0 +1,105 @@
+// Contract specifications for the tradable symbol universe
+export interface ContractSpec {
+  symbol: string; // API symbol, e.g. BTCUSDT
+  baseCoin: string;
+  quoteCoin: string;
+  tickSize: number;
+  sizeStep: number;
+  minOrderSize: number;
+  maxLeverage: number;
+}
+
+// Raw contract from /api/v2/mix/market/contracts
+export interface BitgetContract {
+  symbol: string;
+  baseCoin: string;
+  quoteCoin: string;
+  pricePlace: string;
+  priceEndStep: string;
+  volumePlace: string;
+  sizeMultiplier: string;
+  minTradeNum: string;
+  maxLever: string;
+  symbolStatus: string;
+}
+
+const FAVOURITES_STORAGE_KEY = 'bitget-hedger-favourites';
+export const DEFAULT_FAVOURITES = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT'];
+
+// Known contracts, used to validate every order the app sends
+let contractSpecs: { [symbol: string]: ContractSpec } = {};
+
+export const toContractSpec = (contract: BitgetContract): ContractSpec => {
+  const pricePlace = parseInt(contract.pricePlace, 10) || 0;
+  return {
+    symbol: contract.symbol,
+    baseCoin: contract.baseCoin,
+    quoteCoin: contract.quoteCoin,
+    tickSize: parseFloat(
+      (
+        (parseFloat(contract.priceEndStep) || 1) * Math.pow(10, -pricePlace)
+      ).toFixed(pricePlace),
+    ),
+    sizeStep: parseFloat(contract.sizeMultiplier) || 0,
+    minOrderSize: parseFloat(contract.minTradeNum) || 0,
+    maxLeverage: parseFloat(contract.maxLever) || 0,
+  };
+};
+
+export const setContractSpecs = (specs: ContractSpec[]): void => {
+  contractSpecs = {};
+  specs.forEach((spec) => {
+    contractSpecs[spec.symbol] = spec;
+  });
+};
+
+// v1 endpoints use the BTCUSDT_UMCBL form of a symbol
+export const getContractSpec = (symbol: string): ContractSpec | undefined =>
+  contractSpecs[symbol.replace(/_(UMCBL|CMCBL|DMCBL)$/, '')];
+
+// True when value is a whole multiple of step (within float tolerance)
+const isMultipleOf = (value: number, step: number): boolean => {
+  if (step <= 0) return true;
+  const ratio = value / step;
+  return Math.abs(ratio - Math.round(ratio)) < 1e-8;
+};
+
+// Check an order size (and optional price) against the contract spec.
+// Returns an error message, or null when valid.
+export const validateOrder = (
+  spec: ContractSpec,
+  size: number,
+  price?: number,
+): string | null => {
+  if (!(size > 0)) {
+    return 'Size must be greater than 0';
+  }
+  if (size < spec.minOrderSize) {
+    return `Minimum size for ${spec.symbol} is ${spec.minOrderSize}`;
+  }
+  if (!isMultipleOf(size, spec.sizeStep)) {
+    return `Size for ${spec.symbol} must be a multiple of ${spec.sizeStep}`;
+  }
+  if (price !== undefined && !isMultipleOf(price, spec.tickSize)) {
+    return `Price for ${spec.symbol} must be a multiple of ${spec.tickSize}`;
+  }
+  return null;
+};
+
+export const loadFavourites = (): string[] => {
+  try {
+    const stored = localStorage.getItem(FAVOURITES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_FAVOURITES;
+  } catch (error) {
+    console.error('Error loading favourites from localStorage:', error);
+    return DEFAULT_FAVOURITES;
+  }
+};
+
+export const saveFavourites = (favourites: string[]): void => {
+  try {
+    localStorage.setItem(FAVOURITES_STORAGE_KEY, JSON.stringify(favourites));
+  } catch (error) {
+    console.error('Error saving favourites to localStorage:', error);
+  }
+};
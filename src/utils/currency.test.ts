@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { Balance, Position } from './exchangeClient';
+import {
+  convertAmount,
+  getBalanceValue,
+  getConversionSymbols,
+  getPositionPL,
+  getUsdtRate,
+  sumConverted,
+} from './currency';
+
+const prices = { BTCUSDT: 60000, ETHUSDT: 3000 };
+
+const balance = (overrides: Partial<Balance>): Balance => ({
+  productType: 'USDT-FUTURES',
+  marginCoin: 'USDT',
+  equity: 0,
+  usdtEquity: 0,
+  available: 0,
+  locked: 0,
+  maxTransferOut: 0,
+  unrealizedPL: 0,
+  crossRiskRate: 0,
+  ...overrides,
+});
+
+describe('currency', () => {
+  it('takes stablecoins at par until they have a live price', () => {
+    expect(getUsdtRate('USDT', prices)).toBe(1);
+    expect(getUsdtRate('USDC', prices)).toBe(1);
+    expect(getUsdtRate('USDC', { USDCUSDT: 0.999 })).toBe(0.999);
+    expect(getUsdtRate('SOL', prices)).toBeNull();
+  });
+
+  it('converts between coins through USDT', () => {
+    expect(convertAmount(2, 'ETH', 'BTC', prices)).toBeCloseTo(0.1);
+    expect(convertAmount(0.5, 'BTC', 'USDC', prices)).toBe(30000);
+    expect(convertAmount(1, 'SOL', 'USDT', prices)).toBeNull();
+  });
+
+  it('values balances in the reporting currency', () => {
+    const coinBalance = balance({
+      productType: 'COIN-FUTURES',
+      marginCoin: 'BTC',
+      equity: 0.5,
+      usdtEquity: 29000,
+    });
+    expect(getBalanceValue(coinBalance, 'USDT', prices)).toBe(30000);
+    expect(getBalanceValue(balance({ equity: 6000 }), 'BTC', prices)).toBe(0.1);
+
+    // Bitget's valuation stands in while the coin has no live price
+    const solBalance = balance({ marginCoin: 'SOL', usdtEquity: 150 });
+    expect(getBalanceValue(solBalance, 'USDT', prices)).toBe(150);
+  });
+
+  it('values coin-margined P&L at the mark price without a live price', () => {
+    const position = {
+      productType: 'COIN-FUTURES',
+      marginCoin: 'BTC',
+      markPrice: 50000,
+      unrealizedPL: 0.01,
+    } as Position;
+
+    expect(getPositionPL(position, 'USDT', {})).toBe(500);
+    expect(getPositionPL(position, 'USDT', prices)).toBe(600);
+  });
+
+  it('leaves totals with an unconverted amount unavailable', () => {
+    expect(sumConverted([100, 0.5])).toBe(100.5);
+    expect(sumConverted([])).toBe(0);
+    expect(sumConverted([100, null, 50])).toBeNull();
+  });
+
+  it('streams prices only for coins that are not stablecoins', () => {
+    expect(getConversionSymbols(['USDT', 'BTC', 'USDC', 'BTC', 'ETH'])).toEqual(
+      ['BTCUSDT', 'ETHUSDT'],
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import type { Balance, Position } from './exchangeClient';
+
+// Conversion of margin coin amounts into the reporting currency, using the
+// live USDT-M prices by API symbol, e.g. BTCUSDT
+
+export type ReportingCurrency = 'USDT' | 'USDC' | 'BTC';
+
+export const REPORTING_CURRENCIES: ReportingCurrency[] = [
+  'USDT',
+  'USDC',
+  'BTC',
+];
+
+// Stablecoins are taken at par until a live price is known
+const STABLECOINS = ['USDT', 'USDC'];
+
+type Prices = { [symbol: string]: number };
+
+// Decimals shown for an amount of the coin
+export const getCoinDecimals = (coin: string): number =>
+  STABLECOINS.includes(coin) ? 2 : 6;
+
+// Symbol whose price converts the coin into USDT
+export const getConversionSymbol = (coin: string): string => `${coin}USDT`;
+
+// Symbols to stream prices for so the coins can be converted
+export const getConversionSymbols = (coins: string[]): string[] =>
+  coins
+    .filter(
+      (coin, index) =>
+        !STABLECOINS.includes(coin) && coins.indexOf(coin) === index,
+    )
+    .map(getConversionSymbol);
+
+// USDT value of one coin, or null without a live price
+export const getUsdtRate = (coin: string, prices: Prices): number | null => {
+  if (coin === 'USDT') return 1;
+  const price = prices[getConversionSymbol(coin)];
+  if (price > 0) return price;
+  return STABLECOINS.includes(coin) ? 1 : null;
+};
+
+// Convert an amount between coins through their USDT rates
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  prices: Prices,
+): number | null => {
+  if (from === to) return amount;
+  const fromRate = getUsdtRate(from, prices);
+  const toRate = getUsdtRate(to, prices);
+  return fromRate === null || toRate === null
+    ? null
+    : (amount * fromRate) / toRate;
+};
+
+// Equity of a balance in the reporting currency. Falls back to Bitget's own
+// USDT valuation while the margin coin has no live price.
+export const getBalanceValue = (
+  balance: Balance,
+  currency: ReportingCurrency,
+  prices: Prices,
+): number | null =>
+  convertAmount(balance.equity, balance.marginCoin, currency, prices) ??
+  convertAmount(balance.usdtEquity, 'USDT', currency, prices);
+
+// Unrealized P&L of a position in the reporting currency. Coin-margined
+// positions settle in their base coin, whose USD price is the mark price.
+export const getPositionPL = (
+  position: Position,
+  currency: ReportingCurrency,
+  prices: Prices,
+): number | null =>
+  convertAmount(
+    position.unrealizedPL,
+    position.marginCoin,
+    currency,
+    position.productType === 'COIN-FUTURES'
+      ? {
+          [getConversionSymbol(position.marginCoin)]: position.markPrice,
+          ...prices,
+        }
+      : prices,
+  );
+
+// Total of converted amounts. Null if any of them could not be converted,
+// so a missing price never passes for a smaller total.
+export const sumConverted = (amounts: (number | null)[]): number | null =>
+  amounts.reduce<number | null>(
+    (sum, amount) => (sum === null || amount === null ? null : sum + amount),
+    0,
+  );
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addEquityPoint,
+  getPortfolioSeries,
+  getReturn,
+  getDrawdownSeries,
+  getDailyPnl,
+} from './equityHistory';
+
+const MINUTE = 60 * 1000;
+const DAY_1 = Date.UTC(2026, 0, 1, 12);
+const DAY_2 = Date.UTC(2026, 0, 2, 12);
+
+describe('equityHistory', () => {
+  it('takes at most one snapshot per interval and drops old ones', () => {
+    let history = addEquityPoint({}, '1', { time: DAY_1, equity: 100 });
+    history = addEquityPoint(history, '1', {
+      time: DAY_1 + 5 * MINUTE,
+      equity: 101,
+    });
+    expect(history['1']).toEqual([{ time: DAY_1, equity: 100 }]);
+
+    history = addEquityPoint(history, '1', {
+      time: DAY_1 + 100 * 24 * 60 * MINUTE,
+      equity: 102,
+    });
+    expect(history['1'].map((point) => point.equity)).toEqual([102]);
+  });
+
+  it('sums accounts with their last known equity', () => {
+    const series = getPortfolioSeries(
+      {
+        '1': [
+          { time: 0, equity: 100 },
+          { time: 20, equity: 110 },
+        ],
+        '2': [
+          { time: 10, equity: 50 },
+          { time: 30, equity: 40 },
+        ],
+      },
+      ['1', '2'],
+    );
+
+    expect(series).toEqual([
+      { time: 10, equity: 150 },
+      { time: 20, equity: 160 },
+      { time: 30, equity: 150 },
+    ]);
+    expect(getPortfolioSeries({ '1': [] }, ['1', '2'])).toEqual([]);
+  });
+
+  it('measures return and drawdown from the configured equity', () => {
+    const series = [
+      { time: 0, equity: 90 },
+      { time: 1, equity: 120 },
+      { time: 2, equity: 108 },
+    ];
+
+    expect(getReturn(series, 100)).toBeCloseTo(0.08);
+    expect(getReturn(series, 0)).toBeCloseTo(0.2);
+    expect(
+      getDrawdownSeries(series, 100).map((point) => point.drawdown),
+    ).toEqual([expect.closeTo(-0.1), 0, expect.closeTo(-0.1)]);
+  });
+
+  it('computes daily P&L from the previous close', () => {
+    expect(
+      getDailyPnl([
+        { time: DAY_1, equity: 100 },
+        { time: DAY_1 + 60 * MINUTE, equity: 105 },
+        { time: DAY_2, equity: 103 },
+      ]),
+    ).toEqual([
+      { day: '2026-01-01', pnl: 5 },
+      { day: '2026-01-02', pnl: -2 },
+    ]);
+  });
+});
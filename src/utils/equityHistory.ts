@@ -0,0 +1,153 @@
+// Equity snapshots per account, kept in localStorage, and the series derived
+// from them for the performance charts. Snapshots are taken whenever the
+// balance is fetched, at most once per SNAPSHOT_INTERVAL.
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+}
+
+export interface EquityHistory {
+  [accountId: string]: EquityPoint[];
+}
+
+export interface DrawdownPoint {
+  time: number;
+  drawdown: number; // Fraction below the running peak, 0 or negative
+}
+
+export interface DailyPnl {
+  day: string; // UTC date, YYYY-MM-DD
+  pnl: number;
+}
+
+const EQUITY_STORAGE_KEY = 'bitget-hedger-equity';
+const SNAPSHOT_INTERVAL = 15 * 60 * 1000;
+// 90 days at one snapshot per interval stays well within localStorage limits
+const RETENTION = 90 * 24 * 60 * 60 * 1000;
+
+export const loadEquityHistory = (): EquityHistory => {
+  try {
+    const stored = localStorage.getItem(EQUITY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading equity history from localStorage:', error);
+    return {};
+  }
+};
+
+const saveEquityHistory = (history: EquityHistory): void => {
+  try {
+    localStorage.setItem(EQUITY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error('Error saving equity history to localStorage:', error);
+  }
+};
+
+// Add a snapshot unless the account already has one within the snapshot
+// interval, and drop snapshots past the retention period
+export const addEquityPoint = (
+  history: EquityHistory,
+  accountId: string,
+  point: EquityPoint,
+): EquityHistory => {
+  const points = history[accountId] ?? [];
+  const last = points[points.length - 1];
+  if (last && point.time - last.time < SNAPSHOT_INTERVAL) return history;
+
+  return {
+    ...history,
+    [accountId]: [...points, point].filter(
+      (p) => point.time - p.time <= RETENTION,
+    ),
+  };
+};
+
+// Record an account's current equity and return the updated history
+export const recordEquitySnapshot = (
+  accountId: string,
+  equity: number,
+  time: number = Date.now(),
+): EquityHistory => {
+  const history = loadEquityHistory();
+  const next = addEquityPoint(history, accountId, { time, equity });
+  if (next !== history) {
+    saveEquityHistory(next);
+  }
+  return next;
+};
+
+// Combined equity of the given accounts. Each account counts with its last
+// known equity, and the series starts once every account has a snapshot.
+export const getPortfolioSeries = (
+  history: EquityHistory,
+  accountIds: string[],
+): EquityPoint[] => {
+  const series = accountIds.map((id) => history[id] ?? []);
+  if (series.length === 0 || series.some((points) => points.length === 0)) {
+    return [];
+  }
+
+  const start = Math.max(...series.map((points) => points[0].time));
+  const times = [
+    ...new Set(series.flatMap((points) => points.map((p) => p.time))),
+  ]
+    .filter((time) => time >= start)
+    .sort((a, b) => a - b);
+
+  const indexes = series.map(() => 0);
+  return times.map((time) => ({
+    time,
+    equity: series.reduce((sum, points, i) => {
+      while (
+        indexes[i] + 1 < points.length &&
+        points[indexes[i] + 1].time <= time
+      ) {
+        indexes[i]++;
+      }
+      return sum + points[indexes[i]].equity;
+    }, 0),
+  }));
+};
+
+// Return over the configured starting equity, or over the first snapshot
+// when no starting equity is set
+export const getReturn = (series: EquityPoint[], baseline: number): number => {
+  if (series.length === 0) return 0;
+  const base = baseline > 0 ? baseline : series[0].equity;
+  return base > 0 ? series[series.length - 1].equity / base - 1 : 0;
+};
+
+// Drawdown from the running peak, which starts at the baseline so a loss
+// right after funding the account shows up too
+export const getDrawdownSeries = (
+  series: EquityPoint[],
+  baseline: number = 0,
+): DrawdownPoint[] => {
+  let peak = baseline;
+  return series.map(({ time, equity }) => {
+    peak = Math.max(peak, equity);
+    return { time, drawdown: peak > 0 ? equity / peak - 1 : 0 };
+  });
+};
+
+// Equity change per UTC day, from the last snapshot of the previous day (or
+// the first snapshot on the first day). Deposits and withdrawals are not
+// separated out and show up as P&L.
+export const getDailyPnl = (series: EquityPoint[]): DailyPnl[] => {
+  const closes: { day: string; equity: number }[] = [];
+  series.forEach(({ time, equity }) => {
+    const day = new Date(time).toISOString().slice(0, 10);
+    const last = closes[closes.length - 1];
+    if (last?.day === day) {
+      last.equity = equity;
+    } else {
+      closes.push({ day, equity });
+    }
+  });
+
+  return closes.map(({ day, equity }, i) => ({
+    day,
+    pnl: equity - (i > 0 ? closes[i - 1].equity : series[0].equity),
+  }));
+};
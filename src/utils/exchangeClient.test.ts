@@ -0,0 +1,343 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { BitgetAccount } from './bitgetApi';
+import {
+  closePosition,
+  formatProductTypeErrors,
+  getExchangeClient,
+  keepFailedProductTypes,
+  setApiVersion,
+  setProductTypes,
+  toOrderSide,
+  toOrderStatus,
+  type Position,
+} from './exchangeClient';
+
+const account: BitgetAccount = {
+  id: 'exchange-client',
+  name: 'Test Account',
+  apiKey: 'test-key',
+  apiSecret: 'test-secret',
+  passphrase: 'test-passphrase',
+  enabled: true,
+};
+
+// Fake fetch answering every request with the given data
+const mockFetch = (data: unknown) => {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: async () => ({ code: '00000', msg: 'success', data }),
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const requestUrl = (fetchMock: ReturnType<typeof mockFetch>): string =>
+  fetchMock.mock.calls[0][0] as string;
+
+describe('exchangeClient', () => {
+  beforeEach(() => {
+    setProductTypes(['USDT-FUTURES']);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setApiVersion();
+    setProductTypes();
+  });
+
+  it('uses the v2 endpoints by default', () => {
+    expect(getExchangeClient().version).toBe('v2');
+    setApiVersion('v1');
+    expect(getExchangeClient().version).toBe('v1');
+  });
+
+  it('normalizes v1 positions', async () => {
+    setApiVersion('v1');
+    mockFetch([
+      {
+        marginCoin: 'USDT',
+        symbol: 'BTCUSDT_UMCBL',
+        holdSide: 'short',
+        margin: '600',
+        available: '0.1',
+        total: '0.1',
+        leverage: '10',
+        achievedProfits: '0',
+        averageOpenPrice: '60000',
+        marginMode: 'fixed',
+        holdMode: 'double_hold',
+        unrealizedPL: '-12.5',
+        liquidationPrice: '',
+        marketPrice: '60125',
+        cTime: '1700000000000',
+      },
+    ]);
+
+    const {
+      items: [position],
+    } = await getExchangeClient().getPositions(account);
+
+    expect(position).toMatchObject({
+      symbol: 'BTCUSDT',
+      holdSide: 'short',
+      marginMode: 'fixed',
+      size: 0.1,
+      entryPrice: 60000,
+      markPrice: 60125,
+      liquidationPrice: 0,
+      unrealizedPL: -12.5,
+    });
+  });
+
+  it('normalizes v2 positions', async () => {
+    const fetchMock = mockFetch([
+      {
+        marginCoin: 'USDT',
+        symbol: 'BTCUSDT',
+        holdSide: 'long',
+        marginSize: '600',
+        available: '0.1',
+        total: '0.1',
+        leverage: '10',
+        achievedProfits: '0',
+        openPriceAvg: '60000',
+        marginMode: 'isolated',
+        posMode: 'hedge_mode',
+        unrealizedPL: '12.5',
+        liquidationPrice: '54000',
+        markPrice: '60125',
+        cTime: '1700000000000',
+      },
+    ]);
+
+    const {
+      items: [position],
+    } = await getExchangeClient().getPositions(account);
+
+    expect(requestUrl(fetchMock)).toContain(
+      '/api/v2/mix/position/all-position',
+    );
+    expect(position).toMatchObject({
+      symbol: 'BTCUSDT',
+      holdSide: 'long',
+      marginMode: 'fixed',
+      holdMode: 'double_hold',
+      size: 0.1,
+      margin: 600,
+      entryPrice: 60000,
+      liquidationPrice: 54000,
+    });
+  });
+
+  it('normalizes balances and handles an empty order list', async () => {
+    mockFetch([
+      {
+        marginCoin: 'USDT',
+        accountEquity: '1000',
+        usdtEquity: '1000',
+        available: '800',
+        crossedRiskRate: '0.05',
+      },
+    ]);
+    const {
+      items: [balance],
+    } = await getExchangeClient().getBalances(account);
+    expect(balance).toMatchObject({
+      productType: 'USDT-FUTURES',
+      marginCoin: 'USDT',
+      equity: 1000,
+      available: 800,
+      crossRiskRate: 0.05,
+    });
+
+    mockFetch({ entrustedList: null, endId: null });
+    expect(await getExchangeClient().getOrders(account)).toEqual({
+      items: [],
+      errors: {},
+    });
+  });
+
+  it('cancels through the endpoint of the active version', async () => {
+    const fetchMock = mockFetch({ orderId: '1' });
+    await getExchangeClient().cancelOrder(account, {
+      orderId: '1',
+      symbol: 'BTCUSDT',
+      productType: 'USDT-FUTURES',
+      marginCoin: 'USDT',
+    });
+    expect(requestUrl(fetchMock)).toContain('/api/v2/mix/order/cancel-order');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      symbol: 'BTCUSDT',
+      productType: 'USDT-FUTURES',
+    });
+
+    setApiVersion('v1');
+    const v1FetchMock = mockFetch({ orderId: '1' });
+    await getExchangeClient().cancelOrder(account, {
+      orderId: '1',
+      symbol: 'BTCUSDT',
+      productType: 'USDT-FUTURES',
+      marginCoin: 'USDT',
+    });
+    expect(JSON.parse(v1FetchMock.mock.calls[0][1].body)).toMatchObject({
+      symbol: 'BTCUSDT_UMCBL',
+    });
+  });
+
+  it('loads every enabled product type', async () => {
+    setProductTypes(['USDT-FUTURES', 'COIN-FUTURES']);
+    const fetchMock = vi.fn().mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        code: '00000',
+        msg: 'success',
+        data: url.includes('COIN-FUTURES')
+          ? [{ symbol: 'BTCUSD', marginCoin: 'BTC', total: '100' }]
+          : [{ symbol: 'BTCUSDT', marginCoin: 'USDT', total: '0.1' }],
+      }),
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { items: positions } =
+      await getExchangeClient().getPositions(account);
+
+    expect(
+      positions.map((p) => [p.productType, p.symbol, p.marginCoin, p.size]),
+    ).toEqual([
+      ['USDT-FUTURES', 'BTCUSDT', 'USDT', 0.1],
+      ['COIN-FUTURES', 'BTCUSD', 'BTC', 100],
+    ]);
+    // Coin-margined positions are listed for every margin coin
+    expect(fetchMock.mock.calls[1][0]).not.toContain('marginCoin');
+  });
+
+  it('keeps the product types that loaded when another one fails', async () => {
+    setProductTypes(['USDT-FUTURES', 'COIN-FUTURES']);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockImplementation(async (url: string) => ({
+        ok: true,
+        status: 200,
+        json: async () =>
+          url.includes('COIN-FUTURES')
+            ? { code: '40762', msg: 'The order amount exceeds the balance' }
+            : {
+                code: '00000',
+                msg: 'success',
+                data: [{ symbol: 'BTCUSDT', marginCoin: 'USDT', total: '1' }],
+              },
+      })),
+    );
+
+    const { items, errors } = await getExchangeClient().getPositions(account);
+
+    expect(items.map((p) => p.symbol)).toEqual(['BTCUSDT']);
+    expect(Object.keys(errors)).toEqual(['COIN-FUTURES']);
+    expect(formatProductTypeErrors(errors)).toMatch(/^Coin-M: /);
+  });
+
+  it('keeps the previous items of product types that failed', () => {
+    const usdt = { productType: 'USDT-FUTURES', symbol: 'BTCUSDT' } as Position;
+    const coin = { productType: 'COIN-FUTURES', symbol: 'BTCUSD' } as Position;
+
+    expect(
+      keepFailedProductTypes([usdt, coin], {
+        items: [],
+        errors: { 'USDT-FUTURES': 'Request timed out' },
+      }),
+    ).toEqual([usdt]);
+    expect(
+      keepFailedProductTypes([usdt, coin], { items: [coin], errors: {} }),
+    ).toEqual([coin]);
+  });
+
+  it('throws when every product type fails', async () => {
+    setProductTypes(['USDT-FUTURES', 'COIN-FUTURES']);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ code: '40009', msg: 'sign signature error' }),
+      }),
+    );
+
+    await expect(getExchangeClient().getPositions(account)).rejects.toThrow(
+      'sign signature error',
+    );
+  });
+
+  it('cancels coin-margined v1 orders with the product suffix', async () => {
+    setApiVersion('v1');
+    const fetchMock = mockFetch({ orderId: '1' });
+    await getExchangeClient().cancelOrder(account, {
+      orderId: '1',
+      symbol: 'BTCUSD',
+      productType: 'COIN-FUTURES',
+      marginCoin: 'BTC',
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      symbol: 'BTCUSD_DMCBL',
+      productType: 'dmcbl',
+      marginCoin: 'BTC',
+    });
+  });
+
+  it('closes positions with the v1 symbol of their product type', async () => {
+    const fetchMock = mockFetch({ orderId: '1', clientOid: 'abc' });
+    const position = {
+      symbol: 'BTCUSD',
+      productType: 'COIN-FUTURES',
+      marginCoin: 'BTC',
+      holdSide: 'short',
+      size: 100,
+    } as Position;
+
+    await closePosition(account, position);
+    await closePosition(account, {
+      ...position,
+      symbol: 'BTCUSDT',
+      productType: 'USDT-FUTURES',
+      marginCoin: 'USDT',
+    });
+
+    expect(
+      fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body)),
+    ).toMatchObject([
+      { symbol: 'BTCUSD_DMCBL', marginCoin: 'BTC', side: 'close_short' },
+      { symbol: 'BTCUSDT_UMCBL', marginCoin: 'USDT', side: 'close_short' },
+    ]);
+  });
+
+  it('closes one-way positions with a reduce-only opposite order', async () => {
+    const fetchMock = mockFetch({ orderId: '1', clientOid: 'abc' });
+    const position = {
+      symbol: 'BTCUSDT',
+      productType: 'USDT-FUTURES',
+      marginCoin: 'USDT',
+      holdSide: 'long',
+      holdMode: 'single_hold',
+      size: 0.1,
+    } as Position;
+
+    await closePosition(account, position);
+    await closePosition(account, { ...position, holdSide: 'short' });
+
+    const [closeLong, closeShort] = fetchMock.mock.calls.map(([, init]) =>
+      JSON.parse(init.body),
+    );
+    expect(closeLong).toMatchObject({ side: 'sell_single', reduceOnly: true });
+    expect(closeShort).toMatchObject({ side: 'buy_single', reduceOnly: true });
+  });
+
+  it('maps v2 order sides and statuses', () => {
+    expect(toOrderSide('buy', 'open', 'long')).toBe('open_long');
+    expect(toOrderSide('buy', 'close', 'short')).toBe('close_short');
+    expect(toOrderSide('sell', '', 'net')).toBe('sell_single');
+    expect(toOrderStatus('live')).toBe('new');
+    expect(toOrderStatus('cancelled')).toBe('canceled');
+    expect(toOrderStatus('partially_filled')).toBe('partially_filled');
+  });
+});
@@ -0,0 +1,466 @@
+import {
+  getAccountBalance,
+  getPositions,
+  getOrders,
+  cancelOrder,
+  getAccountBalanceV2,
+  getPositionsV2,
+  getOrdersV2,
+  cancelOrderV2,
+  placeOrder,
+  getApiErrorMessage,
+  toV1Symbol,
+  SETTLEMENT_COINS,
+  type BitgetAccount,
+  type BitgetAccountBalance,
+  type BitgetOrder,
+  type BitgetPosition,
+  type BitgetV2Account,
+  type BitgetV2Order,
+  type BitgetV2Position,
+  type HoldMode,
+  type MarginMode,
+  type OneWayOrderSide,
+  type OrderSide,
+  type ProductType,
+} from './bitgetApi';
+
+// Versioned access to balances, positions and open orders. Both the legacy
+// v1 and the v2 mix endpoints are normalized into the domain types below,
+// so the rest of the app never sees raw Bitget string fields. Every call
+// covers all enabled product types.
+
+export type ApiVersion = 'v1' | 'v2';
+
+export const PRODUCT_TYPES: ProductType[] = [
+  'USDT-FUTURES',
+  'USDC-FUTURES',
+  'COIN-FUTURES',
+];
+
+export const PRODUCT_TYPE_LABELS: { [productType in ProductType]: string } = {
+  'USDT-FUTURES': 'USDT-M',
+  'USDC-FUTURES': 'USDC-M',
+  'COIN-FUTURES': 'Coin-M',
+};
+
+export type PositionSide = 'long' | 'short';
+
+// Open position. Symbols are in the plain BTCUSDT form, sizes in contracts.
+// P&L and margin are in the margin coin.
+export interface Position {
+  symbol: string;
+  productType: ProductType;
+  marginCoin: string;
+  holdSide: PositionSide;
+  marginMode: MarginMode;
+  holdMode: HoldMode;
+  size: number;
+  available: number; // Size not locked by closing orders
+  margin: number;
+  leverage: number;
+  entryPrice: number;
+  markPrice: number;
+  liquidationPrice: number; // 0 when Bitget reports none
+  unrealizedPL: number;
+  achievedProfits: number;
+  openTime: number;
+}
+
+export type OrderStatus = 'new' | 'partially_filled' | 'filled' | 'canceled';
+
+// Open order. The side uses the v1 names, which say both direction and
+// position: open_long, close_short, ... or buy_single/sell_single in
+// one-way mode.
+export interface Order {
+  orderId: string;
+  clientOid: string;
+  symbol: string;
+  productType: ProductType;
+  marginCoin: string;
+  side: OrderSide | OneWayOrderSide;
+  orderType: string;
+  price: number;
+  size: number;
+  filledSize: number;
+  averagePrice: number;
+  status: OrderStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Futures account balance in one margin coin. Amounts are in the margin
+// coin except usdtEquity, Bitget's own USDT valuation.
+export interface Balance {
+  productType: ProductType;
+  marginCoin: string;
+  equity: number;
+  usdtEquity: number;
+  available: number;
+  locked: number;
+  maxTransferOut: number;
+  unrealizedPL: number;
+  crossRiskRate: number;
+}
+
+// Error message of each product type that failed to load
+export type ProductTypeErrors = { [productType in ProductType]?: string };
+
+// Items of the product types that loaded, and why the others did not
+export interface ProductTypeResult<T> {
+  items: T[];
+  errors: ProductTypeErrors;
+}
+
+export interface ExchangeClient {
+  version: ApiVersion;
+  getBalances: (account: BitgetAccount) => Promise<ProductTypeResult<Balance>>;
+  getPositions: (
+    account: BitgetAccount,
+  ) => Promise<ProductTypeResult<Position>>;
+  getOrders: (account: BitgetAccount) => Promise<ProductTypeResult<Order>>;
+  cancelOrder: (
+    account: BitgetAccount,
+    order: Pick<Order, 'orderId' | 'symbol' | 'productType' | 'marginCoin'>,
+  ) => Promise<void>;
+}
+
+// Result of closing a single position
+export interface ClosePositionResult {
+  position: Position;
+  success: boolean;
+  error?: string;
+}
+
+export const toNumber = (value: string | number | null | undefined): number =>
+  parseFloat(String(value ?? '')) || 0;
+
+// v1 symbols carry a product suffix, e.g. BTCUSDT_UMCBL
+export const toSymbol = (symbol: string): string =>
+  symbol.replace(/_(UMCBL|CMCBL|DMCBL)$/, '');
+
+// Coin-margined contracts settle in their base coin, e.g. BTC for BTCUSD
+export const getMarginCoin = (
+  symbol: string,
+  productType: ProductType,
+): string =>
+  SETTLEMENT_COINS[productType] ?? toSymbol(symbol).replace(/USD$/, '');
+
+export const toOrderStatus = (status: string): OrderStatus => {
+  switch (status) {
+    case 'live':
+    case 'init':
+      return 'new';
+    case 'cancelled':
+      return 'canceled';
+    default:
+      return status as OrderStatus;
+  }
+};
+
+// v2 orders split the side into buy/sell plus the position they act on
+export const toOrderSide = (
+  side: string,
+  tradeSide: string,
+  posSide: string,
+): Order['side'] =>
+  posSide === 'long' || posSide === 'short'
+    ? (`${tradeSide}_${posSide}` as OrderSide)
+    : side === 'buy'
+      ? 'buy_single'
+      : 'sell_single';
+
+const fromV1Balance = (
+  balance: BitgetAccountBalance,
+  productType: ProductType,
+): Balance => ({
+  productType,
+  marginCoin: balance.marginCoin,
+  equity: toNumber(balance.equity),
+  usdtEquity: toNumber(balance.usdtEquity),
+  available: toNumber(balance.available),
+  locked: toNumber(balance.locked),
+  maxTransferOut: toNumber(balance.maxTransferOut),
+  unrealizedPL: toNumber(balance.unrealizedPL),
+  crossRiskRate: toNumber(balance.crossRiskRate),
+});
+
+const fromV1Position = (
+  position: BitgetPosition,
+  productType: ProductType,
+): Position => ({
+  symbol: toSymbol(position.symbol),
+  productType,
+  marginCoin: position.marginCoin,
+  holdSide: position.holdSide === 'short' ? 'short' : 'long',
+  marginMode: position.marginMode === 'fixed' ? 'fixed' : 'crossed',
+  holdMode: position.holdMode === 'single_hold' ? 'single_hold' : 'double_hold',
+  size: toNumber(position.total),
+  available: toNumber(position.available),
+  margin: toNumber(position.margin),
+  leverage: toNumber(position.leverage),
+  entryPrice: toNumber(position.averageOpenPrice),
+  markPrice: toNumber(position.marketPrice),
+  liquidationPrice: toNumber(position.liquidationPrice),
+  unrealizedPL: toNumber(position.unrealizedPL),
+  achievedProfits: toNumber(position.achievedProfits),
+  openTime: toNumber(position.cTime),
+});
+
+const fromV1Order = (order: BitgetOrder, productType: ProductType): Order => ({
+  orderId: order.orderId,
+  clientOid: order.clientOid,
+  symbol: toSymbol(order.symbol),
+  productType,
+  marginCoin: getMarginCoin(order.symbol, productType),
+  side: order.side as Order['side'],
+  orderType: order.orderType,
+  price: toNumber(order.price),
+  size: toNumber(order.size),
+  filledSize: toNumber(order.baseVolume),
+  averagePrice: toNumber(order.priceAvg),
+  status: toOrderStatus(order.status),
+  createdAt: toNumber(order.cTime),
+  updatedAt: toNumber(order.uTime),
+});
+
+const fromV2Balance = (
+  balance: BitgetV2Account,
+  productType: ProductType,
+): Balance => ({
+  productType,
+  marginCoin: balance.marginCoin,
+  equity: toNumber(balance.accountEquity),
+  usdtEquity: toNumber(balance.usdtEquity),
+  available: toNumber(balance.available),
+  locked: toNumber(balance.locked),
+  maxTransferOut: toNumber(balance.maxTransferOut),
+  unrealizedPL: toNumber(balance.unrealizedPL),
+  crossRiskRate: toNumber(balance.crossedRiskRate),
+});
+
+const fromV2Position = (
+  position: BitgetV2Position,
+  productType: ProductType,
+): Position => ({
+  symbol: position.symbol,
+  productType,
+  marginCoin: position.marginCoin,
+  holdSide: position.holdSide === 'short' ? 'short' : 'long',
+  // v2 calls isolated margin 'isolated', v1 'fixed'
+  marginMode: position.marginMode === 'isolated' ? 'fixed' : 'crossed',
+  holdMode: position.posMode === 'one_way_mode' ? 'single_hold' : 'double_hold',
+  size: toNumber(position.total),
+  available: toNumber(position.available),
+  margin: toNumber(position.marginSize),
+  leverage: toNumber(position.leverage),
+  entryPrice: toNumber(position.openPriceAvg),
+  markPrice: toNumber(position.markPrice),
+  liquidationPrice: toNumber(position.liquidationPrice),
+  unrealizedPL: toNumber(position.unrealizedPL),
+  achievedProfits: toNumber(position.achievedProfits),
+  openTime: toNumber(position.cTime),
+});
+
+const fromV2Order = (
+  order: BitgetV2Order,
+  productType: ProductType,
+): Order => ({
+  orderId: order.orderId,
+  clientOid: order.clientOid,
+  symbol: order.symbol,
+  productType,
+  marginCoin: order.marginCoin,
+  side: toOrderSide(order.side, order.tradeSide, order.posSide),
+  orderType: order.orderType,
+  price: toNumber(order.price),
+  size: toNumber(order.size),
+  filledSize: toNumber(order.baseVolume),
+  averagePrice: toNumber(order.priceAvg),
+  status: toOrderStatus(order.status),
+  createdAt: toNumber(order.cTime),
+  updatedAt: toNumber(order.uTime),
+});
+
+let activeProductTypes: ProductType[] = PRODUCT_TYPES;
+
+// Request every enabled product type in parallel and combine the results.
+// A failing product type does not hide the others; only when all of them
+// fail is the first error thrown.
+export const acrossProductTypes = async <T>(
+  fetch: (productType: ProductType) => Promise<T[]>,
+): Promise<ProductTypeResult<T>> => {
+  const results = await Promise.allSettled(activeProductTypes.map(fetch));
+  const result: ProductTypeResult<T> = { items: [], errors: {} };
+  results.forEach((settled, index) => {
+    if (settled.status === 'fulfilled') {
+      result.items.push(...settled.value);
+    } else {
+      result.errors[activeProductTypes[index]] = getApiErrorMessage(
+        settled.reason,
+      );
+    }
+  });
+
+  const [first] = results;
+  if (
+    first?.status === 'rejected' &&
+    results.every((settled) => settled.status === 'rejected')
+  ) {
+    throw first.reason;
+  }
+  return result;
+};
+
+// Loaded items, plus the previous items of the product types that failed
+// to load this time. Dropping those would read as closed positions.
+export const keepFailedProductTypes = <T extends { productType?: ProductType }>(
+  previous: T[],
+  result: ProductTypeResult<T>,
+): T[] => [
+  ...result.items,
+  ...previous.filter(
+    (item) => item.productType && item.productType in result.errors,
+  ),
+];
+
+// Failed product types for display, e.g. "Coin-M: Request timed out"
+export const formatProductTypeErrors = (errors: ProductTypeErrors): string =>
+  (Object.keys(errors) as ProductType[])
+    .map(
+      (productType) =>
+        `${PRODUCT_TYPE_LABELS[productType]}: ${errors[productType]}`,
+    )
+    .join('; ');
+
+const v1Client: ExchangeClient = {
+  version: 'v1',
+  getBalances: (account) =>
+    acrossProductTypes(async (productType) =>
+      (await getAccountBalance(account, productType)).map((balance) =>
+        fromV1Balance(balance, productType),
+      ),
+    ),
+  getPositions: (account) =>
+    acrossProductTypes(async (productType) =>
+      (await getPositions(account, productType)).map((position) =>
+        fromV1Position(position, productType),
+      ),
+    ),
+  getOrders: (account) =>
+    acrossProductTypes(async (productType) =>
+      (await getOrders(account, productType)).map((order) =>
+        fromV1Order(order, productType),
+      ),
+    ),
+  cancelOrder: async (account, order) => {
+    await cancelOrder(
+      account,
+      order.orderId,
+      order.symbol,
+      order.marginCoin,
+      order.productType,
+    );
+  },
+};
+
+const v2Client: ExchangeClient = {
+  version: 'v2',
+  getBalances: (account) =>
+    acrossProductTypes(async (productType) =>
+      (await getAccountBalanceV2(account, productType)).map((balance) =>
+        fromV2Balance(balance, productType),
+      ),
+    ),
+  getPositions: (account) =>
+    acrossProductTypes(async (productType) =>
+      (await getPositionsV2(account, productType)).map((position) =>
+        fromV2Position(position, productType),
+      ),
+    ),
+  getOrders: (account) =>
+    acrossProductTypes(async (productType) =>
+      (await getOrdersV2(account, productType)).map((order) =>
+        fromV2Order(order, productType),
+      ),
+    ),
+  cancelOrder: async (account, order) => {
+    await cancelOrderV2(
+      account,
+      order.orderId,
+      order.symbol,
+      order.marginCoin,
+      order.productType,
+    );
+  },
+};
+
+let activeClient: ExchangeClient = v2Client;
+
+// Select the endpoint version from settings.apiVersion
+export const setApiVersion = (version: ApiVersion = 'v2'): void => {
+  activeClient = version === 'v1' ? v1Client : v2Client;
+};
+
+// Select the product types to load from settings.productTypes
+export const setProductTypes = (
+  productTypes: ProductType[] = PRODUCT_TYPES,
+): void => {
+  activeProductTypes = productTypes;
+};
+
+export const getProductTypes = (): ProductType[] => activeProductTypes;
+
+// The USDT balance of the USDT-M account, which margin transfers move
+export const getUsdtBalance = (balances: Balance[]): Balance | null =>
+  balances.find(
+    (balance) =>
+      balance.productType === 'USDT-FUTURES' && balance.marginCoin === 'USDT',
+  ) ?? null;
+
+export const getExchangeClient = (): ExchangeClient => activeClient;
+
+// Close a position at market. Orders go through the v1 endpoint, which
+// needs the product suffix on the symbol. One-way mode has no close sides,
+// so the position is closed by a reduce-only order on the opposite side.
+export const closePosition = async (
+  account: BitgetAccount,
+  position: Position,
+): Promise<void> => {
+  const isLong = position.holdSide === 'long';
+  const oneWay = position.holdMode === 'single_hold';
+  await placeOrder(account, {
+    symbol: toV1Symbol(position.symbol, position.productType),
+    marginCoin: position.marginCoin,
+    size: String(position.size),
+    side: oneWay
+      ? isLong
+        ? 'sell_single'
+        : 'buy_single'
+      : isLong
+        ? 'close_long'
+        : 'close_short',
+    orderType: 'market',
+    productType: position.productType,
+    reduceOnly: oneWay,
+  });
+};
+
+// Close all given positions for an account in parallel
+export const closeAllPositions = async (
+  account: BitgetAccount,
+  positions: Position[],
+): Promise<ClosePositionResult[]> => {
+  const results = await Promise.allSettled(
+    positions.map((position) => closePosition(account, position)),
+  );
+
+  return results.map((result, index) => ({
+    position: positions[index],
+    success: result.status === 'fulfilled',
+    error:
+      result.status === 'rejected'
+        ? getApiErrorMessage(result.reason)
+        : undefined,
+  }));
+};
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import type { BitgetAccount } from './bitgetApi';
+import type { Position } from './exchangeClient';
+import type { HedgeTarget } from './config';
+import type { LedgerFunding } from './ledger';
+import {
+  assessHedgeFunding,
+  assessPositionFunding,
+  projectFundingPayment,
+  sumSettledFunding,
+} from './funding';
+
+const account = (id: string): BitgetAccount => ({
+  id,
+  name: `Account ${id}`,
+  apiKey: '',
+  apiSecret: '',
+  passphrase: '',
+  enabled: true,
+});
+
+const position = (overrides: Partial<Position>): Position => ({
+  symbol: 'BTCUSDT',
+  productType: 'USDT-FUTURES',
+  marginCoin: 'USDT',
+  holdSide: 'long',
+  marginMode: 'crossed',
+  holdMode: 'double_hold',
+  size: 0.1,
+  available: 0.1,
+  margin: 0,
+  leverage: 10,
+  entryPrice: 60000,
+  markPrice: 60000,
+  liquidationPrice: 0,
+  unrealizedPL: 0,
+  achievedProfits: 0,
+  openTime: 0,
+  ...overrides,
+});
+
+const target: HedgeTarget = {
+  symbol: 'BTCUSDT',
+  longAccountId: '1',
+  shortAccountId: '2',
+  ratio: 1,
+  tolerance: 0.001,
+  minOrderSize: 0.001,
+};
+
+const bill = (accountId: string, amount: string): LedgerFunding => ({
+  accountId,
+  id: `${accountId}-${amount}`,
+  symbol: 'BTCUSDT_UMCBL',
+  marginCoin: 'USDT',
+  amount,
+  fee: '0',
+  business: 'contract_main_settle_fee',
+  cTime: '0',
+});
+
+const rates = {
+  BTCUSDT: { symbol: 'BTCUSDT', fundingRate: 0.0001, nextFundingTime: 1000 },
+};
+
+describe('funding', () => {
+  it('charges longs and pays shorts at a positive rate', () => {
+    expect(projectFundingPayment(position({}), 0.0001)).toBeCloseTo(-0.6);
+    expect(
+      projectFundingPayment(position({ holdSide: 'short' }), 0.0001),
+    ).toBeCloseTo(0.6);
+    expect(
+      projectFundingPayment(position({ holdSide: 'short' }), -0.0001),
+    ).toBeCloseTo(-0.6);
+  });
+
+  it('projects nothing for symbols without a known rate', () => {
+    const [funding] = assessPositionFunding(
+      [{ account: account('1'), positions: [position({ symbol: 'ETHUSDT' })] }],
+      rates,
+    );
+
+    expect(funding.fundingRate).toBeNull();
+    expect(funding.payment).toBe(0);
+  });
+
+  it('nets the legs of a hedge and adds up settled funding', () => {
+    const positionFunding = assessPositionFunding(
+      [
+        { account: account('1'), positions: [position({ size: 0.1 })] },
+        {
+          account: account('2'),
+          positions: [position({ holdSide: 'short', size: 0.08 })],
+        },
+      ],
+      rates,
+    );
+
+    const [hedge] = assessHedgeFunding([target], positionFunding, [
+      bill('1', '-0.6'),
+      bill('2', '0.48'),
+      bill('3', '5'),
+    ]);
+
+    expect(hedge.longPayment).toBeCloseTo(-0.6);
+    expect(hedge.shortPayment).toBeCloseTo(0.48);
+    expect(hedge.net).toBeCloseTo(-0.12);
+    expect(hedge.settled).toBeCloseTo(-0.12);
+  });
+
+  it('matches settled funding of every product line', () => {
+    const history = [
+      { ...bill('1', '-0.0001'), symbol: 'BTCUSD_DMCBL', marginCoin: 'BTC' },
+      { ...bill('1', '-0.5'), symbol: 'BTCPERP_CMCBL', marginCoin: 'USDC' },
+    ];
+
+    expect(sumSettledFunding(history, '1', 'BTCUSD')).toBeCloseTo(-0.0001);
+    expect(sumSettledFunding(history, '1', 'BTCPERP')).toBeCloseTo(-0.5);
+  });
+});
@@ -0,0 +1,112 @@
+import type { BitgetAccount } from './bitgetApi';
+import type { HedgeTarget } from './config';
+import { toSymbol, type Position } from './exchangeClient';
+import type { LedgerFunding } from './ledger';
+
+// Funding rate and settlement time for a perpetual contract. A positive
+// rate means longs pay shorts.
+export interface FundingInfo {
+  symbol: string;
+  fundingRate: number;
+  nextFundingTime: number;
+}
+
+// Projected next payment of every open position
+export interface PositionFunding {
+  accountId: string;
+  accountName: string;
+  position: Position;
+  fundingRate: number | null;
+  nextFundingTime: number | null;
+  payment: number; // Signed: positive is received, negative is paid
+}
+
+// Funding of a configured hedge: the projected next payment per leg and
+// what has actually been settled so far according to the ledger
+export interface HedgeFunding {
+  target: HedgeTarget;
+  longPayment: number;
+  shortPayment: number;
+  net: number;
+  settled: number;
+}
+
+interface FundingAccountData {
+  account: BitgetAccount;
+  positions: Position[];
+}
+
+// Next funding payment of a position at the given rate, on its notional at
+// the mark price. Longs pay a positive rate, shorts receive it.
+export const projectFundingPayment = (
+  position: Position,
+  fundingRate: number,
+): number => {
+  const notional = position.size * position.markPrice;
+  const payment = notional * fundingRate;
+  return position.holdSide === 'long' ? -payment : payment;
+};
+
+export const assessPositionFunding = (
+  accounts: FundingAccountData[],
+  rates: { [symbol: string]: FundingInfo },
+): PositionFunding[] =>
+  accounts.flatMap(({ account, positions }) =>
+    positions
+      .filter((position) => position.size > 0)
+      .map((position) => {
+        const info = rates[position.symbol];
+        return {
+          accountId: account.id,
+          accountName: account.name,
+          position,
+          fundingRate: info?.fundingRate ?? null,
+          nextFundingTime: info?.nextFundingTime ?? null,
+          payment: info ? projectFundingPayment(position, info.fundingRate) : 0,
+        };
+      }),
+  );
+
+// Net funding settled for an account and symbol, from the ledger
+export const sumSettledFunding = (
+  history: LedgerFunding[],
+  accountId: string,
+  symbol: string,
+): number =>
+  history
+    .filter(
+      (bill) =>
+        bill.accountId === accountId && toSymbol(bill.symbol) === symbol,
+    )
+    .reduce((sum, bill) => sum + (parseFloat(bill.amount || '0') || 0), 0);
+
+// Both legs of a hedge on the same contract pay and receive the same rate,
+// so the net is only what the size mismatch between the legs costs
+export const assessHedgeFunding = (
+  targets: HedgeTarget[],
+  positionFunding: PositionFunding[],
+  history: LedgerFunding[],
+): HedgeFunding[] =>
+  targets.map((target) => {
+    const legPayment = (accountId: string, holdSide: 'long' | 'short') =>
+      positionFunding
+        .filter(
+          (funding) =>
+            funding.accountId === accountId &&
+            funding.position.symbol === target.symbol &&
+            funding.position.holdSide === holdSide,
+        )
+        .reduce((sum, funding) => sum + funding.payment, 0);
+
+    const longPayment = legPayment(target.longAccountId, 'long');
+    const shortPayment = legPayment(target.shortAccountId, 'short');
+    return {
+      target,
+      longPayment,
+      shortPayment,
+      net: longPayment + shortPayment,
+      settled:
+        sumSettledFunding(history, target.longAccountId, target.symbol) +
+        sumSettledFunding(history, target.shortAccountId, target.symbol),
+    };
+  });
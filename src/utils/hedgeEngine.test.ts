@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { BitgetAccount, PlaceTpslParams } from './bitgetApi';
+import type { HedgeTarget } from './config';
+import type { Position } from './exchangeClient';
+import {
+  aggregateExposure,
+  evaluateHedge,
+  getMirrorStop,
+  openPairedHedge,
+} from './hedgeEngine';
+
+const target: HedgeTarget = {
+  symbol: 'BTCUSDT',
+  longAccountId: '1',
+  shortAccountId: '2',
+  ratio: 0.5,
+  tolerance: 0.001,
+  minOrderSize: 0.001,
+};
+
+const account = (id: string) => ({ id, name: id }) as BitgetAccount;
+
+const position = (
+  holdSide: Position['holdSide'],
+  size: number,
+  symbol: string = 'BTCUSDT',
+) => ({ symbol, holdSide, size }) as Position;
+
+// Exposure of the target symbol in the long leg, short leg and a third
+// account
+const exposure = (long: number, short: number, other: Position[] = []) =>
+  aggregateExposure([
+    { account: account('1'), positions: [position('long', long)] },
+    { account: account('2'), positions: [position('short', short)] },
+    { account: account('3'), positions: other },
+  ]).BTCUSDT;
+
+const stop = (overrides: Partial<PlaceTpslParams>): PlaceTpslParams => ({
+  symbol: 'BTCUSDT',
+  planType: 'loss_plan',
+  holdSide: 'long',
+  triggerPrice: '60000',
+  size: '0.011',
+  ...overrides,
+});
+
+describe('getMirrorStop', () => {
+  it('turns a stop-loss on the long leg into a take-profit on the short leg', () => {
+    expect(getMirrorStop([target], '1', stop({}))).toEqual({
+      accountId: '2',
+      params: stop({
+        planType: 'profit_plan',
+        holdSide: 'short',
+        size: '0.005',
+      }),
+    });
+  });
+
+  it('scales the long leg back up from the short leg', () => {
+    const mirror = getMirrorStop(
+      [target],
+      '2',
+      stop({ planType: 'profit_plan', holdSide: 'short', size: '0.005' }),
+    );
+
+    expect(mirror?.accountId).toBe('1');
+    expect(mirror?.params.planType).toBe('loss_plan');
+    expect(mirror?.params.size).toBe('0.010');
+  });
+
+  it('does not mirror trailing stops or legs outside a hedge target', () => {
+    expect(
+      getMirrorStop([target], '1', stop({ planType: 'moving_plan' })),
+    ).toBeNull();
+    expect(getMirrorStop([target], '2', stop({}))).toBeNull();
+  });
+});
+
+describe('aggregateExposure', () => {
+  it('totals each side by symbol and account', () => {
+    const result = aggregateExposure([
+      {
+        account: account('1'),
+        positions: [
+          position('long', 2),
+          position('short', 0.5),
+          position('long', 1, 'ETHUSDT'),
+          position('long', 0),
+        ],
+      },
+      { account: account('2'), positions: [position('short', 1)] },
+    ]);
+
+    expect(result.BTCUSDT).toEqual({
+      symbol: 'BTCUSDT',
+      long: 2,
+      short: 1.5,
+      net: 0.5,
+      byAccount: {
+        '1': { long: 2, short: 0.5 },
+        '2': { long: 0, short: 1 },
+      },
+    });
+    expect(result.ETHUSDT.byAccount['1'].long).toBe(1);
+  });
+});
+
+describe('evaluateHedge', () => {
+  it('is in band when the short leg matches the ratio', () => {
+    const status = evaluateHedge(target, exposure(0.02, 0.0105));
+
+    expect(status).toMatchObject({
+      longSize: 0.02,
+      shortSize: 0.0105,
+      targetShort: 0.01,
+      inBand: true,
+      proposal: null,
+    });
+  });
+
+  it('proposes orders on the short leg account', () => {
+    expect(evaluateHedge(target, exposure(0.04, 0.01)).proposal).toMatchObject({
+      accountId: '2',
+      side: 'open_short',
+      size: '0.010',
+    });
+    expect(evaluateHedge(target, exposure(0.01, 0.02)).proposal).toMatchObject({
+      accountId: '2',
+      side: 'close_short',
+      size: '0.015',
+    });
+  });
+
+  it('ignores positions in accounts outside the target', () => {
+    const status = evaluateHedge(
+      target,
+      exposure(0.02, 0.01, [position('long', 5), position('short', 3)]),
+    );
+
+    expect(status.inBand).toBe(true);
+    expect(status.proposal).toBeNull();
+  });
+
+  it('treats a missing symbol as flat', () => {
+    expect(evaluateHedge(target, undefined)).toMatchObject({
+      targetShort: 0,
+      deviation: 0,
+      inBand: true,
+    });
+  });
+});
+
+describe('openPairedHedge', () => {
+  // What the fake exchange does with each order, in order per side: fill it,
+  // reject it, answer 502 without executing it, or execute it and never
+  // answer
+  type Outcome = 'fill' | 'reject' | 'busy' | 'timeout';
+
+  let placed: { side: string; clientOid: string }[];
+
+  const response = (status: number, body: Record<string, unknown>) => ({
+    ok: status === 200,
+    status,
+    statusText: '',
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  });
+
+  const stubExchange = (outcomes: { [side: string]: Outcome[] }) => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string, init: RequestInit) => {
+        if (url.startsWith('/api/mix/v1/order/detail')) {
+          const clientOid = new URL(url, 'http://localhost').searchParams.get(
+            'clientOid',
+          );
+          const order = placed.find((o) => o.clientOid === clientOid);
+          return order
+            ? response(200, {
+                code: '00000',
+                data: {
+                  orderId: `id-${clientOid}`,
+                  clientOid,
+                  state: 'filled',
+                },
+              })
+            : response(400, { code: '40768', msg: 'Order does not exist' });
+        }
+
+        const body = JSON.parse(init.body as string);
+        const outcome = outcomes[body.side]?.shift() ?? 'fill';
+        if (outcome === 'reject') {
+          return response(400, { code: '40762', msg: 'Insufficient balance' });
+        }
+        if (outcome === 'busy') {
+          return response(502, { code: '50000', msg: 'Busy' });
+        }
+        placed.push({ side: body.side, clientOid: body.clientOid });
+        if (outcome === 'timeout') {
+          return new Promise((_resolve, reject) =>
+            init.signal?.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError')),
+            ),
+          );
+        }
+        return response(200, {
+          code: '00000',
+          data: { orderId: `id-${body.clientOid}`, clientOid: body.clientOid },
+        });
+      }),
+    );
+  };
+
+  const tradingAccount = (id: string): BitgetAccount => ({
+    id,
+    name: id,
+    apiKey: `${id}-key`,
+    apiSecret: `${id}-secret`,
+    passphrase: `${id}-passphrase`,
+    enabled: true,
+  });
+
+  const open = async () => {
+    const result = openPairedHedge(
+      'BTCUSDT',
+      '0.01',
+      tradingAccount('long'),
+      tradingAccount('short'),
+    );
+    await vi.runAllTimersAsync();
+    return result;
+  };
+
+  beforeEach(() => {
+    placed = [];
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('opens both legs', async () => {
+    stubExchange({});
+
+    const record = await open();
+
+    expect(record.status).toBe('opened');
+    expect(record.longLeg.attempts).toBe(1);
+    expect(record.shortLeg.attempts).toBe(1);
+    expect(placed.map((order) => order.side)).toEqual([
+      'open_long',
+      'open_short',
+    ]);
+  });
+
+  it('unwinds the filled leg without retrying a rejected one', async () => {
+    stubExchange({ open_short: ['reject'] });
+
+    const record = await open();
+
+    expect(record.status).toBe('unwound');
+    expect(record.shortLeg).toMatchObject({
+      attempts: 1,
+      error: expect.stringContaining('Insufficient balance'),
+    });
+    expect(placed.map((order) => order.side)).toEqual([
+      'open_long',
+      'close_long',
+    ]);
+  });
+
+  it('retries transient failures with the same clientOid', async () => {
+    stubExchange({ open_long: ['busy'] });
+
+    const record = await open();
+
+    expect(record.status).toBe('opened');
+    expect(record.longLeg.attempts).toBe(2);
+    expect(placed[1]).toEqual({
+      side: 'open_long',
+      clientOid: record.longLeg.clientOid,
+    });
+  });
+
+  it('finds a timed out order that executed instead of placing it again', async () => {
+    stubExchange({ open_short: ['timeout'] });
+
+    const record = await open();
+
+    expect(record.status).toBe('opened');
+    expect(record.shortLeg).toMatchObject({
+      orderId: `id-${record.shortLeg.clientOid}`,
+      attempts: 1,
+    });
+    expect(placed.map((order) => order.side)).toEqual([
+      'open_long',
+      'open_short',
+    ]);
+  });
+});
@@ -0,0 +1,493 @@
+import {
+  placeOrder,
+  getOrderByClientOid,
+  getApiErrorMessage,
+  BitgetApiError,
+  type BitgetAccount,
+  type OrderSide,
+  type PlaceTpslParams,
+  type ProductType,
+} from './bitgetApi';
+import type { HedgeTarget } from './config';
+import { getMarginCoin, type Position } from './exchangeClient';
+
+// Position sizes for one side of a symbol in one account
+export interface AccountExposure {
+  long: number;
+  short: number;
+}
+
+// Aggregated exposure for a symbol across all accounts
+export interface SymbolExposure {
+  symbol: string;
+  long: number;
+  short: number;
+  net: number;
+  byAccount: { [accountId: string]: AccountExposure };
+}
+
+// Order proposed by the hedge engine to bring a symbol back to target
+export interface RebalanceProposal {
+  accountId: string;
+  symbol: string;
+  side: OrderSide;
+  size: string;
+  reason: string;
+}
+
+// Hedge status for a configured target
+export interface HedgeStatus {
+  target: HedgeTarget;
+  exposure: SymbolExposure;
+  longSize: number; // Long held by the long leg account
+  shortSize: number; // Short held by the short leg account
+  targetShort: number;
+  deviation: number;
+  inBand: boolean;
+  proposal: RebalanceProposal | null;
+}
+
+export interface RebalanceResult {
+  proposal: RebalanceProposal;
+  success: boolean;
+  error?: string;
+}
+
+// Number of decimals in a size step, e.g. 0.001 -> 3
+const getDecimals = (step: number): number => {
+  const [, fraction = ''] = step.toString().split('.');
+  return fraction.length;
+};
+
+// Round a size down to a multiple of the minimum order size
+const roundToStep = (size: number, step: number): number => {
+  if (step <= 0) return size;
+  return parseFloat(
+    (Math.floor(size / step + 1e-9) * step).toFixed(getDecimals(step)),
+  );
+};
+
+// Aggregate position totals by symbol and side across accounts
+export const aggregateExposure = (
+  accounts: { account: BitgetAccount; positions: Position[] }[],
+): { [symbol: string]: SymbolExposure } => {
+  const exposure: { [symbol: string]: SymbolExposure } = {};
+
+  accounts.forEach(({ account, positions }) => {
+    positions.forEach((position) => {
+      const { size } = position;
+      if (!size) return;
+
+      const symbolExposure = (exposure[position.symbol] ??= {
+        symbol: position.symbol,
+        long: 0,
+        short: 0,
+        net: 0,
+        byAccount: {},
+      });
+      const accountExposure = (symbolExposure.byAccount[account.id] ??= {
+        long: 0,
+        short: 0,
+      });
+
+      if (position.holdSide === 'long') {
+        symbolExposure.long += size;
+        accountExposure.long += size;
+      } else {
+        symbolExposure.short += size;
+        accountExposure.short += size;
+      }
+      symbolExposure.net = symbolExposure.long - symbolExposure.short;
+    });
+  });
+
+  return exposure;
+};
+
+// Compare the target's two legs and propose an order on the short leg
+// account. The long leg is the reference size; positions in other accounts
+// are not part of the hedge.
+export const evaluateHedge = (
+  target: HedgeTarget,
+  exposure: SymbolExposure | undefined,
+): HedgeStatus => {
+  const symbolExposure = exposure ?? {
+    symbol: target.symbol,
+    long: 0,
+    short: 0,
+    net: 0,
+    byAccount: {},
+  };
+
+  const longSize = symbolExposure.byAccount[target.longAccountId]?.long ?? 0;
+  const shortSize = symbolExposure.byAccount[target.shortAccountId]?.short ?? 0;
+  const targetShort = longSize * target.ratio;
+  const deviation = targetShort - shortSize;
+  const inBand = Math.abs(deviation) <= target.tolerance;
+
+  let proposal: RebalanceProposal | null = null;
+  if (!inBand) {
+    let size: number;
+    let side: OrderSide;
+    if (deviation > 0) {
+      side = 'open_short';
+      size = deviation;
+    } else {
+      side = 'close_short';
+      size = -deviation;
+    }
+
+    size = roundToStep(size, target.minOrderSize);
+    if (size >= target.minOrderSize && size > 0) {
+      proposal = {
+        accountId: target.shortAccountId,
+        symbol: target.symbol,
+        side,
+        size: size.toFixed(getDecimals(target.minOrderSize)),
+        reason: `Short ${shortSize} vs target ${targetShort.toFixed(
+          getDecimals(target.minOrderSize),
+        )}`,
+      };
+    }
+  }
+
+  return {
+    target,
+    exposure: symbolExposure,
+    longSize,
+    shortSize,
+    targetShort,
+    deviation,
+    inBand,
+    proposal,
+  };
+};
+
+// Evaluate all configured hedge targets
+export const evaluateHedges = (
+  targets: HedgeTarget[],
+  accounts: { account: BitgetAccount; positions: Position[] }[],
+): HedgeStatus[] => {
+  const exposure = aggregateExposure(accounts);
+  return targets.map((target) =>
+    evaluateHedge(target, exposure[target.symbol]),
+  );
+};
+
+// Place the proposed rebalancing orders at market
+export const executeRebalance = async (
+  accounts: BitgetAccount[],
+  proposals: RebalanceProposal[],
+): Promise<RebalanceResult[]> => {
+  const results = await Promise.allSettled(
+    proposals.map((proposal) => {
+      const account = accounts.find((acc) => acc.id === proposal.accountId);
+      if (!account) {
+        return Promise.reject(
+          new Error(`Account ${proposal.accountId} not found`),
+        );
+      }
+      return placeOrder(account, {
+        symbol: proposal.symbol,
+        size: proposal.size,
+        side: proposal.side,
+        orderType: 'market',
+      });
+    }),
+  );
+
+  return results.map((result, index) => ({
+    proposal: proposals[index],
+    success: result.status === 'fulfilled',
+    error:
+      result.status === 'rejected'
+        ? getApiErrorMessage(result.reason)
+        : undefined,
+  }));
+};
+
+// Stop to place on the opposite hedge leg
+export interface MirrorStop {
+  accountId: string;
+  params: PlaceTpslParams;
+}
+
+// Matching stop for the other leg of a configured hedge: it closes that leg
+// at the same trigger price so a triggered stop never leaves it naked. A
+// stop-loss on one leg is a take-profit on the other. Trailing stops follow
+// each leg's own extremes and are not mirrored.
+export const getMirrorStop = (
+  targets: HedgeTarget[],
+  accountId: string,
+  params: PlaceTpslParams,
+): MirrorStop | null => {
+  if (params.planType === 'moving_plan') return null;
+
+  const isLong = params.holdSide === 'long';
+  const target = targets.find(
+    (t) =>
+      t.symbol === params.symbol &&
+      (isLong ? t.longAccountId : t.shortAccountId) === accountId,
+  );
+  if (!target || !(target.ratio > 0)) return null;
+
+  const legSize = parseFloat(params.size);
+  const size = roundToStep(
+    isLong ? legSize * target.ratio : legSize / target.ratio,
+    target.minOrderSize,
+  );
+  if (!(size > 0)) return null;
+
+  return {
+    accountId: isLong ? target.shortAccountId : target.longAccountId,
+    params: {
+      ...params,
+      planType: params.planType === 'loss_plan' ? 'profit_plan' : 'loss_plan',
+      holdSide: isLong ? 'short' : 'long',
+      size: size.toFixed(getDecimals(target.minOrderSize)),
+      clientOid: params.clientOid && `${params.clientOid}-mirror`,
+    },
+  };
+};
+
+// Outcome of one leg of a paired hedge order
+export interface HedgeLegResult {
+  accountId: string;
+  side: OrderSide;
+  clientOid: string; // Shared by every attempt, so the leg opens at most once
+  orderId?: string;
+  error?: string;
+  retryable?: boolean; // Failed without a definite rejection from Bitget
+  unconfirmed?: boolean; // May have executed, but the lookup failed too
+  attempts: number;
+}
+
+// A paired long/short hedge opened across two accounts
+export interface HedgeRecord {
+  id: string;
+  symbol: string;
+  size: string;
+  createdAt: number;
+  status: 'opened' | 'unwound' | 'failed' | 'naked';
+  longLeg: HedgeLegResult;
+  shortLeg: HedgeLegResult;
+  message: string;
+}
+
+// Place a market order, making up to maxAttempts attempts with the same
+// clientOid. A request that failed in transit may still have executed, so
+// the order is looked up before the next attempt. Rejections are final.
+const placeLeg = async (
+  account: BitgetAccount,
+  symbol: string,
+  productType: ProductType,
+  size: string,
+  side: OrderSide,
+  clientOid: string,
+  maxAttempts: number,
+  previousAttempts: number = 0,
+): Promise<HedgeLegResult> => {
+  const leg = { accountId: account.id, side, clientOid };
+  let lastError = 'No attempts made';
+  let attempts = previousAttempts;
+
+  while (attempts < previousAttempts + maxAttempts) {
+    attempts++;
+    try {
+      const result = await placeOrder(account, {
+        symbol,
+        marginCoin: getMarginCoin(symbol, productType),
+        size,
+        side,
+        orderType: 'market',
+        clientOid,
+        productType,
+      });
+      return { ...leg, orderId: result.orderId, attempts };
+    } catch (error) {
+      lastError = getApiErrorMessage(error);
+      if (!(error instanceof BitgetApiError && error.retryable)) {
+        return { ...leg, error: lastError, attempts };
+      }
+    }
+
+    try {
+      const order = await getOrderByClientOid(
+        account,
+        symbol,
+        clientOid,
+        productType,
+      );
+      if (order && order.state !== 'canceled') {
+        return { ...leg, orderId: order.orderId, attempts };
+      }
+    } catch (error) {
+      return {
+        ...leg,
+        error: `${lastError}, order status unknown: ${getApiErrorMessage(error)}`,
+        unconfirmed: true,
+        attempts,
+      };
+    }
+  }
+
+  return { ...leg, error: lastError, retryable: true, attempts };
+};
+
+// Retry a leg that failed without a definite rejection, keeping its
+// clientOid and attempt count
+const retryLeg = async (
+  leg: HedgeLegResult,
+  account: BitgetAccount,
+  symbol: string,
+  productType: ProductType,
+  size: string,
+  retries: number,
+): Promise<HedgeLegResult> => {
+  if (!leg.error || !leg.retryable || retries <= 0) return leg;
+
+  return placeLeg(
+    account,
+    symbol,
+    productType,
+    size,
+    leg.side,
+    leg.clientOid,
+    retries,
+    leg.attempts,
+  );
+};
+
+// Open the same size long on one account and short on another. If one leg
+// fails it is retried, and if it still fails the filled leg is unwound so we
+// never keep a naked position. A leg whose outcome cannot be confirmed is
+// left for the user to check rather than unwinding blindly.
+export const openPairedHedge = async (
+  symbol: string,
+  size: string,
+  longAccount: BitgetAccount,
+  shortAccount: BitgetAccount,
+  retries: number = 1,
+  productType: ProductType = 'USDT-FUTURES',
+): Promise<HedgeRecord> => {
+  const record = {
+    id: `${Date.now()}-${longAccount.id}-${shortAccount.id}`,
+    symbol,
+    size,
+    createdAt: Date.now(),
+  };
+  const clientOid = `hedge-${record.createdAt}`;
+
+  const unconfirmed = (
+    longLeg: HedgeLegResult,
+    shortLeg: HedgeLegResult,
+  ): HedgeRecord | null => {
+    const leg = [longLeg, shortLeg].find((l) => l.unconfirmed);
+    if (!leg) return null;
+    const account = leg === longLeg ? longAccount : shortAccount;
+    return {
+      ...record,
+      status: 'naked',
+      longLeg,
+      shortLeg,
+      message: `Could not confirm the ${leg === longLeg ? 'long' : 'short'} leg on ${account.name}, check its positions`,
+    };
+  };
+
+  const [firstLong, firstShort] = await Promise.all([
+    placeLeg(
+      longAccount,
+      symbol,
+      productType,
+      size,
+      'open_long',
+      `${clientOid}-long`,
+      1,
+    ),
+    placeLeg(
+      shortAccount,
+      symbol,
+      productType,
+      size,
+      'open_short',
+      `${clientOid}-short`,
+      1,
+    ),
+  ]);
+
+  const firstUnconfirmed = unconfirmed(firstLong, firstShort);
+  if (firstUnconfirmed) return firstUnconfirmed;
+
+  if (firstLong.error && firstShort.error) {
+    return {
+      ...record,
+      status: 'failed',
+      longLeg: firstLong,
+      shortLeg: firstShort,
+      message: 'Both legs failed, no position opened',
+    };
+  }
+
+  // Retry whichever leg failed
+  const longLeg = await retryLeg(
+    firstLong,
+    longAccount,
+    symbol,
+    productType,
+    size,
+    retries,
+  );
+  const shortLeg = await retryLeg(
+    firstShort,
+    shortAccount,
+    symbol,
+    productType,
+    size,
+    retries,
+  );
+
+  if (!longLeg.error && !shortLeg.error) {
+    return {
+      ...record,
+      status: 'opened',
+      longLeg,
+      shortLeg,
+      message: 'Hedge opened',
+    };
+  }
+
+  const retriedUnconfirmed = unconfirmed(longLeg, shortLeg);
+  if (retriedUnconfirmed) return retriedUnconfirmed;
+
+  // One leg is still missing - unwind the filled one
+  const [filledAccount, unwindSide] = longLeg.error
+    ? [shortAccount, 'close_short' as const]
+    : [longAccount, 'close_long' as const];
+  const unwind = await placeLeg(
+    filledAccount,
+    symbol,
+    productType,
+    size,
+    unwindSide,
+    `${clientOid}-unwind`,
+    retries + 1,
+  );
+
+  if (unwind.error) {
+    return {
+      ...record,
+      status: 'naked',
+      longLeg,
+      shortLeg,
+      message: `Unwind failed on ${filledAccount.name}: ${unwind.error}`,
+    };
+  }
+
+  return {
+    ...record,
+    status: 'unwound',
+    longLeg,
+    shortLeg,
+    message: `${longLeg.error ? 'Long' : 'Short'} leg failed, ${filledAccount.name} leg unwound`,
+  };
+};
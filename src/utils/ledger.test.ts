@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  fetchAllPages,
+  getNextSyncState,
+  getOrderFee,
+  getSyncWindow,
+  summarizeLedger,
+  toCsv,
+  type LedgerData,
+  type LedgerOrder,
+} from './ledger';
+
+const DAY_1 = Date.UTC(2026, 0, 1, 12).toString();
+const DAY_2 = Date.UTC(2026, 0, 2, 12).toString();
+
+const order = (
+  overrides: Partial<LedgerOrder> & { accountId: string },
+): LedgerOrder => ({
+  symbol: 'BTCUSDT_UMCBL',
+  orderId: '1',
+  clientOid: '',
+  size: '0.01',
+  filledQty: '0.01',
+  fee: '0',
+  price: '0',
+  priceAvg: '60000',
+  state: 'filled',
+  side: 'close_long',
+  totalProfits: '0',
+  marginCoin: 'USDT',
+  orderType: 'market',
+  cTime: DAY_1,
+  uTime: DAY_1,
+  ...overrides,
+});
+
+describe('ledger', () => {
+  it('sums fees across coins in feeDetail and falls back to fee', () => {
+    const base = order({ accountId: '1', fee: '-0.5' });
+
+    expect(
+      getOrderFee({
+        ...base,
+        feeDetail: JSON.stringify({
+          USDT: { feeCoinCode: 'USDT', totalFee: -0.36 },
+          BGB: { feeCoinCode: 'BGB', totalFee: '-0.04' },
+        }),
+      }),
+    ).toBeCloseTo(-0.4);
+    expect(getOrderFee(base)).toBe(-0.5);
+    expect(getOrderFee({ ...base, feeDetail: 'not json' })).toBe(-0.5);
+  });
+
+  it('follows lastEndId until the last page', async () => {
+    const fetchPage = vi
+      .fn()
+      .mockResolvedValueOnce({ items: [1, 2], lastEndId: '2' })
+      .mockResolvedValueOnce({ items: [3], lastEndId: null });
+
+    await expect(fetchAllPages(fetchPage)).resolves.toEqual({
+      items: [1, 2, 3],
+      lastEndId: null,
+    });
+    expect(fetchPage.mock.calls).toEqual([[undefined], ['2']]);
+  });
+
+  it('stops at the page limit and keeps the cursor', async () => {
+    const fetchPage = vi.fn(async (lastEndId?: string) => ({
+      items: [Number(lastEndId ?? 0)],
+      lastEndId: String(Number(lastEndId ?? 0) + 1),
+    }));
+
+    const result = await fetchAllPages(fetchPage);
+    expect(result.items).toHaveLength(50);
+    expect(result.lastEndId).toBe('50');
+  });
+
+  it('only advances the sync time once the last page was reached', () => {
+    const now = Date.UTC(2026, 0, 10);
+    const lastSync = Date.UTC(2026, 0, 1);
+    const window = getSyncWindow({ time: lastSync }, now);
+    expect(window).toEqual({
+      startTime: lastSync - 5 * 60 * 1000,
+      endTime: now,
+    });
+
+    const record = (time: number) => ({ cTime: time.toString() });
+    const complete = { items: [record(now - 1)], lastEndId: null };
+    expect(getNextSyncState({ time: lastSync }, window, [complete])).toEqual({
+      time: now,
+    });
+
+    // Orders were cut off at DAY_2, fills at DAY_1: resume below DAY_2
+    const cutOffState = getNextSyncState({ time: lastSync }, window, [
+      { items: [record(now - 1), record(Number(DAY_2))], lastEndId: 'o' },
+      { items: [record(Number(DAY_1))], lastEndId: 'f' },
+      complete,
+    ]);
+    expect(cutOffState).toEqual({
+      time: now,
+      resume: { startTime: window.startTime, endTime: Number(DAY_2) },
+    });
+
+    // The next sync fills the gap, then continues from now
+    const resumeWindow = getSyncWindow(cutOffState, now + 1000);
+    expect(resumeWindow).toEqual(cutOffState.resume);
+    expect(getNextSyncState(cutOffState, resumeWindow, [complete])).toEqual({
+      time: now,
+    });
+  });
+
+  it('keeps the cursor when a cut-off page is empty', () => {
+    const window = { startTime: Number(DAY_1), endTime: Number(DAY_2) };
+    const state = { time: 0, resume: window };
+
+    expect(
+      getNextSyncState(state, window, [{ items: [], lastEndId: 'o' }]),
+    ).toEqual({ time: 0, resume: window });
+  });
+
+  it('summarizes realized P&L, fees and funding per day and account', () => {
+    const data: LedgerData = {
+      orders: [
+        order({ accountId: '1', totalProfits: '10', fee: '-1' }),
+        order({ accountId: '2', totalProfits: '-4', fee: '-1', uTime: DAY_2 }),
+        // Cancelled without a fill
+        order({ accountId: '2', filledQty: '0', totalProfits: '99' }),
+      ],
+      fills: [],
+      funding: [
+        {
+          accountId: '1',
+          id: 'f1',
+          symbol: 'BTCUSDT_UMCBL',
+          marginCoin: 'USDT',
+          amount: '-0.5',
+          fee: '0',
+          business: 'contract_main_settle_fee',
+          cTime: DAY_2,
+        },
+      ],
+    };
+
+    expect(summarizeLedger(data, 'day')).toEqual([
+      {
+        key: '2026-01-02',
+        realizedPnl: -4,
+        fees: -1,
+        funding: -0.5,
+        net: -5.5,
+        orders: 1,
+      },
+      {
+        key: '2026-01-01',
+        realizedPnl: 10,
+        fees: -1,
+        funding: 0,
+        net: 9,
+        orders: 1,
+      },
+    ]);
+    expect(
+      summarizeLedger(data, 'account', { '1': 'Main', '2': 'Hedge' }).map(
+        (row) => [row.key, row.net],
+      ),
+    ).toEqual([
+      ['Hedge', -5],
+      ['Main', 8.5],
+    ]);
+  });
+
+  it('quotes CSV values that need it', () => {
+    expect(toCsv(['a', 'b'], [['x,y', 'say "hi"']])).toBe(
+      'a,b\n"x,y","say ""hi"""',
+    );
+  });
+});
@@ -0,0 +1,271 @@
+import {
+  getOrderHistory,
+  getFills,
+  getFundingBills,
+  getApiErrorMessage,
+  type BitgetAccount,
+  type BitgetBill,
+  type BitgetFill,
+  type BitgetHistoryOrder,
+  type HistoryPage,
+} from './bitgetApi';
+import { getSyncState, saveLedgerData, setSyncState } from './ledgerStore';
+
+export interface LedgerOrder extends BitgetHistoryOrder {
+  accountId: string;
+}
+
+export interface LedgerFill extends BitgetFill {
+  accountId: string;
+}
+
+export interface LedgerFunding extends BitgetBill {
+  accountId: string;
+}
+
+export interface LedgerData {
+  orders: LedgerOrder[];
+  fills: LedgerFill[];
+  funding: LedgerFunding[];
+}
+
+export type LedgerGroupBy = 'day' | 'symbol' | 'account';
+
+// Realized figures for one day, symbol or account. Fees and funding are
+// signed like on Bitget: negative when paid.
+export interface LedgerRow {
+  key: string;
+  realizedPnl: number;
+  fees: number;
+  funding: number;
+  net: number;
+  orders: number;
+}
+
+// History is stored up to `time`. A sync cut off at MAX_PAGES leaves
+// `resume` set: records from startTime up to endTime (the oldest record it
+// fetched) are still missing and are fetched first next time.
+export interface LedgerSyncState {
+  time: number;
+  resume?: { startTime: number; endTime: number };
+}
+
+export interface LedgerSyncResult {
+  account: BitgetAccount;
+  success: boolean;
+  complete: boolean; // False while older records are still to be fetched
+  error?: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+// First sync goes back this far; later syncs resume from the last one
+const INITIAL_LOOKBACK = 90 * DAY;
+// Re-fetch a little before the last sync to catch late records
+const SYNC_OVERLAP = 5 * 60 * 1000;
+const MAX_PAGES = 50;
+
+const toDay = (time: string): string =>
+  new Date(parseInt(time, 10)).toISOString().slice(0, 10);
+
+const toSymbol = (symbol: string): string => symbol.replace(/_UMCBL$/, '');
+
+// Follow lastEndId until the last page (or MAX_PAGES pages). lastEndId is
+// still set in the result when the last page was not reached.
+export const fetchAllPages = async <T>(
+  fetchPage: (lastEndId?: string) => Promise<HistoryPage<T>>,
+): Promise<HistoryPage<T>> => {
+  const items: T[] = [];
+  let lastEndId: string | null = null;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await fetchPage(lastEndId ?? undefined);
+    items.push(...result.items);
+    lastEndId = result.lastEndId;
+    if (!lastEndId) break;
+  }
+  return { items, lastEndId };
+};
+
+// Time range the next sync of an account fetches
+export const getSyncWindow = (
+  state: LedgerSyncState | null,
+  now: number,
+): { startTime: number; endTime: number } => {
+  if (state?.resume) {
+    return state.resume;
+  }
+  return {
+    startTime: state ? state.time - SYNC_OVERLAP : now - INITIAL_LOOKBACK,
+    endTime: now,
+  };
+};
+
+// Sync state after fetching a window. Pages run newest first, so a cut-off
+// list is missing everything below its oldest record; the next sync resumes
+// there, below the highest such record across the lists.
+export const getNextSyncState = (
+  state: LedgerSyncState | null,
+  window: { startTime: number; endTime: number },
+  pages: HistoryPage<{ cTime: string }>[],
+): LedgerSyncState => {
+  const time = state?.resume ? state.time : window.endTime;
+  const cutOff = pages.filter((page) => page.lastEndId);
+  if (cutOff.length === 0) {
+    return { time };
+  }
+
+  // An empty cut-off page has no oldest record; its list resumes where
+  // this window ended
+  const oldest = cutOff
+    .filter((page) => page.items.length > 0)
+    .map((page) =>
+      Math.min(...page.items.map((item) => parseInt(item.cTime, 10))),
+    )
+    .filter((cTime) => Number.isFinite(cTime));
+  const endTime = oldest.length > 0 ? Math.max(...oldest) : window.endTime;
+  return { time, resume: { startTime: window.startTime, endTime } };
+};
+
+// Total fee of an order. feeDetail is a JSON object per fee coin, e.g.
+// {"USDT":{"feeCoinCode":"USDT","totalFee":-0.0123}}; the plain fee field is
+// the fallback when it is missing.
+export const getOrderFee = (order: BitgetHistoryOrder): number => {
+  if (order.feeDetail) {
+    try {
+      const detail: unknown = JSON.parse(order.feeDetail);
+      if (detail && typeof detail === 'object') {
+        return Object.values(detail).reduce(
+          (sum: number, coin) =>
+            sum + (parseFloat(String(coin?.totalFee ?? 0)) || 0),
+          0,
+        );
+      }
+    } catch {
+      // Fall through to the plain fee
+    }
+  }
+  return parseFloat(order.fee || '0') || 0;
+};
+
+// Fetch and store an account's history since its last sync. Returns false
+// when the sync was cut off and older records are still missing.
+export const syncAccountLedger = async (
+  account: BitgetAccount,
+  now: number = Date.now(),
+): Promise<boolean> => {
+  const state = await getSyncState(account.id);
+  const { startTime, endTime } = getSyncWindow(state, now);
+
+  // The ledger sums in USDT, so it only holds the USDT-M history
+  const [orders, fills, funding] = await Promise.all([
+    fetchAllPages((lastEndId) =>
+      getOrderHistory(account, startTime, endTime, lastEndId, 'USDT-FUTURES'),
+    ),
+    fetchAllPages((lastEndId) =>
+      getFills(account, startTime, endTime, lastEndId, 'USDT-FUTURES'),
+    ),
+    fetchAllPages((lastEndId) =>
+      getFundingBills(account, startTime, endTime, lastEndId, 'USDT-FUTURES'),
+    ),
+  ]);
+
+  await saveLedgerData({
+    orders: orders.items.map((order) => ({ ...order, accountId: account.id })),
+    fills: fills.items.map((fill) => ({ ...fill, accountId: account.id })),
+    funding: funding.items.map((bill) => ({
+      ...bill,
+      accountId: account.id,
+    })),
+  });
+  const nextState = getNextSyncState(state, { startTime, endTime }, [
+    orders,
+    fills,
+    funding,
+  ]);
+  await setSyncState(account.id, nextState);
+  return !nextState.resume;
+};
+
+// Sync all accounts; a failing account does not stop the others
+export const syncLedger = async (
+  accounts: BitgetAccount[],
+): Promise<LedgerSyncResult[]> => {
+  const results = await Promise.allSettled(
+    accounts.map((account) => syncAccountLedger(account)),
+  );
+
+  return results.map((result, index) => ({
+    account: accounts[index],
+    success: result.status === 'fulfilled',
+    complete: result.status === 'fulfilled' && result.value,
+    error:
+      result.status === 'rejected'
+        ? getApiErrorMessage(result.reason)
+        : undefined,
+  }));
+};
+
+// Aggregate realized P&L, fees and funding by day, symbol or account.
+// Days are UTC and listed newest first, other groups alphabetically.
+export const summarizeLedger = (
+  data: LedgerData,
+  groupBy: LedgerGroupBy,
+  accountNames: { [accountId: string]: string } = {},
+): LedgerRow[] => {
+  const rows: { [key: string]: LedgerRow } = {};
+  const getRow = (accountId: string, symbol: string, time: string) => {
+    const key =
+      groupBy === 'day'
+        ? toDay(time)
+        : groupBy === 'symbol'
+          ? toSymbol(symbol)
+          : (accountNames[accountId] ?? accountId);
+    return (rows[key] ??= {
+      key,
+      realizedPnl: 0,
+      fees: 0,
+      funding: 0,
+      net: 0,
+      orders: 0,
+    });
+  };
+
+  data.orders.forEach((order) => {
+    if (!(parseFloat(order.filledQty || '0') > 0)) return;
+    const row = getRow(order.accountId, order.symbol, order.uTime);
+    row.realizedPnl += parseFloat(order.totalProfits || '0') || 0;
+    row.fees += getOrderFee(order);
+    row.orders++;
+  });
+
+  data.funding.forEach((bill) => {
+    const row = getRow(bill.accountId, bill.symbol, bill.cTime);
+    row.funding += parseFloat(bill.amount || '0') || 0;
+  });
+
+  return Object.values(rows)
+    .map((row) => ({ ...row, net: row.realizedPnl + row.fees + row.funding }))
+    .sort((a, b) =>
+      groupBy === 'day'
+        ? b.key.localeCompare(a.key)
+        : a.key.localeCompare(b.key),
+    );
+};
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: (string | number)[][]): string =>
+  [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\n');
+
+// Download CSV text as a file
+export const downloadCsv = (filename: string, csv: string): void => {
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
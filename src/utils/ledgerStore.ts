@@ -0,0 +1,111 @@
+import type { LedgerData, LedgerSyncState } from './ledger';
+
+// IndexedDB persistence for the order history, fills and funding ledger.
+// Records are keyed by account and exchange id, so re-syncing an
+// overlapping time range just overwrites what is already stored.
+
+const DB_NAME = 'bitget-hedger-ledger';
+const DB_VERSION = 1;
+
+const RECORD_STORES: { [store in keyof LedgerData]: string[] } = {
+  orders: ['accountId', 'orderId'],
+  fills: ['accountId', 'tradeId'],
+  funding: ['accountId', 'id'],
+};
+const SYNC_STORE = 'sync';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.entries(RECORD_STORES).forEach(([store, keyPath]) => {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store, { keyPath });
+        }
+      });
+      if (!db.objectStoreNames.contains(SYNC_STORE)) {
+        db.createObjectStore(SYNC_STORE, { keyPath: 'accountId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const getDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= openDb().catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Store (or overwrite) ledger records
+export const saveLedgerData = async (data: LedgerData): Promise<void> => {
+  const db = await getDb();
+  const stores = Object.keys(RECORD_STORES) as (keyof LedgerData)[];
+  const transaction = db.transaction(stores, 'readwrite');
+  stores.forEach((store) => {
+    const objectStore = transaction.objectStore(store);
+    data[store].forEach((record) => objectStore.put(record));
+  });
+  await transactionDone(transaction);
+};
+
+// Load every stored ledger record
+export const loadLedgerData = async (): Promise<LedgerData> => {
+  const db = await getDb();
+  const transaction = db.transaction(Object.keys(RECORD_STORES), 'readonly');
+  const [orders, fills, funding] = await Promise.all([
+    requestResult(transaction.objectStore('orders').getAll()),
+    requestResult(transaction.objectStore('fills').getAll()),
+    requestResult(transaction.objectStore('funding').getAll()),
+  ]);
+  return { orders, fills, funding };
+};
+
+// Sync progress for an account, null before its first sync
+export const getSyncState = async (
+  accountId: string,
+): Promise<LedgerSyncState | null> => {
+  const db = await getDb();
+  const record: ({ accountId: string } & LedgerSyncState) | undefined =
+    await requestResult(
+      db.transaction(SYNC_STORE).objectStore(SYNC_STORE).get(accountId),
+    );
+  return record ? { time: record.time, resume: record.resume } : null;
+};
+
+export const setSyncState = async (
+  accountId: string,
+  state: LedgerSyncState,
+): Promise<void> => {
+  const db = await getDb();
+  const transaction = db.transaction(SYNC_STORE, 'readwrite');
+  transaction.objectStore(SYNC_STORE).put({ accountId, ...state });
+  await transactionDone(transaction);
+};
+
+// Remove all stored records, the next sync starts from scratch
+export const clearLedgerData = async (): Promise<void> => {
+  const db = await getDb();
+  const stores = [...Object.keys(RECORD_STORES), SYNC_STORE];
+  const transaction = db.transaction(stores, 'readwrite');
+  stores.forEach((store) => transaction.objectStore(store).clear());
+  await transactionDone(transaction);
+};
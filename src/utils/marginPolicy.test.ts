@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { BitgetAccount } from './bitgetApi';
+import type { Balance, Position } from './exchangeClient';
+import {
+  evaluateMarginPolicy,
+  executeMarginProposals,
+  DEFAULT_MARGIN_POLICY,
+} from './marginPolicy';
+import { assessPositionRisks } from './riskMonitor';
+
+const account = (id: string): BitgetAccount => ({
+  id,
+  name: `Account ${id}`,
+  apiKey: `key-${id}`,
+  apiSecret: 'secret',
+  passphrase: 'passphrase',
+  enabled: true,
+  userId: `uid-${id}`,
+});
+
+const balance = (
+  equity: number,
+  crossRiskRate: number,
+  maxTransferOut: number = equity,
+): Balance => ({
+  productType: 'USDT-FUTURES',
+  marginCoin: 'USDT',
+  equity,
+  usdtEquity: equity,
+  available: maxTransferOut,
+  locked: 0,
+  maxTransferOut,
+  unrealizedPL: 0,
+  crossRiskRate,
+});
+
+const position = (
+  marginMode: 'crossed' | 'fixed',
+  liquidationPrice: number,
+): Position => ({
+  symbol: 'BTCUSDT',
+  productType: 'USDT-FUTURES',
+  marginCoin: 'USDT',
+  holdSide: 'short',
+  marginMode,
+  holdMode: 'double_hold',
+  size: 0.1,
+  available: 0.1,
+  margin: 100,
+  leverage: 10,
+  entryPrice: 60000,
+  markPrice: 60000,
+  liquidationPrice,
+  unrealizedPL: 0,
+  achievedProfits: 0,
+  openTime: 0,
+});
+
+describe('marginPolicy', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('transfers from the healthiest account to one over the risk rate', () => {
+    const accounts = [
+      { account: account('1'), balances: [balance(1000, 0.6)], positions: [] },
+      { account: account('2'), balances: [balance(5000, 0.1)], positions: [] },
+      { account: account('3'), balances: [balance(2000, 0.1)], positions: [] },
+    ];
+
+    const proposals = evaluateMarginPolicy(accounts, [], DEFAULT_MARGIN_POLICY);
+
+    // Risk rate 0.6 -> 0.3 needs equity doubled
+    expect(proposals).toEqual([
+      {
+        type: 'transfer',
+        fromAccountId: '2',
+        toAccountId: '1',
+        amount: 1000,
+        reason: 'risk rate 60.0%',
+      },
+    ]);
+  });
+
+  it('tops up isolated positions and transfers what the balance lacks', () => {
+    const accounts = [
+      {
+        account: account('1'),
+        balances: [balance(1000, 0.1, 200)],
+        positions: [position('fixed', 63000)],
+      },
+      { account: account('2'), balances: [balance(5000, 0.1)], positions: [] },
+    ];
+    const risks = assessPositionRisks(accounts, {}, {});
+
+    const proposals = evaluateMarginPolicy(
+      accounts,
+      risks,
+      DEFAULT_MARGIN_POLICY,
+    );
+
+    // 5% from liquidation, 15% more at 0.1 BTC x 60000 is 900 USDT
+    expect(proposals.map((p) => [p.type, p.amount])).toEqual([
+      ['transfer', 700],
+      ['addMargin', 900],
+    ]);
+  });
+
+  it('keeps running proposals after a failure', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        code: '00000',
+        msg: 'success',
+        data: { transferId: '1' },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const results = await executeMarginProposals(
+      [account('1'), account('2')],
+      [
+        {
+          type: 'addMargin',
+          accountId: 'missing',
+          symbol: 'BTCUSDT',
+          productType: 'USDT-FUTURES',
+          marginCoin: 'USDT',
+          holdSide: 'long',
+          amount: 50,
+          reason: 'test',
+        },
+        {
+          type: 'transfer',
+          fromAccountId: '2',
+          toAccountId: '1',
+          amount: 50,
+          reason: 'test',
+        },
+      ],
+      '1',
+    );
+
+    expect(results.map((result) => result.success)).toEqual([false, true]);
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body).toMatchObject({
+      fromUserId: 'uid-2',
+      toUserId: 'uid-1',
+      amount: '50.00',
+    });
+  });
+});
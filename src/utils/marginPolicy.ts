@@ -0,0 +1,245 @@
+import {
+  adjustMargin,
+  transferBetweenAccounts,
+  getApiErrorMessage,
+  type BitgetAccount,
+  type ProductType,
+} from './bitgetApi';
+import type { MarginPolicySettings } from './config';
+import { getUsdtBalance, type Balance, type Position } from './exchangeClient';
+import type { PositionRisk } from './riskMonitor';
+
+// Collateral move proposed by the margin policy
+export type MarginProposal =
+  | {
+      type: 'transfer';
+      fromAccountId: string;
+      toAccountId: string;
+      amount: number;
+      reason: string;
+    }
+  | {
+      type: 'addMargin';
+      accountId: string;
+      symbol: string;
+      productType: ProductType;
+      marginCoin: string;
+      holdSide: 'long' | 'short';
+      amount: number;
+      reason: string;
+    };
+
+export interface MarginProposalResult {
+  proposal: MarginProposal;
+  success: boolean;
+  error?: string;
+}
+
+export interface MarginAccountData {
+  account: BitgetAccount;
+  balances: Balance[];
+  positions: Position[];
+}
+
+export const DEFAULT_MARGIN_POLICY: MarginPolicySettings = {
+  autoExecute: false,
+  mainAccountId: '',
+  riskRateThreshold: 0.5,
+  targetRiskRate: 0.3,
+  liquidationDistancePct: 10,
+  targetDistancePct: 20,
+  maxTransferShare: 0.5,
+  minTransfer: 10,
+};
+
+const roundDown = (amount: number): number => Math.floor(amount * 100) / 100;
+
+// USDT needed to bring a cross account's risk rate down to the target.
+// crossRiskRate is maintenance margin / equity, so equity has to grow by
+// equity * (riskRate / target - 1).
+const getCrossTopUp = (balance: Balance, targetRiskRate: number): number => {
+  const { equity, crossRiskRate: riskRate } = balance;
+  if (!(equity > 0) || !(riskRate > targetRiskRate) || !(targetRiskRate > 0)) {
+    return 0;
+  }
+  return equity * (riskRate / targetRiskRate - 1);
+};
+
+// Margin needed to push an isolated position's liquidation price out to the
+// target distance: each USDT of margin moves it by 1 / size
+const getIsolatedTopUp = (risk: PositionRisk, targetPct: number): number => {
+  if (!Number.isFinite(risk.distancePct) || risk.distancePct >= targetPct) {
+    return 0;
+  }
+  return (
+    (risk.position.size * risk.markPrice * (targetPct - risk.distancePct)) / 100
+  );
+};
+
+// Propose transfers from the account with the most transferable USDT to
+// accounts whose risk rate or liquidation distance crossed the thresholds,
+// and margin top-ups for isolated positions near liquidation. Only the
+// USDT-M account is managed, since transfers move USDT.
+export const evaluateMarginPolicy = (
+  accounts: MarginAccountData[],
+  risks: PositionRisk[],
+  settings: MarginPolicySettings,
+): MarginProposal[] => {
+  const proposals: MarginProposal[] = [];
+  const available: { [accountId: string]: number } = {};
+  const transferable: { [accountId: string]: number } = {};
+  const usdtBalances: { [accountId: string]: Balance | null } = {};
+  accounts.forEach(({ account, balances }) => {
+    const balance = getUsdtBalance(balances);
+    usdtBalances[account.id] = balance;
+    available[account.id] = balance?.available ?? 0;
+    transferable[account.id] =
+      (balance?.maxTransferOut ?? 0) * settings.maxTransferShare;
+  });
+
+  // USDT each at-risk account needs transferred in
+  const needs: { [accountId: string]: { amount: number; reason: string } } = {};
+
+  accounts.forEach(({ account }) => {
+    const balance = usdtBalances[account.id];
+    if (!balance) return;
+    const riskRate = balance.crossRiskRate;
+    if (riskRate >= settings.riskRateThreshold) {
+      needs[account.id] = {
+        amount: getCrossTopUp(balance, settings.targetRiskRate),
+        reason: `risk rate ${(riskRate * 100).toFixed(1)}%`,
+      };
+    }
+  });
+
+  risks.forEach((risk) => {
+    if (risk.distancePct > settings.liquidationDistancePct) return;
+    if (risk.position.productType !== 'USDT-FUTURES') return;
+
+    const reason = `${risk.position.symbol} ${risk.position.holdSide} ${risk.distancePct.toFixed(2)}% from liquidation`;
+    if (risk.position.marginMode === 'fixed') {
+      const amount = getIsolatedTopUp(risk, settings.targetDistancePct);
+      if (amount < settings.minTransfer) return;
+
+      proposals.push({
+        type: 'addMargin',
+        accountId: risk.accountId,
+        symbol: risk.position.symbol,
+        productType: risk.position.productType,
+        marginCoin: risk.position.marginCoin,
+        holdSide: risk.position.holdSide,
+        amount: roundDown(amount),
+        reason,
+      });
+
+      // Whatever the available balance can't cover has to be transferred in
+      const fromBalance = Math.min(amount, available[risk.accountId] ?? 0);
+      available[risk.accountId] -= fromBalance;
+      if (amount - fromBalance >= settings.minTransfer) {
+        const need = (needs[risk.accountId] ??= { amount: 0, reason });
+        need.amount += amount - fromBalance;
+      }
+      return;
+    }
+
+    // Cross positions: liquidation is governed by the account risk rate
+    if (!needs[risk.accountId]) {
+      const balance = usdtBalances[risk.accountId];
+      needs[risk.accountId] = {
+        amount: balance
+          ? getCrossTopUp(balance, settings.targetRiskRate)
+          : settings.minTransfer,
+        reason,
+      };
+    }
+  });
+
+  Object.entries(needs).forEach(([accountId, need]) => {
+    let remaining = need.amount;
+    // Donors: healthy accounts, most transferable first
+    const donors = accounts
+      .filter(
+        (data) =>
+          data.account.id !== accountId &&
+          !needs[data.account.id] &&
+          transferable[data.account.id] >= settings.minTransfer,
+      )
+      .sort((a, b) => transferable[b.account.id] - transferable[a.account.id]);
+
+    donors.forEach(({ account }) => {
+      if (remaining < settings.minTransfer) return;
+      const amount = roundDown(Math.min(remaining, transferable[account.id]));
+      if (amount < settings.minTransfer) return;
+
+      transferable[account.id] -= amount;
+      remaining -= amount;
+      proposals.push({
+        type: 'transfer',
+        fromAccountId: account.id,
+        toAccountId: accountId,
+        amount,
+        reason: need.reason,
+      });
+    });
+  });
+
+  // Transfers first so top-ups can use the incoming funds
+  return proposals.sort((a, b) =>
+    a.type === b.type ? 0 : a.type === 'transfer' ? -1 : 1,
+  );
+};
+
+// Execute proposals in order; a failed proposal does not stop the rest
+export const executeMarginProposals = async (
+  accounts: BitgetAccount[],
+  proposals: MarginProposal[],
+  mainAccountId: string,
+): Promise<MarginProposalResult[]> => {
+  const results: MarginProposalResult[] = [];
+  const findAccount = (accountId: string) =>
+    accounts.find((account) => account.id === accountId);
+
+  for (const proposal of proposals) {
+    try {
+      if (proposal.type === 'transfer') {
+        const mainAccount = findAccount(mainAccountId);
+        const from = findAccount(proposal.fromAccountId);
+        const to = findAccount(proposal.toAccountId);
+        if (!mainAccount) {
+          throw new Error('No main account configured for transfers');
+        }
+        if (!from?.userId || !to?.userId) {
+          throw new Error('Both accounts need a user ID for transfers');
+        }
+        await transferBetweenAccounts(
+          mainAccount,
+          from.userId,
+          to.userId,
+          proposal.amount.toFixed(2),
+        );
+      } else {
+        const account = findAccount(proposal.accountId);
+        if (!account) {
+          throw new Error(`Unknown account ${proposal.accountId}`);
+        }
+        await adjustMargin(
+          account,
+          proposal.symbol,
+          proposal.holdSide,
+          proposal.amount,
+          proposal.productType,
+          proposal.marginCoin,
+        );
+      }
+      results.push({ proposal, success: true });
+    } catch (error) {
+      results.push({
+        proposal,
+        success: false,
+        error: getApiErrorMessage(error),
+      });
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MarketDataManager } from './marketData';
+
+// Minimal browser WebSocket stand-in driven by the tests
+class FakeWebSocket {
+  static OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  url: string;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(message: string) {
+    this.sent.push(message);
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  subscribedSymbols(): string[] {
+    return this.sent
+      .filter((message) => message !== 'ping')
+      .map((message) => JSON.parse(message))
+      .filter((message) => message.op === 'subscribe')
+      .flatMap((message) =>
+        message.args.map((arg: { instId: string }) => arg.instId),
+      );
+  }
+}
+
+const latestSocket = () =>
+  FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+const ticker = (symbol: string, lastPr: string) => ({
+  action: 'snapshot',
+  arg: { instType: 'USDT-FUTURES', channel: 'ticker', instId: symbol },
+  data: [{ instId: symbol, lastPr }],
+});
+
+describe('MarketDataManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('multiplexes listeners and resubscribes after reconnecting', () => {
+    const manager = new MarketDataManager('ws://test');
+    const btcPrices: string[] = [];
+    manager.subscribe('ticker', 'BTCUSDT', (data) =>
+      btcPrices.push((data[0] as Record<string, string>).lastPr),
+    );
+    manager.subscribe('ticker', 'ETHUSDT', () => {});
+
+    latestSocket().open();
+    expect(latestSocket().subscribedSymbols()).toEqual(['BTCUSDT', 'ETHUSDT']);
+
+    latestSocket().receive(ticker('BTCUSDT', '65000'));
+    expect(btcPrices).toEqual(['65000']);
+
+    latestSocket().close();
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    latestSocket().open();
+    expect(latestSocket().subscribedSymbols()).toEqual(['BTCUSDT', 'ETHUSDT']);
+    manager.close();
+  });
+
+  it('subscribes each symbol under its own product type', () => {
+    const manager = new MarketDataManager('ws://test');
+    const prices: string[] = [];
+    manager.subscribe('ticker', 'BTCUSDT', () => {});
+    manager.subscribe(
+      'ticker',
+      'BTCUSD',
+      (data) => prices.push((data[0] as Record<string, string>).lastPr),
+      'COIN-FUTURES',
+    );
+    latestSocket().open();
+
+    const [message] = latestSocket().sent.map((sent) => JSON.parse(sent));
+    expect(message.args).toEqual([
+      { instType: 'USDT-FUTURES', channel: 'ticker', instId: 'BTCUSDT' },
+      { instType: 'COIN-FUTURES', channel: 'ticker', instId: 'BTCUSD' },
+    ]);
+
+    latestSocket().receive(ticker('BTCUSD', '64000'));
+    latestSocket().receive({
+      ...ticker('BTCUSD', '64100'),
+      arg: { instType: 'COIN-FUTURES', channel: 'ticker', instId: 'BTCUSD' },
+    });
+    expect(prices).toEqual(['64100']);
+    manager.close();
+  });
+
+  it('backs off exponentially between failed reconnects', () => {
+    const manager = new MarketDataManager('ws://test');
+
+    latestSocket().close();
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    latestSocket().close();
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+    manager.close();
+  });
+
+  it('keeps backing off until a reconnected socket delivers data', () => {
+    const manager = new MarketDataManager('ws://test');
+    manager.subscribe('ticker', 'BTCUSDT', () => {});
+
+    latestSocket().open();
+    latestSocket().close();
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    latestSocket().open();
+    latestSocket().close();
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    latestSocket().open();
+    latestSocket().receive(ticker('BTCUSDT', '64000'));
+    latestSocket().close();
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(4);
+    manager.close();
+  });
+
+  it('flags silent subscriptions as stale until data arrives', () => {
+    const manager = new MarketDataManager('ws://test', { staleAfter: 10000 });
+    const staleChanges: [string, boolean][] = [];
+    manager.onStaleChange((_, symbol, stale) =>
+      staleChanges.push([symbol, stale]),
+    );
+    manager.subscribe('ticker', 'BTCUSDT', () => {});
+    latestSocket().open();
+
+    vi.advanceTimersByTime(15000);
+    expect(manager.isStale('ticker', 'BTCUSDT')).toBe(true);
+
+    latestSocket().receive(ticker('BTCUSDT', '65000'));
+    expect(manager.isStale('ticker', 'BTCUSDT')).toBe(false);
+    expect(staleChanges).toEqual([
+      ['BTCUSDT', true],
+      ['BTCUSDT', false],
+    ]);
+    manager.close();
+  });
+});
@@ -0,0 +1,286 @@
+// Shared public WebSocket for market data. Multiplexes any number of
+// channel/symbol subscriptions over one connection, resubscribes after
+// reconnecting and tracks when each subscription last received data.
+
+// Bitget v2 public channels: ticker (also carries mark price and funding),
+// trade, books/books1/books5/books15 and candle1m, candle5m, ...
+export type MarketChannel =
+  | 'ticker'
+  | 'trade'
+  | 'books'
+  | 'books1'
+  | 'books5'
+  | 'books15'
+  | `candle${string}`;
+
+export type MarketDataListener = (
+  data: Record<string, string>[] | string[][],
+  action: 'snapshot' | 'update',
+) => void;
+
+interface MarketSubscription {
+  instType: string;
+  channel: MarketChannel;
+  symbol: string;
+  listeners: Set<MarketDataListener>;
+  lastUpdate: number;
+  stale: boolean;
+}
+
+export interface MarketDataOptions {
+  instType?: string; // Product type of subscriptions that don't name one
+
+  staleAfter?: number; // ms without data before a subscription is stale
+}
+
+const PING_INTERVAL = 30000;
+const WATCHDOG_INTERVAL = 5000;
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+// An open socket with no traffic at all (not even pongs) for this long is
+// considered dead and reconnected
+const SILENT_SOCKET_TIMEOUT = PING_INTERVAL * 2;
+
+const subscriptionKey = (instType: string, channel: string, symbol: string) =>
+  `${instType}:${channel}:${symbol}`;
+
+export class MarketDataManager {
+  private url: string;
+  private instType: string;
+  private staleAfter: number;
+  private ws: WebSocket | null = null;
+  private subscriptions = new Map<string, MarketSubscription>();
+  private statusListeners = new Set<(connected: boolean) => void>();
+  private staleListeners = new Set<
+    (channel: MarketChannel, symbol: string, stale: boolean) => void
+  >();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private watchdogTimer: ReturnType<typeof setInterval> | null = null;
+  private lastMessageAt = 0;
+  private closed = false;
+
+  constructor(url: string, options: MarketDataOptions = {}) {
+    this.url = url;
+    this.instType = options.instType ?? 'USDT-FUTURES';
+    this.staleAfter = options.staleAfter ?? 15000;
+    this.connect();
+    this.watchdogTimer = setInterval(
+      () => this.checkStale(),
+      WATCHDOG_INTERVAL,
+    );
+  }
+
+  get connected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  // Listen for data on a channel/symbol of a product type. Returns the
+  // unsubscribe function; the exchange subscription is dropped once its
+  // last listener is gone.
+  subscribe(
+    channel: MarketChannel,
+    symbol: string,
+    listener: MarketDataListener,
+    instType: string = this.instType,
+  ): () => void {
+    const key = subscriptionKey(instType, channel, symbol);
+    let subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      subscription = {
+        instType,
+        channel,
+        symbol,
+        listeners: new Set(),
+        lastUpdate: Date.now(),
+        stale: false,
+      };
+      this.subscriptions.set(key, subscription);
+      this.send('subscribe', [subscription]);
+    }
+    subscription.listeners.add(listener);
+
+    return () => {
+      subscription.listeners.delete(listener);
+      // Deferred so an unsubscribe immediately followed by a subscribe (e.g.
+      // a React effect re-running) doesn't churn the exchange subscription
+      queueMicrotask(() => {
+        if (
+          subscription.listeners.size === 0 &&
+          this.subscriptions.get(key) === subscription
+        ) {
+          this.subscriptions.delete(key);
+          this.send('unsubscribe', [subscription]);
+        }
+      });
+    };
+  }
+
+  onStatusChange(listener: (connected: boolean) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  onStaleChange(
+    listener: (channel: MarketChannel, symbol: string, stale: boolean) => void,
+  ): () => void {
+    this.staleListeners.add(listener);
+    return () => {
+      this.staleListeners.delete(listener);
+    };
+  }
+
+  isStale(
+    channel: MarketChannel,
+    symbol: string,
+    instType: string = this.instType,
+  ): boolean {
+    return (
+      this.subscriptions.get(subscriptionKey(instType, channel, symbol))
+        ?.stale ?? false
+    );
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    if (this.watchdogTimer) clearInterval(this.watchdogTimer);
+    this.ws?.close();
+    this.ws = null;
+  }
+
+  private connect() {
+    try {
+      this.ws = new WebSocket(this.url);
+    } catch (error) {
+      console.error('❌ Error creating market data WebSocket:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    const ws = this.ws;
+    ws.onopen = () => {
+      this.lastMessageAt = Date.now();
+      this.send('subscribe', [...this.subscriptions.values()]);
+      this.pingTimer = setInterval(() => {
+        if (ws.readyState === WebSocket.OPEN) ws.send('ping');
+      }, PING_INTERVAL);
+      this.emitStatus(true);
+    };
+
+    ws.onmessage = (event) => {
+      this.lastMessageAt = Date.now();
+      if (event.data === 'pong') return;
+
+      try {
+        const message = JSON.parse(event.data);
+        if (message.event === 'error') {
+          console.error('❌ Market data subscription error:', message);
+          return;
+        }
+        if (!message.arg || !Array.isArray(message.data)) return;
+
+        // Only a socket that delivers data counts as recovered; one that
+        // opens and drops right away keeps backing off
+        this.reconnectAttempts = 0;
+
+        const subscription = this.subscriptions.get(
+          subscriptionKey(
+            message.arg.instType,
+            message.arg.channel,
+            message.arg.instId,
+          ),
+        );
+        if (!subscription) return;
+
+        subscription.lastUpdate = Date.now();
+        this.setStale(subscription, false);
+        subscription.listeners.forEach((listener) =>
+          listener(message.data, message.action ?? 'snapshot'),
+        );
+      } catch (error) {
+        console.error(
+          '❌ Error parsing market data message:',
+          error,
+          event.data,
+        );
+      }
+    };
+
+    ws.onclose = () => {
+      if (this.ws === ws) this.reconnect();
+    };
+
+    ws.onerror = (error) => {
+      console.error('❌ Market data WebSocket error:', error);
+    };
+  }
+
+  // Drop the current socket and reconnect with backoff
+  private reconnect() {
+    const ws = this.ws;
+    this.ws = null;
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    ws?.close();
+    this.emitStatus(false);
+    this.scheduleReconnect();
+  }
+
+  // Exponential backoff: 1s, 2s, 4s ... capped at 30s
+  private scheduleReconnect() {
+    if (this.closed) return;
+    const delay = Math.min(
+      MIN_RECONNECT_DELAY * Math.pow(2, this.reconnectAttempts),
+      MAX_RECONNECT_DELAY,
+    );
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private send(op: 'subscribe' | 'unsubscribe', subs: MarketSubscription[]) {
+    if (!this.connected || subs.length === 0) return;
+    this.ws?.send(
+      JSON.stringify({
+        op,
+        args: subs.map((sub) => ({
+          instType: sub.instType,
+          channel: sub.channel,
+          instId: sub.symbol,
+        })),
+      }),
+    );
+  }
+
+  private checkStale() {
+    const now = Date.now();
+    this.subscriptions.forEach((subscription) => {
+      if (now - subscription.lastUpdate > this.staleAfter) {
+        this.setStale(subscription, true);
+      }
+    });
+
+    if (this.connected && now - this.lastMessageAt > SILENT_SOCKET_TIMEOUT) {
+      console.error('❌ Market data WebSocket silent, reconnecting');
+      this.reconnect();
+    }
+  }
+
+  private setStale(subscription: MarketSubscription, stale: boolean) {
+    if (subscription.stale === stale) return;
+    subscription.stale = stale;
+    this.staleListeners.forEach((listener) =>
+      listener(subscription.channel, subscription.symbol, stale),
+    );
+  }
+
+  private emitStatus(connected: boolean) {
+    this.statusListeners.forEach((listener) => listener(connected));
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import type { BitgetAccount } from './bitgetApi';
+import type { Order, Position } from './exchangeClient';
+import type { HedgeTarget } from './config';
+import { buildPortfolioMatrix } from './portfolio';
+
+const account = (id: string): BitgetAccount => ({
+  id,
+  name: `Account ${id}`,
+  apiKey: '',
+  apiSecret: '',
+  passphrase: '',
+  enabled: true,
+});
+
+const position = (
+  symbol: string,
+  holdSide: Position['holdSide'],
+  size: number,
+  unrealizedPL: number = 0,
+): Position =>
+  ({
+    symbol,
+    productType: 'USDT-FUTURES',
+    marginCoin: 'USDT',
+    holdSide,
+    size,
+    unrealizedPL,
+    markPrice: 100,
+  }) as Position;
+
+const target: HedgeTarget = {
+  symbol: 'BTCUSDT',
+  longAccountId: '1',
+  shortAccountId: '2',
+  ratio: 1,
+  tolerance: 0.01,
+  minOrderSize: 0.001,
+};
+
+describe('buildPortfolioMatrix', () => {
+  it('nets positions per symbol and account with totals both ways', () => {
+    const matrix = buildPortfolioMatrix(
+      [
+        {
+          account: account('1'),
+          positions: [
+            position('BTCUSDT', 'long', 1, 5),
+            position('ETHUSDT', 'long', 2, -1),
+          ],
+          orders: [{ symbol: 'ETHUSDT' } as Order],
+          planOrders: [],
+        },
+        {
+          account: account('2'),
+          positions: [position('BTCUSDT', 'short', 1, -4)],
+          orders: [],
+          planOrders: [],
+        },
+      ],
+      [target],
+      { BTCUSDT: 110 },
+    );
+
+    expect(matrix.rows.map((row) => row.symbol)).toEqual([
+      'BTCUSDT',
+      'ETHUSDT',
+    ]);
+    const [btc, eth] = matrix.rows;
+    expect(btc.cells['1']).toEqual({
+      size: 1,
+      notional: 110,
+      unrealizedPL: 5,
+      orders: 0,
+    });
+    expect(btc.cells['2'].notional).toBe(-110);
+    expect(btc.total.size).toBe(0);
+    expect(btc.hedged).toBe(true);
+
+    expect(eth.cells['1'].orders).toBe(1);
+    expect(eth.hedged).toBe(false);
+
+    expect(matrix.totals['1'].unrealizedPL).toBe(4);
+    expect(matrix.totals['2'].notional).toBe(-110);
+    expect(matrix.total.notional).toBe(200);
+  });
+});
@@ -0,0 +1,107 @@
+import type { BitgetAccount, BitgetPlanOrder } from './bitgetApi';
+import type { HedgeTarget } from './config';
+import { getPositionPL } from './currency';
+import { toSymbol, type Order, type Position } from './exchangeClient';
+import { aggregateExposure, evaluateHedge } from './hedgeEngine';
+
+// One symbol in one account (or a total). Size and notional are net:
+// positive long, negative short.
+export interface PortfolioCell {
+  size: number;
+  notional: number;
+  unrealizedPL: number;
+  orders: number;
+}
+
+export interface PortfolioRow {
+  symbol: string;
+  cells: { [accountId: string]: PortfolioCell };
+  total: PortfolioCell;
+  hedged: boolean;
+}
+
+export interface PortfolioMatrix {
+  rows: PortfolioRow[];
+  totals: { [accountId: string]: PortfolioCell };
+  total: PortfolioCell;
+}
+
+interface PortfolioAccountData {
+  account: BitgetAccount;
+  positions: Position[];
+  orders: Order[];
+  planOrders: BitgetPlanOrder[];
+}
+
+// Net size below this counts as flat
+const FLAT_EPSILON = 1e-9;
+
+const emptyCell = (): PortfolioCell => ({
+  size: 0,
+  notional: 0,
+  unrealizedPL: 0,
+  orders: 0,
+});
+
+const addCell = (sum: PortfolioCell, cell: PortfolioCell): PortfolioCell => ({
+  size: sum.size + cell.size,
+  notional: sum.notional + cell.notional,
+  unrealizedPL: sum.unrealizedPL + cell.unrealizedPL,
+  orders: sum.orders + cell.orders,
+});
+
+// Positions and open orders of every account by symbol. A symbol with a
+// hedge target is hedged when it is within the target's tolerance; any
+// other symbol only when its net size across accounts is flat.
+export const buildPortfolioMatrix = (
+  accounts: PortfolioAccountData[],
+  targets: HedgeTarget[] = [],
+  prices: { [symbol: string]: number } = {},
+): PortfolioMatrix => {
+  const cells: { [symbol: string]: { [accountId: string]: PortfolioCell } } =
+    {};
+  const getCell = (symbol: string, accountId: string) =>
+    ((cells[toSymbol(symbol)] ??= {})[accountId] ??= emptyCell());
+
+  accounts.forEach(({ account, positions, orders, planOrders }) => {
+    positions.forEach((position) => {
+      if (!position.size) return;
+
+      const sign = position.holdSide === 'short' ? -1 : 1;
+      const price = prices[position.symbol] || position.markPrice;
+      const cell = getCell(position.symbol, account.id);
+      cell.size += sign * position.size;
+      cell.notional += sign * position.size * price;
+      cell.unrealizedPL += getPositionPL(position, 'USDT', prices) ?? 0;
+    });
+    [...orders, ...planOrders].forEach((order) => {
+      getCell(order.symbol, account.id).orders++;
+    });
+  });
+
+  const exposure = aggregateExposure(accounts);
+  const rows = Object.entries(cells)
+    .map(([symbol, symbolCells]) => {
+      const total = Object.values(symbolCells).reduce(addCell, emptyCell());
+      const target = targets.find((t) => t.symbol === symbol);
+      const hedged = target
+        ? evaluateHedge(target, exposure[symbol]).inBand
+        : Math.abs(total.size) < FLAT_EPSILON;
+      return { symbol, cells: symbolCells, total, hedged };
+    })
+    .sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+  const totals: { [accountId: string]: PortfolioCell } = {};
+  accounts.forEach(({ account }) => {
+    totals[account.id] = rows.reduce(
+      (sum, row) => addCell(sum, row.cells[account.id] ?? emptyCell()),
+      emptyCell(),
+    );
+  });
+
+  return {
+    rows,
+    totals,
+    total: rows.reduce((sum, row) => addCell(sum, row.total), emptyCell()),
+  };
+};
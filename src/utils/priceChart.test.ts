@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import type { BitgetAccount } from './bitgetApi';
+import type { Order, Position } from './exchangeClient';
+import { getChartLevels, mergeCandles, parseCandle } from './priceChart';
+
+const account: BitgetAccount = {
+  id: '1',
+  name: 'Main',
+  apiKey: '',
+  apiSecret: '',
+  passphrase: '',
+  enabled: true,
+};
+
+const candle = (time: number, close: number) =>
+  parseCandle([time.toString(), '100', '110', '90', close.toString(), '1']);
+
+describe('priceChart', () => {
+  it('replaces the open candle and appends new ones', () => {
+    const merged = mergeCandles(
+      [candle(1, 100), candle(2, 101)],
+      [candle(2, 105), candle(3, 99)],
+      2,
+    );
+
+    expect(merged.map((c) => [c.time, c.close])).toEqual([
+      [2, 105],
+      [3, 99],
+    ]);
+  });
+
+  it('draws entries, liquidations and orders of the symbol only', () => {
+    const levels = getChartLevels(
+      [
+        {
+          account,
+          positions: [
+            {
+              symbol: 'BTCUSDT',
+              holdSide: 'short',
+              size: 0.5,
+              entryPrice: 60000,
+              liquidationPrice: 75000,
+            } as Position,
+            {
+              symbol: 'ETHUSDT',
+              holdSide: 'long',
+              size: 1,
+              entryPrice: 3000,
+              liquidationPrice: 2000,
+            } as Position,
+          ],
+          orders: [
+            {
+              symbol: 'BTCUSDT',
+              side: 'open_long',
+              price: 58000,
+              size: 0.1,
+            } as Order,
+            // Market order without a price
+            {
+              symbol: 'BTCUSDT',
+              side: 'close_short',
+              price: 0,
+              size: 0.1,
+            } as Order,
+          ],
+          planOrders: [],
+        },
+      ],
+      'BTCUSDT',
+    );
+
+    expect(
+      levels.map((level) => [level.kind, level.side, level.price]),
+    ).toEqual([
+      ['entry', 'short', 60000],
+      ['liquidation', 'short', 75000],
+      ['order', 'long', 58000],
+    ]);
+    expect(levels[0].label).toBe('Main short entry 0.5');
+  });
+});
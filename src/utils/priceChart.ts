@@ -0,0 +1,125 @@
+import type { BitgetAccount, BitgetPlanOrder } from './bitgetApi';
+import { toSymbol, type Order, type Position } from './exchangeClient';
+
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export type ChartLevelKind = 'entry' | 'liquidation' | 'order' | 'trigger';
+
+// Horizontal line on the price chart for a position or order
+export interface ChartLevel {
+  accountId: string;
+  accountName: string;
+  kind: ChartLevelKind;
+  side: 'long' | 'short';
+  price: number;
+  label: string;
+}
+
+interface ChartAccountData {
+  account: BitgetAccount;
+  positions: Position[];
+  orders: Order[];
+  planOrders: BitgetPlanOrder[];
+}
+
+// Side of the position an order opens or closes: open_long, close_long and
+// buy_single are long, the rest short
+const getOrderSide = (side: string): 'long' | 'short' =>
+  side.includes('long') || side.startsWith('buy') ? 'long' : 'short';
+
+// Candle rows from REST or the WebSocket candle channel, in the Bitget
+// [ts, open, high, low, close, ...] format
+export const parseCandle = (row: string[]): Candle => ({
+  time: parseInt(row[0], 10),
+  open: parseFloat(row[1]),
+  high: parseFloat(row[2]),
+  low: parseFloat(row[3]),
+  close: parseFloat(row[4]),
+});
+
+// Apply candle updates: a candle with a known start time replaces it, a
+// newer one is appended. Keeps the newest `limit` candles, oldest first.
+export const mergeCandles = (
+  candles: Candle[],
+  updates: Candle[],
+  limit: number,
+): Candle[] => {
+  const byTime = new Map(candles.map((candle) => [candle.time, candle]));
+  updates.forEach((candle) => byTime.set(candle.time, candle));
+  return [...byTime.values()].sort((a, b) => a.time - b.time).slice(-limit);
+};
+
+// Entry and liquidation prices of every position on the symbol, plus the
+// prices of its open orders and plan order triggers
+export const getChartLevels = (
+  accounts: ChartAccountData[],
+  symbol: string,
+): ChartLevel[] =>
+  accounts.flatMap(({ account, positions, orders, planOrders }) => {
+    const level = (
+      kind: ChartLevelKind,
+      side: 'long' | 'short',
+      value: number,
+      label: string,
+    ): ChartLevel[] =>
+      value > 0
+        ? [
+            {
+              accountId: account.id,
+              accountName: account.name,
+              kind,
+              side,
+              price: value,
+              label: `${account.name} ${label}`,
+            },
+          ]
+        : [];
+
+    return [
+      ...positions
+        .filter((position) => position.symbol === symbol && position.size > 0)
+        .flatMap((position) => {
+          const side = position.holdSide;
+          return [
+            ...level(
+              'entry',
+              side,
+              position.entryPrice,
+              `${side} entry ${position.size}`,
+            ),
+            ...level(
+              'liquidation',
+              side,
+              position.liquidationPrice,
+              `${side} liq`,
+            ),
+          ];
+        }),
+      ...orders
+        .filter((order) => order.symbol === symbol)
+        .flatMap((order) =>
+          level(
+            'order',
+            getOrderSide(order.side),
+            order.price,
+            `${order.side.replace('_', ' ')} ${order.size}`,
+          ),
+        ),
+      ...planOrders
+        .filter((order) => toSymbol(order.symbol) === symbol)
+        .flatMap((order) =>
+          level(
+            'trigger',
+            getOrderSide(order.side),
+            parseFloat(order.triggerPrice || '0'),
+            `${order.planType.replace('_', ' ')} ${order.size}`,
+          ),
+        ),
+    ];
+  });
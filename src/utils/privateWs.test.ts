@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import type { Order, OrderStatus } from './exchangeClient';
+import { mergeOrders } from './privateWs';
+
+const order = (orderId: string, status: OrderStatus): Order => ({
+  orderId,
+  clientOid: `client-${orderId}`,
+  symbol: 'BTCUSDT',
+  productType: 'USDT-FUTURES',
+  marginCoin: 'USDT',
+  side: 'open_long',
+  orderType: 'limit',
+  price: 65000,
+  size: 0.01,
+  filledSize: 0,
+  averagePrice: 0,
+  status,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('mergeOrders', () => {
+  it('adds new orders and replaces updated ones', () => {
+    const merged = mergeOrders(
+      [order('1', 'new')],
+      [order('1', 'partially_filled'), order('2', 'new')],
+    );
+
+    expect(merged.map((o) => [o.orderId, o.status])).toEqual([
+      ['1', 'partially_filled'],
+      ['2', 'new'],
+    ]);
+  });
+
+  it('drops filled and cancelled orders', () => {
+    const merged = mergeOrders(
+      [order('1', 'new'), order('2', 'new'), order('3', 'new')],
+      [order('1', 'filled'), order('2', 'canceled')],
+    );
+
+    expect(merged.map((o) => o.orderId)).toEqual(['3']);
+  });
+});
@@ -0,0 +1,235 @@
+import {
+  createWsLoginArgs,
+  type BitgetAccount,
+  type ProductType,
+} from './bitgetApi';
+import {
+  getProductTypes,
+  toNumber,
+  toOrderSide,
+  toOrderStatus,
+  type Balance,
+  type Order,
+  type Position,
+} from './exchangeClient';
+
+// Callbacks for updates pushed on an account's private channels
+export interface PrivateWsHandlers {
+  // Full list of open positions of one product type
+  onPositions: (productType: ProductType, positions: Position[]) => void;
+  // Changed orders only; filled and cancelled orders are included once
+  onOrders: (orders: Order[]) => void;
+  // All balances of one product type
+  onBalances: (productType: ProductType, balances: Balance[]) => void;
+  onStatusChange: (connected: boolean) => void;
+}
+
+type PushData = Record<string, string>;
+
+// Positions, orders and account channels of every enabled product type
+const getPrivateChannels = () =>
+  getProductTypes().flatMap((instType) => [
+    { instType, channel: 'positions', instId: 'default' },
+    { instType, channel: 'orders', instId: 'default' },
+    { instType, channel: 'account', coin: 'default' },
+  ]);
+
+const PING_INTERVAL = 30000;
+const RECONNECT_DELAY = 3000;
+
+// Order statuses after which an order is no longer open
+const CLOSED_ORDER_STATUSES = ['filled', 'canceled'];
+
+// The private channels use v2 field names, which differ slightly from the
+// v2 REST ones
+const toPosition = (data: PushData, productType: ProductType): Position => ({
+  symbol: data.instId,
+  productType,
+  marginCoin: data.marginCoin,
+  holdSide: data.holdSide === 'short' ? 'short' : 'long',
+  // v2 calls isolated margin 'isolated', v1 'fixed'
+  marginMode: data.marginMode === 'isolated' ? 'fixed' : 'crossed',
+  holdMode: data.posMode === 'one_way_mode' ? 'single_hold' : 'double_hold',
+  size: toNumber(data.total),
+  available: toNumber(data.available),
+  margin: toNumber(data.marginSize),
+  leverage: toNumber(data.leverage),
+  entryPrice: toNumber(data.openPriceAvg),
+  markPrice: toNumber(data.markPrice),
+  liquidationPrice: toNumber(data.liquidationPrice),
+  unrealizedPL: toNumber(data.unrealizedPL),
+  achievedProfits: toNumber(data.achievedProfits),
+  openTime: toNumber(data.cTime),
+});
+
+const toOrder = (data: PushData, productType: ProductType): Order => ({
+  orderId: data.orderId,
+  clientOid: data.clientOid,
+  symbol: data.instId,
+  productType,
+  marginCoin: data.marginCoin,
+  side: toOrderSide(data.side, data.tradeSide, data.posSide),
+  orderType: data.orderType,
+  price: toNumber(data.price),
+  size: toNumber(data.size),
+  filledSize: toNumber(data.accBaseVolume),
+  averagePrice: toNumber(data.priceAvg),
+  status: toOrderStatus(data.status),
+  createdAt: toNumber(data.cTime),
+  updatedAt: toNumber(data.uTime),
+});
+
+const toBalance = (data: PushData, productType: ProductType): Balance => ({
+  productType,
+  marginCoin: data.marginCoin,
+  equity: toNumber(data.equity),
+  usdtEquity: toNumber(data.usdtEquity),
+  available: toNumber(data.available),
+  locked: toNumber(data.frozen),
+  maxTransferOut: toNumber(data.maxTransferOut),
+  unrealizedPL: toNumber(data.unrealizedPL),
+  crossRiskRate: toNumber(data.crossedRiskRate),
+});
+
+// True once an order update means the order has left the book
+const isClosedOrder = (order: Order): boolean =>
+  CLOSED_ORDER_STATUSES.includes(order.status);
+
+// Apply pushed order updates to a list of open orders
+export const mergeOrders = (orders: Order[], updates: Order[]): Order[] => {
+  let merged = orders;
+  updates.forEach((update) => {
+    merged = merged.filter((order) => order.orderId !== update.orderId);
+    if (!isClosedOrder(update)) {
+      merged = [...merged, update];
+    }
+  });
+  return merged;
+};
+
+// Log in to the private WebSocket for one account and subscribe to its
+// positions, orders and account channels. Reconnects until the returned
+// function is called, except after a rejected login.
+export const connectPrivateWs = (
+  account: BitgetAccount,
+  wsUrl: string,
+  handlers: PrivateWsHandlers,
+): (() => void) => {
+  let ws: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let stopped = false;
+  let loggedIn = false;
+
+  const connect = () => {
+    loggedIn = false;
+    try {
+      ws = new WebSocket(wsUrl);
+    } catch (error) {
+      console.error(
+        `❌ Error creating private WebSocket for ${account.name}:`,
+        error,
+      );
+      return;
+    }
+
+    ws.onopen = () => {
+      ws?.send(
+        JSON.stringify({ op: 'login', args: [createWsLoginArgs(account)] }),
+      );
+
+      pingTimer = setInterval(() => {
+        if (ws?.readyState === WebSocket.OPEN) {
+          ws.send('ping');
+        }
+      }, PING_INTERVAL);
+    };
+
+    ws.onmessage = (event) => {
+      if (event.data === 'pong') return;
+
+      try {
+        const message = JSON.parse(event.data);
+
+        if (message.event === 'login') {
+          loggedIn = true;
+          ws?.send(
+            JSON.stringify({ op: 'subscribe', args: getPrivateChannels() }),
+          );
+          handlers.onStatusChange(true);
+          return;
+        }
+
+        if (message.event === 'error') {
+          console.error(
+            `❌ Private WebSocket error for ${account.name}:`,
+            message,
+          );
+          // Login failures won't fix themselves by reconnecting
+          if (!loggedIn) {
+            stopped = true;
+            ws?.close();
+          }
+          return;
+        }
+
+        if (!message.arg || !Array.isArray(message.data)) return;
+
+        const data = message.data as PushData[];
+        const productType = message.arg.instType as ProductType;
+        switch (message.arg.channel) {
+          case 'positions':
+            handlers.onPositions(
+              productType,
+              data.map((item) => toPosition(item, productType)),
+            );
+            break;
+          case 'orders':
+            handlers.onOrders(data.map((item) => toOrder(item, productType)));
+            break;
+          case 'account':
+            handlers.onBalances(
+              productType,
+              data.map((item) => toBalance(item, productType)),
+            );
+            break;
+        }
+      } catch (error) {
+        console.error(
+          '❌ Error parsing private WebSocket message:',
+          error,
+          event.data,
+        );
+      }
+    };
+
+    ws.onclose = () => {
+      if (pingTimer) {
+        clearInterval(pingTimer);
+        pingTimer = null;
+      }
+
+      if (!stopped) {
+        handlers.onStatusChange(false);
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+      }
+    };
+
+    ws.onerror = (error) => {
+      console.error(`❌ Private WebSocket error for ${account.name}:`, error);
+    };
+  };
+
+  connect();
+
+  return () => {
+    stopped = true;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+    }
+    if (pingTimer) {
+      clearInterval(pingTimer);
+    }
+    ws?.close();
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { TokenBucket, getRateLimit, getRetryDelay } from './rateLimit';
+
+describe('TokenBucket', () => {
+  it('allows a burst up to the limit, then spaces requests out', () => {
+    const bucket = new TokenBucket(5, 0);
+
+    expect([1, 2, 3, 4, 5].map(() => bucket.reserve(0))).toEqual([
+      0, 0, 0, 0, 0,
+    ]);
+    expect(bucket.reserve(0)).toBe(200);
+    expect(bucket.reserve(0)).toBe(400);
+  });
+
+  it('refills over time without exceeding the burst', () => {
+    const bucket = new TokenBucket(5, 0);
+    for (let i = 0; i < 5; i++) bucket.reserve(0);
+
+    expect(bucket.reserve(200)).toBe(0);
+    expect(bucket.reserve(200)).toBe(200);
+
+    const idle = new TokenBucket(5, 0);
+    expect(
+      [1, 2, 3, 4, 5, 6].map(() => idle.reserve(60000)).filter((w) => w > 0),
+    ).toHaveLength(1);
+  });
+});
+
+describe('getRateLimit', () => {
+  it('uses the documented limit or the default', () => {
+    expect(getRateLimit('/api/mix/v1/position/allPosition')).toBe(5);
+    expect(getRateLimit('/api/mix/v1/unknown')).toBe(10);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially with jitter, up to the maximum', () => {
+    expect(getRetryDelay(0, () => 0)).toBe(250);
+    expect(getRetryDelay(0, () => 1)).toBe(500);
+    expect(getRetryDelay(2, () => 0.5)).toBe(1500);
+    expect(getRetryDelay(10, () => 1)).toBe(8000);
+  });
+});
@@ -0,0 +1,105 @@
+// Client-side throttling for the Bitget REST API. Every endpoint gets a
+// token bucket sized to Bitget's documented limit: private endpoints are
+// limited per account (UID), public market endpoints per IP.
+
+// Requests per second from the Bitget API docs
+const ENDPOINT_LIMITS: { [endpoint: string]: number } = {
+  '/api/v2/public/time': 20,
+  '/api/v2/mix/market/contracts': 20,
+  '/api/v2/mix/market/candles': 20,
+  '/api/v2/mix/market/current-fund-rate': 20,
+  '/api/v2/mix/market/funding-time': 20,
+  '/api/mix/v1/account/accounts': 20,
+  '/api/mix/v1/account/account': 20,
+  '/api/mix/v1/account/accountBusinessBill': 10,
+  '/api/mix/v1/account/setLeverage': 5,
+  '/api/mix/v1/account/setMarginMode': 5,
+  '/api/mix/v1/account/setPositionMode': 5,
+  '/api/mix/v1/account/setMargin': 5,
+  '/api/mix/v1/position/allPosition': 5,
+  '/api/mix/v1/order/marginCoinCurrent': 20,
+  '/api/mix/v1/order/placeOrder': 10,
+  '/api/mix/v1/order/cancel-order': 10,
+  '/api/mix/v1/order/detail': 20,
+  '/api/mix/v1/order/historyProductType': 5,
+  '/api/mix/v1/order/allFills': 10,
+  '/api/mix/v1/plan/currentPlan': 10,
+  '/api/mix/v1/plan/placePlan': 10,
+  '/api/mix/v1/plan/placeTPSL': 10,
+  '/api/mix/v1/plan/modifyPlan': 10,
+  '/api/mix/v1/plan/modifyTPSLPlan': 10,
+  '/api/mix/v1/plan/cancelPlan': 10,
+  '/api/v2/mix/account/accounts': 10,
+  '/api/v2/mix/position/all-position': 5,
+  '/api/v2/mix/order/orders-pending': 10,
+  '/api/v2/mix/order/cancel-order': 10,
+  '/api/v2/spot/wallet/subaccount-transfer': 10,
+};
+
+// Bitget's most common limit, for endpoints not listed above
+const DEFAULT_LIMIT = 10;
+
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 8000;
+
+// Token bucket refilled continuously at `perSecond` tokens per second, up to
+// one second's worth of burst
+export class TokenBucket {
+  private capacity: number;
+  private refillRate: number; // tokens per ms
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(perSecond: number, now: number = Date.now()) {
+    this.capacity = perSecond;
+    this.refillRate = perSecond / 1000;
+    this.tokens = perSecond;
+    this.updatedAt = now;
+  }
+
+  // Take a token and return how many ms to wait before using it. Tokens go
+  // negative while callers are queued, so each waits for its own slot.
+  reserve(now: number = Date.now()): number {
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.updatedAt) * this.refillRate,
+    );
+    this.updatedAt = now;
+    this.tokens -= 1;
+    return this.tokens >= 0 ? 0 : Math.ceil(-this.tokens / this.refillRate);
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+export const getRateLimit = (endpoint: string): number =>
+  ENDPOINT_LIMITS[endpoint] ?? DEFAULT_LIMIT;
+
+// Wait for a slot on the endpoint's bucket. Private endpoints pass the
+// account id so each account has its own buckets.
+export const throttle = async (
+  endpoint: string,
+  accountId?: string,
+): Promise<void> => {
+  const key = `${accountId ?? 'public'}:${endpoint}`;
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(getRateLimit(endpoint));
+    buckets.set(key, bucket);
+  }
+
+  const wait = bucket.reserve();
+  if (wait > 0) {
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+};
+
+// Exponential backoff with jitter before retry `attempt` (0-based): half
+// the delay is fixed, the other half random so clients spread out
+export const getRetryDelay = (
+  attempt: number,
+  random: () => number = Math.random,
+): number => {
+  const delay = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+  return Math.round(delay / 2 + (delay / 2) * random());
+};
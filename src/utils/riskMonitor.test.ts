@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { BitgetAccount } from './bitgetApi';
+import type { Position } from './exchangeClient';
+import {
+  assessPositionRisks,
+  computeAtr,
+  getLiquidationDistance,
+} from './riskMonitor';
+
+const account = (id: string): BitgetAccount => ({
+  id,
+  name: `Account ${id}`,
+  apiKey: '',
+  apiSecret: '',
+  passphrase: '',
+  enabled: true,
+});
+
+const position = (
+  holdSide: 'long' | 'short',
+  liquidationPrice: number,
+  unrealizedPL: number = 0,
+): Position => ({
+  symbol: 'BTCUSDT',
+  productType: 'USDT-FUTURES',
+  marginCoin: 'USDT',
+  holdSide,
+  marginMode: 'crossed',
+  holdMode: 'double_hold',
+  size: 0.01,
+  available: 0.01,
+  margin: 100,
+  leverage: 10,
+  entryPrice: 60000,
+  markPrice: 60000,
+  liquidationPrice,
+  unrealizedPL,
+  achievedProfits: 0,
+  openTime: 0,
+});
+
+describe('riskMonitor', () => {
+  it('measures liquidation distance in the losing direction', () => {
+    expect(getLiquidationDistance('long', 100, 90)).toBeCloseTo(10);
+    expect(getLiquidationDistance('short', 100, 120)).toBeCloseTo(20);
+    expect(getLiquidationDistance('long', 100, 0)).toBe(Infinity);
+  });
+
+  it('computes the average true range', () => {
+    const candles = [
+      ['0', '100', '105', '95', '100'],
+      ['1', '100', '110', '100', '108'],
+      ['2', '108', '109', '90', '95'],
+    ];
+    // True ranges: max(10, 10, 0) = 10 and max(19, 1, 18) = 19
+    expect(computeAtr(candles, 2)).toBe(14.5);
+    expect(computeAtr(candles, 3)).toBeNull();
+  });
+
+  it('sorts the riskiest positions first and levels them', () => {
+    const risks = assessPositionRisks(
+      [
+        { account: account('1'), positions: [position('long', 40000)] },
+        { account: account('2'), positions: [position('short', 63000)] },
+      ],
+      {},
+      {},
+    );
+
+    expect(risks.map((risk) => [risk.accountId, risk.level])).toEqual([
+      ['2', 'critical'],
+      ['1', 'ok'],
+    ]);
+  });
+
+  it('escalates a leg near liquidation when the other leg is in profit', () => {
+    const risks = assessPositionRisks(
+      [
+        {
+          account: account('1'),
+          positions: [position('long', 52000, 25)],
+        },
+        { account: account('2'), positions: [position('short', 66000)] },
+      ],
+      {},
+      {},
+    );
+
+    const shortLeg = risks.find((risk) => risk.accountId === '2');
+    expect(shortLeg?.distancePct).toBeCloseTo(10);
+    expect(shortLeg?.hedgeAtRisk).toBe(true);
+    expect(shortLeg?.level).toBe('critical');
+  });
+});
@@ -0,0 +1,200 @@
+import type { BitgetAccount, ProductType } from './bitgetApi';
+import type { RiskSettings } from './config';
+import type { Balance, Position } from './exchangeClient';
+
+export type RiskLevel = 'ok' | 'warning' | 'critical';
+
+// Liquidation risk of one position
+export interface PositionRisk {
+  key: string; // accountId:symbol:holdSide
+  accountId: string;
+  accountName: string;
+  position: Position;
+  markPrice: number;
+  liquidationPrice: number;
+  distancePct: number; // Infinity when the position can't be liquidated
+  distanceAtr: number | null; // null until the ATR is known
+  level: RiskLevel;
+  // The opposite leg of the hedge in another account is in profit, so a
+  // liquidation here would leave that profit naked
+  hedgeAtRisk: boolean;
+}
+
+// Margin usage of one account
+export interface AccountRisk {
+  accountId: string;
+  accountName: string;
+  productType: ProductType;
+  marginCoin: string;
+  riskRate: number; // crossRiskRate, 1 = liquidation
+  level: RiskLevel;
+}
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  warningPct: 15,
+  criticalPct: 7.5,
+  warningAtr: 3,
+  criticalAtr: 1.5,
+  sound: true,
+  notifications: false,
+};
+
+// crossRiskRate thresholds for account-level alerts
+const ACCOUNT_WARNING_RATE = 0.5;
+const ACCOUNT_CRITICAL_RATE = 0.8;
+
+const LEVEL_ORDER: { [level in RiskLevel]: number } = {
+  ok: 0,
+  warning: 1,
+  critical: 2,
+};
+
+export const isMoreSevere = (a: RiskLevel, b: RiskLevel): boolean =>
+  LEVEL_ORDER[a] > LEVEL_ORDER[b];
+
+// Average true range over the last `period` candles. Candles use the Bitget
+// format [ts, open, high, low, close, ...], oldest first.
+export const computeAtr = (
+  candles: string[][],
+  period: number = 14,
+): number | null => {
+  if (candles.length < period + 1) return null;
+
+  const recent = candles.slice(-(period + 1));
+  let total = 0;
+  for (let i = 1; i < recent.length; i++) {
+    const high = parseFloat(recent[i][2]);
+    const low = parseFloat(recent[i][3]);
+    const prevClose = parseFloat(recent[i - 1][4]);
+    total += Math.max(
+      high - low,
+      Math.abs(high - prevClose),
+      Math.abs(low - prevClose),
+    );
+  }
+  return total / period;
+};
+
+// Distance from mark price to liquidation price in % of mark price
+export const getLiquidationDistance = (
+  holdSide: string,
+  markPrice: number,
+  liquidationPrice: number,
+): number => {
+  if (!(liquidationPrice > 0) || !(markPrice > 0)) return Infinity;
+  const distance =
+    holdSide === 'long'
+      ? markPrice - liquidationPrice
+      : liquidationPrice - markPrice;
+  return (distance / markPrice) * 100;
+};
+
+const getLevel = (
+  distancePct: number,
+  distanceAtr: number | null,
+  settings: RiskSettings,
+): RiskLevel => {
+  if (
+    distancePct <= settings.criticalPct ||
+    (distanceAtr !== null && distanceAtr <= settings.criticalAtr)
+  ) {
+    return 'critical';
+  }
+  if (
+    distancePct <= settings.warningPct ||
+    (distanceAtr !== null && distanceAtr <= settings.warningAtr)
+  ) {
+    return 'warning';
+  }
+  return 'ok';
+};
+
+// Assess every open position across accounts, riskiest first. Live prices
+// (by API symbol) take precedence over the position's last mark price.
+export const assessPositionRisks = (
+  accounts: { account: BitgetAccount; positions: Position[] }[],
+  prices: { [symbol: string]: number },
+  atrs: { [symbol: string]: number },
+  settings: RiskSettings = DEFAULT_RISK_SETTINGS,
+): PositionRisk[] => {
+  const risks: PositionRisk[] = [];
+
+  accounts.forEach(({ account, positions }) => {
+    positions.forEach((position) => {
+      if (!position.size) return;
+
+      const markPrice = prices[position.symbol] || position.markPrice;
+      const { liquidationPrice } = position;
+      const distancePct = getLiquidationDistance(
+        position.holdSide,
+        markPrice,
+        liquidationPrice,
+      );
+      const atr = atrs[position.symbol];
+      const distanceAtr =
+        atr > 0 && Number.isFinite(distancePct)
+          ? ((distancePct / 100) * markPrice) / atr
+          : null;
+
+      risks.push({
+        key: `${account.id}:${position.symbol}:${position.holdSide}`,
+        accountId: account.id,
+        accountName: account.name,
+        position,
+        markPrice,
+        liquidationPrice,
+        distancePct,
+        distanceAtr,
+        level: getLevel(distancePct, distanceAtr, settings),
+        hedgeAtRisk: false,
+      });
+    });
+  });
+
+  // A leg near liquidation whose other side is in profit is escalated
+  risks.forEach((risk) => {
+    if (risk.level === 'ok') return;
+    risk.hedgeAtRisk = risks.some(
+      (other) =>
+        other.accountId !== risk.accountId &&
+        other.position.symbol === risk.position.symbol &&
+        other.position.holdSide !== risk.position.holdSide &&
+        other.position.unrealizedPL > 0,
+    );
+    if (risk.hedgeAtRisk) {
+      risk.level = 'critical';
+    }
+  });
+
+  return risks.sort(
+    (a, b) =>
+      LEVEL_ORDER[b.level] - LEVEL_ORDER[a.level] ||
+      a.distancePct - b.distancePct,
+  );
+};
+
+// Account-level margin usage from crossRiskRate, for every margin coin
+// that holds funds
+export const assessAccountRisks = (
+  accounts: { account: BitgetAccount; balances: Balance[] }[],
+): AccountRisk[] =>
+  accounts.flatMap(({ account, balances }) =>
+    balances
+      .filter((balance) => balance.equity > 0)
+      .map((balance): AccountRisk => {
+        const riskRate = balance.crossRiskRate;
+        return {
+          accountId: account.id,
+          accountName: account.name,
+          productType: balance.productType,
+          marginCoin: balance.marginCoin,
+          riskRate,
+          level:
+            riskRate >= ACCOUNT_CRITICAL_RATE
+              ? 'critical'
+              : riskRate >= ACCOUNT_WARNING_RATE
+                ? 'warning'
+                : 'ok',
+        };
+      }),
+  );
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  estimateOffset,
+  smoothOffset,
+  recordServerTime,
+  resetClockOffset,
+  getClockOffset,
+  getServerTime,
+  isClockDrifting,
+} from './timeSync';
+
+describe('estimateOffset', () => {
+  it('compares the server time to the middle of the round trip', () => {
+    expect(estimateOffset(10100, 1000, 1200)).toBe(9000);
+    expect(estimateOffset(900, 1000, 1200)).toBe(-200);
+  });
+});
+
+describe('smoothOffset', () => {
+  it('takes the first sample as is, then moves part of the way', () => {
+    expect(smoothOffset(null, 1000)).toBe(1000);
+    expect(smoothOffset(1000, 2000)).toBe(1300);
+  });
+});
+
+describe('server clock', () => {
+  beforeEach(() => {
+    resetClockOffset();
+    vi.useFakeTimers();
+    vi.setSystemTime(1700000000000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('uses the local clock before the first sync', () => {
+    expect(getClockOffset()).toBeNull();
+    expect(getServerTime()).toBe(1700000000000);
+  });
+
+  it('corrects the local clock by the smoothed offset', () => {
+    expect(recordServerTime(1700000040100, 1700000000000, 1700000000200)).toBe(
+      40000,
+    );
+    expect(getServerTime()).toBe(1700000040000);
+    expect(isClockDrifting(getClockOffset() ?? 0)).toBe(true);
+  });
+
+  it('discards samples with a slow round trip', () => {
+    recordServerTime(1700000000000, 1700000000000, 1700000000000);
+
+    expect(recordServerTime(1700000060000, 1700000000000, 1700000005000)).toBe(
+      null,
+    );
+    expect(getClockOffset()).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+// Offset between Bitget's clock and the local one. Signed requests are
+// rejected when their timestamp is more than 30s off the server time, so
+// timestamps are taken from the local clock corrected by this offset.
+
+// Drift above this is shown as a warning
+export const DRIFT_WARNING_THRESHOLD = 5000;
+// How often the offset is re-measured
+export const TIME_SYNC_INTERVAL = 5 * 60 * 1000;
+
+// Weight of a new sample in the smoothed offset
+const SMOOTHING = 0.3;
+// Samples with a slower round trip are too imprecise to use
+const MAX_ROUND_TRIP = 2000;
+
+let clockOffset: number | null = null;
+
+// Offset from one server time reading, assuming the server read its clock
+// halfway through the round trip
+export const estimateOffset = (
+  serverTime: number,
+  sentAt: number,
+  receivedAt: number,
+): number => serverTime - (sentAt + receivedAt) / 2;
+
+// Exponential moving average, so a single delayed response cannot move the
+// offset far. The first sample is taken as is.
+export const smoothOffset = (
+  previous: number | null,
+  sample: number,
+): number =>
+  previous === null ? sample : previous + SMOOTHING * (sample - previous);
+
+// Fold a server time reading into the offset. Returns the new offset, or
+// null when the sample was discarded.
+export const recordServerTime = (
+  serverTime: number,
+  sentAt: number,
+  receivedAt: number,
+): number | null => {
+  if (receivedAt - sentAt > MAX_ROUND_TRIP) return null;
+
+  clockOffset = smoothOffset(
+    clockOffset,
+    estimateOffset(serverTime, sentAt, receivedAt),
+  );
+  return clockOffset;
+};
+
+// Forget the offset, e.g. when switching to a different server
+export const resetClockOffset = (): void => {
+  clockOffset = null;
+};
+
+// Milliseconds the server clock is ahead of the local one (negative when
+// behind), or null before the first sync
+export const getClockOffset = (): number | null => clockOffset;
+
+// Current time on the server clock, in ms
+export const getServerTime = (): number =>
+  Date.now() + Math.round(clockOffset ?? 0);
+
+export const isClockDrifting = (offset: number): boolean =>
+  Math.abs(offset) > DRIFT_WARNING_THRESHOLD;
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import type { Config } from './config';
+import {
+  encryptCredentials,
+  decryptCredentials,
+  lockConfig,
+  unlockConfig,
+  isPlaintextConfig,
+  VaultError,
+} from './vault';
+
+const plaintextConfig: Config = {
+  globalPassword: 'correct horse',
+  accounts: [
+    {
+      id: '1',
+      name: 'Main',
+      apiKey: 'key-1',
+      apiSecret: 'secret-1',
+      passphrase: 'pass-1',
+      equity: 1000,
+      enabled: true,
+    },
+  ],
+  settings: {
+    apiBaseUrl: 'https://api.bitget.com',
+    refreshInterval: 2000,
+    defaultSymbol: 'BTCUSD.P',
+  },
+};
+
+describe('vault', () => {
+  it('round-trips credentials with the right password', async () => {
+    const credentials = {
+      '1': { apiKey: 'key', apiSecret: 'super-secret', passphrase: 'pass' },
+    };
+    const vault = await encryptCredentials(credentials, 'password');
+
+    expect(JSON.stringify(vault)).not.toContain('super-secret');
+    await expect(decryptCredentials(vault, 'password')).resolves.toEqual(
+      credentials,
+    );
+  });
+
+  it('rejects a wrong password', async () => {
+    const vault = await encryptCredentials({}, 'password');
+
+    await expect(decryptCredentials(vault, 'wrong')).rejects.toBeInstanceOf(
+      VaultError,
+    );
+  });
+
+  it('uses a fresh salt and iv for every encryption', async () => {
+    const first = await encryptCredentials({}, 'password');
+    const second = await encryptCredentials({}, 'password');
+
+    expect(first.kdf.salt).not.toBe(second.kdf.salt);
+    expect(first.cipher.iv).not.toBe(second.cipher.iv);
+  });
+
+  it('migrates a plaintext config and unlocks it again', async () => {
+    expect(isPlaintextConfig(plaintextConfig)).toBe(true);
+
+    const locked = await lockConfig(plaintextConfig, 'correct horse');
+    expect(isPlaintextConfig(locked)).toBe(false);
+    expect(locked.globalPassword).toBeUndefined();
+    expect(locked.accounts[0].apiSecret).toBe('');
+
+    const unlocked = await unlockConfig(locked, 'correct horse');
+    expect(unlocked.accounts).toEqual(plaintextConfig.accounts);
+  });
+});
@@ -0,0 +1,161 @@
+import type { Config, EncryptedVault } from './config';
+
+// Credentials stored inside the vault, keyed by account id
+export interface VaultCredentials {
+  [accountId: string]: {
+    apiKey: string;
+    apiSecret: string;
+    passphrase: string;
+  };
+}
+
+// Thrown when the vault cannot be unlocked
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+const toBase64 = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+// Derive an AES-GCM key from the password with PBKDF2-SHA256
+const deriveKey = async (
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+// Encrypt credentials with a key derived from the password
+export const encryptCredentials = async (
+  credentials: VaultCredentials,
+  password: string,
+): Promise<EncryptedVault> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(credentials)),
+  );
+
+  return {
+    version: VAULT_VERSION,
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+    },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+// Decrypt credentials - AES-GCM authentication fails on a wrong password
+export const decryptCredentials = async (
+  vault: EncryptedVault,
+  password: string,
+): Promise<VaultCredentials> => {
+  if (vault.version !== VAULT_VERSION) {
+    throw new VaultError(`Unsupported vault version: ${vault.version}`);
+  }
+
+  const key = await deriveKey(
+    password,
+    fromBase64(vault.kdf.salt),
+    vault.kdf.iterations,
+  );
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(vault.cipher.iv) },
+      key,
+      fromBase64(vault.data),
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new VaultError('Invalid password or corrupted vault');
+  }
+};
+
+// True when the config still holds plaintext credentials
+export const isPlaintextConfig = (config: Config): boolean =>
+  !config.vault &&
+  config.accounts.some(
+    (account) => account.apiKey || account.apiSecret || account.passphrase,
+  );
+
+// Move all account credentials into an encrypted vault
+export const lockConfig = async (
+  config: Config,
+  password: string,
+): Promise<Config> => {
+  const credentials: VaultCredentials = {};
+  config.accounts.forEach((account) => {
+    credentials[account.id] = {
+      apiKey: account.apiKey,
+      apiSecret: account.apiSecret,
+      passphrase: account.passphrase,
+    };
+  });
+
+  const lockedConfig: Config = {
+    ...config,
+    accounts: config.accounts.map((account) => ({
+      ...account,
+      apiKey: '',
+      apiSecret: '',
+      passphrase: '',
+    })),
+    vault: await encryptCredentials(credentials, password),
+  };
+  delete lockedConfig.globalPassword;
+  return lockedConfig;
+};
+
+// Decrypt the vault and merge the credentials back into the accounts
+export const unlockConfig = async (
+  config: Config,
+  password: string,
+): Promise<Config> => {
+  if (!config.vault) {
+    return config;
+  }
+
+  const credentials = await decryptCredentials(config.vault, password);
+  return {
+    ...config,
+    accounts: config.accounts.map((account) => ({
+      ...account,
+      ...credentials[account.id],
+    })),
+  };
+};
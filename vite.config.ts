@@ -1,20 +1,29 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Set BACKEND_URL (e.g. http://127.0.0.1:3000) to develop against the
+// signing backend instead of signing in the browser
+const backendUrl = process.env.BACKEND_URL;
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
   server: {
-    proxy: {
-      '/api': {
-        target: 'https://api.bitget.com',
-        changeOrigin: true,
-        secure: true,
-        rewrite: (path) => path,
-        headers: {
-          Origin: 'https://api.bitget.com',
+    proxy: backendUrl
+      ? {
+          '/api': { target: backendUrl },
+          '/backend': { target: backendUrl, ws: true },
+        }
+      : {
+          '/api': {
+            target: 'https://api.bitget.com',
+            changeOrigin: true,
+            secure: true,
+            rewrite: (path) => path,
+            headers: {
+              Origin: 'https://api.bitget.com',
+            },
+          },
         },
-      },
-    },
   },
 });